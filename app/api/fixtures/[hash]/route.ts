@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+
+// Generation fixtures for record/replay (lib/providers/fixtures.ts): one
+// JSON file per request hash. Only served by the dev server unless
+// CHECKFU_FIXTURES=1 (e.g. a CI build that replays committed fixtures).
+
+export const runtime = "nodejs";
+
+const DIR = path.join(
+  process.cwd(),
+  process.env.CHECKFU_FIXTURES_DIR ?? "fixtures/generations",
+);
+
+function enabled() {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.CHECKFU_FIXTURES === "1"
+  );
+}
+
+function fileFor(hash: string): string | null {
+  return /^[a-f0-9]{64}$/.test(hash) ? path.join(DIR, `${hash}.json`) : null;
+}
+
+type Params = { params: Promise<{ hash: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const file = fileFor((await params).hash);
+  if (!enabled() || !file) return new NextResponse(null, { status: 404 });
+  try {
+    return new NextResponse(await fs.readFile(file, "utf8"), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch {
+    return new NextResponse(null, { status: 404 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  const file = fileFor((await params).hash);
+  if (!enabled() || !file) return new NextResponse(null, { status: 404 });
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return new NextResponse("Invalid JSON", { status: 400 });
+  }
+  await fs.mkdir(DIR, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(body, null, 2) + "\n");
+  return new NextResponse(null, { status: 204 });
+}
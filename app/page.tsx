@@ -1,5 +1,33 @@
-import Editor from "@/components/Editor";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { SignInButton } from "@clerk/nextjs";
 
-export default function Page() {
-  return <Editor />;
+export default async function Page() {
+  const { userId } = await auth();
+  if (userId) redirect("/projects");
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-6 p-6 text-center">
+      <img src="/logo.svg" alt="Checkfu Logo" className="h-10" />
+      <p className="max-w-md text-slate-600">
+        Personalized, printable K–1 learning materials.
+      </p>
+      <div className="flex items-center gap-3">
+        <SignInButton mode="modal" forceRedirectUrl="/projects">
+          <button className="h-10 px-4 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700">
+            Sign in
+          </button>
+        </SignInButton>
+        <Link
+          href="/try"
+          className="h-10 px-4 rounded-md border text-sm inline-flex items-center hover:bg-slate-50"
+        >
+          Try it without an account
+        </Link>
+      </div>
+      <p className="text-xs text-slate-500">
+        Without an account your work stays in this browser.
+      </p>
+    </main>
+  );
 }
@@ -0,0 +1,15 @@
+import Editor from "@/components/Editor";
+import RequireAuth from "@/components/RequireAuth";
+
+export default async function ProjectPage({
+  params,
+}: {
+  params: Promise<{ projectId: string }>;
+}) {
+  const { projectId } = await params;
+  return (
+    <RequireAuth>
+      <Editor projectId={projectId} />
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,10 @@
+import ProjectLibrary from "@/components/ProjectLibrary";
+import RequireAuth from "@/components/RequireAuth";
+
+export default function ProjectsPage() {
+  return (
+    <RequireAuth>
+      <ProjectLibrary />
+    </RequireAuth>
+  );
+}
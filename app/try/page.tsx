@@ -0,0 +1,7 @@
+import Editor from "@/components/Editor";
+
+// Anonymous "try it" mode: the editor without an account. Work is saved in
+// this browser only (IndexedDB) and never reaches Convex.
+export default function TryPage() {
+  return <Editor />;
+}
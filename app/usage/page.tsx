@@ -0,0 +1,10 @@
+import UsageDashboard from "@/components/UsageDashboard";
+import RequireAuth from "@/components/RequireAuth";
+
+export default function UsagePage() {
+  return (
+    <RequireAuth>
+      <UsageDashboard />
+    </RequireAuth>
+  );
+}
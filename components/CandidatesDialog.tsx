@@ -0,0 +1,161 @@
+"use client";
+
+/**
+ * CandidatesDialog
+ * Compare the candidate variants generated for one Refine by Prompt request
+ * and pick the ones to keep. Candidates are drafts outside the editor store:
+ * keeping adds the chosen ones as child pages in one undoable step,
+ * discarding leaves no trace in history. Each candidate is a job in the
+ * queue (store/useJobStore), so its status comes from there.
+ */
+
+import { useJobStore, type JobStatus } from "@/store/useJobStore";
+import type { Page } from "@/store/useEditorStore";
+
+export type Candidate = {
+  // Draft page id, also the opId of its job (its pageId is the parent)
+  id: string;
+  jobId: string;
+  page?: Page;
+  preview?: string | null;
+  // Retry wait, partial failure or error
+  note?: string;
+  selected: boolean;
+};
+
+const WAITING: Record<JobStatus, string> = {
+  queued: "Waiting…",
+  running: "Generating…",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  done: "",
+};
+
+export default function CandidatesDialog({
+  parentTitle,
+  prompt,
+  candidates,
+  keeping,
+  onToggle,
+  onKeep,
+  onDiscard,
+}: {
+  parentTitle: string;
+  prompt: string;
+  candidates: Candidate[];
+  keeping: boolean;
+  onToggle: (id: string) => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}) {
+  const jobs = useJobStore((s) => s.jobs);
+  const retry = useJobStore((s) => s.retry);
+  const statusOf = (c: Candidate): JobStatus =>
+    jobs.find((j) => j.id === c.jobId)?.status ?? "cancelled";
+  const selected = candidates.filter((c) => c.selected && c.page).length;
+  const pending = candidates.some((c) => {
+    const s = statusOf(c);
+    return s === "queued" || s === "running";
+  });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal
+      aria-label="Candidates"
+      className="fixed inset-0 bg-black/40 grid place-items-center z-50"
+    >
+      <div className="bg-white text-black rounded-md shadow-lg p-4 w-[900px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="mb-3">
+          <h2 className="font-semibold">Candidates for {parentTitle}</h2>
+          <p className="text-xs text-slate-600 truncate" title={prompt}>
+            {prompt}
+          </p>
+        </div>
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(190px,1fr))] gap-3 overflow-auto min-h-0">
+          {candidates.map((c, i) => {
+            const status = statusOf(c);
+            const ready = !!c.page;
+            return (
+              <figure
+                key={c.id}
+                className={`border rounded p-2 text-xs ${
+                  c.selected ? "ring-2 ring-blue-500" : ""
+                }`}
+              >
+                <button
+                  className="block w-full aspect-[8.5/11] border bg-white grid place-items-center overflow-hidden disabled:cursor-default"
+                  disabled={!ready}
+                  aria-pressed={c.selected}
+                  aria-label={`Candidate ${i + 1}`}
+                  onClick={() => onToggle(c.id)}
+                >
+                  {ready && c.preview ? (
+                    <img
+                      src={c.preview}
+                      alt=""
+                      className="w-full h-full object-contain"
+                    />
+                  ) : (
+                    <span className="text-slate-400">
+                      {ready ? "Empty" : WAITING[status]}
+                    </span>
+                  )}
+                </button>
+                <figcaption className="mt-1 flex items-center gap-2">
+                  <label className="flex items-center gap-1 flex-1">
+                    <input
+                      type="checkbox"
+                      disabled={!ready}
+                      checked={c.selected}
+                      onChange={() => onToggle(c.id)}
+                    />
+                    Candidate {i + 1}
+                  </label>
+                  {!ready &&
+                    (status === "failed" || status === "cancelled") && (
+                      <button
+                        className="px-2 py-0.5 border rounded"
+                        onClick={() => retry(c.jobId)}
+                      >
+                        Retry
+                      </button>
+                    )}
+                </figcaption>
+                {c.note && (
+                  <div
+                    className={`mt-1 break-words ${ready ? "text-amber-700" : "text-slate-600"}`}
+                  >
+                    {c.note}
+                  </div>
+                )}
+              </figure>
+            );
+          })}
+        </div>
+        <div className="flex items-center justify-end gap-2 mt-3">
+          {pending && (
+            <span className="text-xs text-slate-500 mr-auto">
+              You can keep finished candidates while the rest generate.
+            </span>
+          )}
+          <button
+            className="px-2 py-1 border rounded text-sm"
+            onClick={onDiscard}
+          >
+            Discard All
+          </button>
+          <button
+            className="px-3 py-1 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+            disabled={!selected || keeping}
+            onClick={onKeep}
+          >
+            {keeping
+              ? "Keeping…"
+              : `Keep ${selected || ""} ${selected === 1 ? "Variant" : "Variants"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+/**
+ * CheckpointsDialog
+ * Save the current pages as a named checkpoint, browse saved checkpoints,
+ * preview one (flattened page thumbnails), see how it differs from the
+ * current pages, and restore it.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  useEditorStore,
+  selectDomain,
+  type EditorDomain,
+} from "@/store/useEditorStore";
+import type { useCheckpoints } from "@/hooks/useCheckpoints";
+import { diffDomains, type DomainDiff } from "@/lib/checkpoints";
+import { flattenPageToPng } from "@/lib/pdf";
+
+const PREVIEW_PAGES = 8;
+
+type Selected = {
+  id: string;
+  domain: EditorDomain;
+  diff: DomainDiff;
+  thumbs: { id: string; title: string; src: string | null }[];
+};
+
+function defaultName() {
+  return `Checkpoint ${new Date().toLocaleString()}`;
+}
+
+export default function CheckpointsDialog({
+  checkpoints: cp,
+  onRestore,
+  onClose,
+  onError,
+}: {
+  checkpoints: ReturnType<typeof useCheckpoints>;
+  onRestore: (domain: EditorDomain, name: string) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) {
+  const [name, setName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  // Drop the preview if its checkpoint was deleted (possibly elsewhere)
+  useEffect(() => {
+    if (selected && !cp.checkpoints?.some((c) => c.id === selected.id))
+      setSelected(null);
+  }, [cp.checkpoints, selected]);
+
+  async function save() {
+    setSaving(true);
+    try {
+      await cp.create(name.trim() || defaultName());
+      setName(defaultName());
+    } catch (err) {
+      onError((err as Error).message || "Could not save checkpoint");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function select(id: string) {
+    setLoadingId(id);
+    try {
+      const domain = await cp.load(id);
+      const current = selectDomain(useEditorStore.getState());
+      const diff = diffDomains(
+        await cp.stable(domain),
+        await cp.stable(current),
+      );
+      const thumbs = [];
+      for (const pid of domain.order.slice(0, PREVIEW_PAGES)) {
+        const p = domain.pages[pid];
+        if (!p) continue;
+        let src: string | null = null;
+        try {
+          src = await flattenPageToPng(p);
+        } catch {
+          src = p.imageUrl ?? null;
+        }
+        thumbs.push({ id: pid, title: p.title, src });
+      }
+      setSelected({ id, domain, diff, thumbs });
+    } catch (err) {
+      onError((err as Error).message || "Could not open checkpoint");
+    } finally {
+      setLoadingId(null);
+    }
+  }
+
+  const selectedSummary = selected
+    ? cp.checkpoints?.find((c) => c.id === selected.id)
+    : undefined;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal
+      aria-label="Checkpoints"
+      className="fixed inset-0 bg-black/40 grid place-items-center z-50"
+    >
+      <div className="bg-white text-black rounded-md shadow-lg p-4 w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-semibold">Checkpoints</h2>
+          <button
+            className="px-2 py-1 border rounded text-sm"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex gap-2 mb-3">
+          <input
+            className="border rounded px-2 py-1 flex-1 text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !saving) void save();
+            }}
+            aria-label="Checkpoint name"
+          />
+          <button
+            className="px-3 py-1 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+            disabled={saving}
+            onClick={() => void save()}
+          >
+            {saving ? "Saving…" : "Save Checkpoint"}
+          </button>
+        </div>
+        <div className="grid grid-cols-[260px_1fr] gap-3 min-h-0 flex-1">
+          <ul className="border rounded divide-y overflow-auto">
+            {cp.checkpoints === undefined ? (
+              <li className="px-2 py-3 text-xs text-slate-500">Loading…</li>
+            ) : cp.checkpoints.length === 0 ? (
+              <li className="px-2 py-3 text-xs text-slate-500">
+                No checkpoints yet
+              </li>
+            ) : (
+              cp.checkpoints.map((c) => (
+                <li key={c.id}>
+                  <button
+                    className={`w-full text-left px-2 py-2 text-sm hover:bg-slate-50 ${
+                      selected?.id === c.id ? "bg-blue-50" : ""
+                    }`}
+                    onClick={() => void select(c.id)}
+                  >
+                    <div className="font-medium truncate" title={c.name}>
+                      {c.name}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {new Date(c.createdAt).toLocaleString()} · {c.pageCount}{" "}
+                      {c.pageCount === 1 ? "page" : "pages"}
+                      {loadingId === c.id ? " · Loading…" : ""}
+                    </div>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+          <div className="border rounded p-3 overflow-auto text-sm">
+            {!selected ? (
+              <div className="text-xs text-slate-500">
+                Select a checkpoint to preview it.
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-4 gap-2 mb-3">
+                  {selected.thumbs.map((t) => (
+                    <figure key={t.id} className="text-[10px] text-slate-600">
+                      <div className="aspect-[8.5/11] border bg-white grid place-items-center overflow-hidden">
+                        {t.src ? (
+                          <img
+                            src={t.src}
+                            alt=""
+                            className="w-full h-full object-contain"
+                          />
+                        ) : (
+                          <span className="text-slate-400">Empty</span>
+                        )}
+                      </div>
+                      <figcaption className="truncate" title={t.title}>
+                        {t.title}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+                {selected.domain.order.length > PREVIEW_PAGES && (
+                  <div className="text-xs text-slate-500 mb-2">
+                    +{selected.domain.order.length - PREVIEW_PAGES} more pages
+                  </div>
+                )}
+                <h3 className="font-medium mb-1">Since this checkpoint</h3>
+                <DiffList
+                  label="Added"
+                  tone="text-green-700"
+                  pages={selected.diff.added}
+                />
+                <DiffList
+                  label="Removed"
+                  tone="text-red-700"
+                  pages={selected.diff.removed}
+                />
+                <DiffList
+                  label="Changed"
+                  tone="text-amber-700"
+                  pages={selected.diff.changed}
+                />
+                <div className="flex justify-end gap-2 mt-3">
+                  <button
+                    className="px-2 py-1 border rounded text-red-600"
+                    onClick={() => {
+                      if (
+                        !confirm(
+                          `Delete checkpoint "${selectedSummary?.name}"?`,
+                        )
+                      )
+                        return;
+                      void cp
+                        .remove(selected.id)
+                        .catch((err) =>
+                          onError(
+                            (err as Error).message ||
+                              "Could not delete checkpoint",
+                          ),
+                        );
+                    }}
+                  >
+                    Delete
+                  </button>
+                  <button
+                    className="px-2 py-1 border rounded bg-blue-50"
+                    onClick={() => {
+                      if (
+                        !confirm(
+                          "Replace the current pages with this checkpoint? You can undo the restore.",
+                        )
+                      )
+                        return;
+                      onRestore(
+                        selected.domain,
+                        selectedSummary?.name ?? "checkpoint",
+                      );
+                    }}
+                  >
+                    Restore
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DiffList({
+  label,
+  tone,
+  pages,
+}: {
+  label: string;
+  tone: string;
+  pages: { id: string; title: string }[];
+}) {
+  return (
+    <div className="text-xs mb-1">
+      <span className={`font-medium ${tone}`}>
+        {label} ({pages.length})
+      </span>
+      {pages.length > 0 && (
+        <span className="text-slate-600">
+          : {pages.map((p) => p.title || "Untitled").join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
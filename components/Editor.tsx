@@ -17,14 +17,31 @@
  * - Generation is staged in memory and applied as a single domain commit; this
  *   ensures one clean history snapshot per user intent.
  * - Dragging records a single nodePositions snapshot when the drag ends.
+ * - The domain is saved to IndexedDB and restored on load (see
+ *   useWorkspacePersistence); restoring clears history. With a projectId the
+ *   editor is bound to a Convex project instead (useProjectPersistence).
+ *   Without one the editor is the anonymous "try it" mode: nothing is
+ *   uploaded and generation needs the user's own API key.
+ * - Named checkpoints outlive the history buffer; restoring one is a single
+ *   undoable domain commit (see useCheckpoints / CheckpointsDialog).
  */
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import {
   generateColoringBookImage,
   transformImageWithPrompt,
+  editImageWithMaskGuidance,
   generateTextContent,
+  activeProvider,
+  trackProvenance,
+  setGenerationContext,
+  failureStatus,
+  retryStatus,
+  GenerationError,
+  isAbortError,
+  type GenerationOptions,
 } from "@/lib/nanoBanana";
+import { resolveProvider, LOCAL_PROJECT_KEY } from "@/lib/providers";
 import {
   ReactFlow,
   Background,
@@ -39,10 +56,13 @@ import type {
   Connection,
   NodeTypes,
 } from "@xyflow/react";
+import Link from "next/link";
 import { jsPDF } from "jspdf";
 import PageNode, { type PageNodeData } from "@/components/nodes/PageNode";
 import { newId } from "@/lib/ids";
 import { revokeIfBlob } from "@/lib/url";
+import { persistImage, setAssetUploadsEnabled } from "@/lib/assets";
+import { SignInButton, UserButton } from "@clerk/nextjs";
 // Layers panel removed from Inspector to focus on a single selection
 import {
   useActions,
@@ -54,6 +74,9 @@ import {
   useEdges as useGraphEdges,
   undo,
   redo,
+  clearHistory,
+  selectDomain,
+  variantOf,
 } from "@/store/useEditorStore";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -63,26 +86,92 @@ import type {
   TextChild,
   ImageChild,
   Orientation,
+  EditorDomain,
+  PageContent,
+  Provenance,
+  WorksheetTask,
 } from "@/store/useEditorStore";
 import {
   blobUrlToPngBase64,
+  compositeMasked,
   fitImageToPrintableArea,
   fitImageToRect,
+  maskToPngBase64,
   thresholdToDataUrl,
 } from "@/lib/image/bitmap";
+import { pagePx } from "@/lib/image/pageMetrics";
 import { flattenPageToPng, addPageToJsPdf } from "@/lib/pdf";
+import { moderationReasons } from "@/lib/moderation";
+import { checkPageQuality, qaFeedback } from "@/lib/qa";
+import { applyPreset, type PromptPreset } from "@/lib/promptPresets";
 import {
-  computeSystemPrompt,
+  fillTemplate,
+  rowComplete,
+  rowLabel,
+  templateVariables,
+} from "@/lib/promptTemplate";
+import {
+  getEffectiveSystemPrompt,
   buildInstruction as buildInstructionPure,
+  buildTaskImageInstruction,
+  buildWorksheetSpecInstruction,
+  buildWorksheetTaskInstruction,
 } from "@/lib/prompts";
+import {
+  answerKeyFromAnswers,
+  answerKeyFromSpec,
+  hasSpecAnswers,
+  solveWorksheetImage,
+} from "@/lib/answerKey";
+import {
+  generateWorksheetSpec,
+  generateWorksheetTask,
+  layoutWorksheet,
+  patchTask,
+} from "@/lib/worksheetSpec";
 import { useDropAndPasteImport } from "@/hooks/useDropAndPasteImport";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useWorkspacePersistence } from "@/hooks/useWorkspacePersistence";
+import { useProjectPersistence } from "@/hooks/useProjectPersistence";
+import { usePresence } from "@/hooks/usePresence";
+import { usePresenceStore } from "@/store/usePresenceStore";
+import { useJobStore, type Job, type JobPriority } from "@/store/useJobStore";
+import {
+  useChildProgressStore,
+  type ChildProgress,
+} from "@/store/useChildProgressStore";
+import PresenceAvatars from "@/components/PresenceAvatars";
+import SettingsDialog from "@/components/SettingsDialog";
+import CheckpointsDialog from "@/components/CheckpointsDialog";
+import JobsPanel from "@/components/JobsPanel";
+import ProvenanceDetails from "@/components/ProvenanceDetails";
+import ReviewPanel from "@/components/ReviewPanel";
+import WorksheetPanel from "@/components/WorksheetPanel";
+import WorksheetTaskDetails from "@/components/WorksheetTaskDetails";
+import QaPanel from "@/components/QaPanel";
+import PromptPresetSelect from "@/components/PromptPresetSelect";
+import PromptLibraryDialog from "@/components/PromptLibraryDialog";
+import PromptVariablesPanel from "@/components/PromptVariablesPanel";
+import CandidatesDialog, {
+  type Candidate,
+} from "@/components/CandidatesDialog";
+import { useCheckpoints } from "@/hooks/useCheckpoints";
+import { usePromptPresets } from "@/hooks/usePromptPresets";
+import {
+  BUNDLE_EXTENSION,
+  bundleFileName,
+  exportProjectFile,
+  importProjectFile,
+} from "@/lib/persist/bundle";
+import { collectImageUrls } from "@/lib/persist/images";
 
 /**
  * Module: Constants and narrow utilities
  */
 
 const DEFAULT_THRESHOLD = 200;
+// Layer requests a single page generation runs at once
+const CHILD_CONCURRENCY = 3;
 
 export const nodeTypes: NodeTypes = { page: PageNode };
 
@@ -119,6 +208,370 @@ function cleanSingleLineLabel(s: string): string {
   return t;
 }
 
+/**
+ * Module: Generation helpers — task limits, packets, page content, pictures
+ */
+// Run tasks with at most `limit` in flight. Rejects with the first failure
+// and starts no new task after it (running ones finish on their own).
+async function runWithLimit(
+  tasks: (() => Promise<void>)[],
+  limit: number,
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      const task = tasks[next++];
+      try {
+        await task();
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker),
+  );
+}
+
+// Pages of an exported PDF packet: the chosen pages, then (unless left
+// out) the answer keys of the chosen worksheets and any chosen keys
+function packetPages(
+  chosen: Page[],
+  pages: Record<string, Page>,
+  keys: "end" | "omit",
+): Page[] {
+  const sheets = chosen.filter((p) => !p.answerKeyFor);
+  if (keys === "omit") return sheets;
+  const allKeys = Object.values(pages).filter((p) => p.answerKeyFor);
+  const linked = sheets.flatMap((s) =>
+    allKeys.filter((k) => k.answerKeyFor === s.id),
+  );
+  const loose = chosen.filter((p) => p.answerKeyFor && !linked.includes(p));
+  return [...sheets, ...linked, ...loose];
+}
+
+// Most candidates one Refine by Prompt can generate
+const MAX_CANDIDATES = 6;
+
+type GeneratedContent = {
+  children: Page["children"];
+  imageUrl?: string;
+  // Set when the background was regenerated
+  provenance?: Provenance;
+  // Why each layer that kept its old content failed
+  failures: string[];
+};
+
+// Revoke the blob URLs a generation replaced, except those its provenance
+// still records (re-run reads them)
+function revokeReplaced(
+  urls: (string | undefined)[],
+  provenance: Provenance | undefined,
+) {
+  for (const url of new Set(urls))
+    if (url !== provenance?.sourceImageUrl && url !== provenance?.maskUrl)
+      revokeIfBlob(url);
+}
+
+type ImageOperation = Pick<
+  Provenance,
+  "operation" | "instruction" | "parentPageId" | "sourceImageUrl" | "maskUrl"
+>;
+
+/**
+ * Run one image request as described by (the settings of) a provenance
+ * record: generate from the instruction, or transform or mask-edit the
+ * source image. A masked edit is pasted back over its source so only the
+ * masked area changes. Returns the unfitted result and its new record.
+ */
+async function runImageOperation(
+  spec: ImageOperation,
+  opts: GenerationOptions,
+): Promise<{ url: string; provenance: Provenance }> {
+  const { operation, instruction, sourceImageUrl, maskUrl } = spec;
+  const track = trackProvenance(operation, instruction, {
+    parentPageId: spec.parentPageId,
+    sourceImageUrl,
+    maskUrl,
+  });
+  if (operation === "generate")
+    return {
+      url: await generateColoringBookImage(instruction, opts),
+      provenance: track(),
+    };
+  if (!sourceImageUrl) throw new Error("The source image is missing");
+  const baseB64 = await blobUrlToPngBase64(sourceImageUrl, opts.signal);
+  if (operation === "transform")
+    return {
+      url: await transformImageWithPrompt(baseB64, instruction, opts),
+      provenance: track(),
+    };
+  if (!maskUrl) throw new Error("The mask is missing");
+  const maskB64 = await blobUrlToPngBase64(maskUrl, opts.signal);
+  const edited = await editImageWithMaskGuidance(
+    baseB64,
+    maskB64,
+    instruction,
+    opts,
+  );
+  const url = await compositeMasked(
+    sourceImageUrl,
+    edited,
+    maskB64,
+    opts.signal,
+  );
+  revokeIfBlob(edited);
+  return { url, provenance: track() };
+}
+
+// The generated parts of a page, as moderation and Page.review hold them
+function contentOf(page: PageContent): PageContent {
+  const { children, imageUrl, originalImageUrl, provenance, worksheetSpec } =
+    page;
+  return { children, imageUrl, originalImageUrl, provenance, worksheetSpec };
+}
+
+// Upload a draft page's local images before it joins the board
+async function persistDraftImages(page: Page): Promise<Page> {
+  const persistContent = async <T extends PageContent>(p: T): Promise<T> => {
+    const children = await Promise.all(
+      (p.children || []).map(async (c) =>
+        c.type === "image" && (c as ImageChild).src
+          ? { ...c, src: await persistImage((c as ImageChild).src!) }
+          : c,
+      ),
+    );
+    const imageUrl = p.imageUrl && (await persistImage(p.imageUrl));
+    const originalImageUrl =
+      p.originalImageUrl === p.imageUrl
+        ? imageUrl
+        : p.originalImageUrl && (await persistImage(p.originalImageUrl));
+    return { ...p, children, imageUrl, originalImageUrl };
+  };
+  return {
+    ...(await persistContent(page)),
+    review: page.review && (await persistContent(page.review)),
+  };
+}
+
+// Revoke the blob URLs of candidates leaving the picker: everything they
+// show that neither the editor nor the page they were drawn from still uses
+function revokeCandidates(items: Candidate[], base: Page) {
+  const domain = selectDomain(useEditorStore.getState());
+  const urlsOf = (pages: Record<string, Page>) =>
+    collectImageUrls({ ...domain, pages });
+  const inUse = new Set(urlsOf({ ...domain.pages, [base.id]: base }));
+  const drafts = Object.fromEntries(
+    items.flatMap((c) => (c.page ? [[c.id, c.page]] : [])),
+  );
+  for (const url of [...urlsOf(drafts), ...items.map((c) => c.preview)])
+    if (url && !inUse.has(url)) revokeIfBlob(url);
+}
+
+/**
+ * Regenerate a page's layers (every text and image layer, and the
+ * background) without touching the store. The requests run concurrently,
+ * CHILD_CONCURRENCY at a time, texts first; `onLayer` hears about each
+ * layer as it waits, runs and finishes (childId null is the background).
+ * A layer whose request fails keeps its old content and is listed in
+ * `failures`; auth and quota failures and cancellation reject instead.
+ */
+async function generatePageContent(
+  page: Page,
+  instructions: { text: string; image: string },
+  opts: GenerationOptions,
+  persist: (url: string) => Promise<string>,
+  onLayer: (
+    childId: string | null,
+    progress: ChildProgress,
+    finished: number,
+    total: number,
+  ) => void,
+  parentPageId?: string,
+): Promise<GeneratedContent> {
+  const children = [...(page.children || [])];
+  let imageUrl = page.imageUrl;
+  let provenance: Provenance | undefined;
+  const tasks: { childId: string | null; run: () => Promise<void> }[] = [];
+
+  // 1) texts
+  children.forEach((c, i) => {
+    if (c.type !== "text") return;
+    const tc = c as TextChild;
+    tasks.push({
+      childId: c.id,
+      run: async () => {
+        const textPrompt = [
+          instructions.text,
+          "You are updating a single text label on a printable page.",
+          "Return only the new text, no commentary.",
+          `Current text: "${tc.text || ""}"`,
+        ].join("\n");
+        const out = await generateTextContent(textPrompt, opts);
+        children[i] = { ...tc, text: cleanSingleLineLabel(out) };
+      },
+    });
+  });
+
+  // 2) images
+  children.forEach((c, i) => {
+    if (c.type !== "image") return;
+    const ic = c as ImageChild;
+    tasks.push({
+      childId: c.id,
+      run: async () => {
+        const track = trackProvenance(
+          ic.src ? "transform" : "generate",
+          instructions.image,
+          { parentPageId, sourceImageUrl: ic.src && (await persist(ic.src)) },
+        );
+        let url: string;
+        if (ic.src) {
+          const baseB64 = await blobUrlToPngBase64(ic.src, opts.signal);
+          url = await transformImageWithPrompt(
+            baseB64,
+            instructions.image,
+            opts,
+          );
+        } else {
+          url = await generateColoringBookImage(instructions.image, opts);
+        }
+        const fitted = await persist(
+          await fitImageToRect(url, ic.width, ic.height, opts.signal),
+        );
+        revokeIfBlob(url);
+        children[i] = {
+          ...ic,
+          src: fitted,
+          placeholder: false,
+          provenance: track(),
+        };
+      },
+    });
+  });
+
+  // 3) background
+  const baseUrl = page.originalImageUrl || page.imageUrl;
+  tasks.push({
+    childId: null,
+    run: async () => {
+      const track = trackProvenance(
+        baseUrl ? "transform" : "generate",
+        instructions.image,
+        { parentPageId, sourceImageUrl: baseUrl && (await persist(baseUrl)) },
+      );
+      let rawUrl: string;
+      if (baseUrl) {
+        const baseB64 = await blobUrlToPngBase64(baseUrl, opts.signal);
+        rawUrl = await transformImageWithPrompt(
+          baseB64,
+          instructions.image,
+          opts,
+        );
+      } else {
+        rawUrl = await generateColoringBookImage(instructions.image, opts);
+      }
+      imageUrl = await persist(
+        await fitImageToPrintableArea(rawUrl, page, opts.signal),
+      );
+      revokeIfBlob(rawUrl);
+      provenance = track();
+    },
+  });
+
+  const failures: string[] = [];
+  let finished = 0;
+  const total = tasks.length;
+  tasks.forEach((t) => onLayer(t.childId, { state: "queued" }, 0, total));
+  await runWithLimit(
+    tasks.map(({ childId, run }) => async () => {
+      onLayer(childId, { state: "running" }, finished, total);
+      try {
+        await run();
+        opts.signal?.throwIfAborted();
+        onLayer(childId, { state: "done" }, ++finished, total);
+      } catch (err) {
+        if (stopsGeneration(err, opts)) throw err;
+        const error = failureStatus(err);
+        failures.push(error);
+        onLayer(childId, { state: "failed", error }, ++finished, total);
+      }
+    }),
+    CHILD_CONCURRENCY,
+  );
+  return { children, imageUrl, provenance, failures };
+}
+
+// Failures that end a whole generation rather than one layer of it
+function stopsGeneration(err: unknown, opts: GenerationOptions): boolean {
+  return (
+    !!opts.signal?.aborted ||
+    isAbortError(err) ||
+    (err instanceof GenerationError &&
+      (err.kind === "auth" || err.kind === "quota"))
+  );
+}
+
+/**
+ * Draw the pictures of worksheet tasks into the image layers tagged with
+ * them, CHILD_CONCURRENCY at a time, without touching the store; `onLayer`
+ * as for generatePageContent. A picture whose request fails keeps its old
+ * content and is listed in `failures`.
+ */
+async function drawTaskPictures(
+  page: Pick<Page, "children">,
+  tasks: WorksheetTask[],
+  opts: GenerationOptions,
+  persist: (url: string) => Promise<string>,
+  onLayer: (
+    childId: string,
+    progress: ChildProgress,
+    finished: number,
+    total: number,
+  ) => void,
+): Promise<{ children: Page["children"]; failures: string[] }> {
+  const children = [...page.children];
+  const byId = new Map(tasks.map((t) => [t.id, t] as const));
+  const layers = children.flatMap((c, i) =>
+    c.type === "image" && c.taskId && byId.has(c.taskId) ? [i] : [],
+  );
+  const failures: string[] = [];
+  let finished = 0;
+  const total = layers.length;
+  layers.forEach((i) => onLayer(children[i].id, { state: "queued" }, 0, total));
+  await runWithLimit(
+    layers.map((i) => async () => {
+      const ic = children[i] as ImageChild;
+      onLayer(ic.id, { state: "running" }, finished, total);
+      try {
+        const { url, provenance } = await runImageOperation(
+          {
+            operation: "generate",
+            instruction: buildTaskImageInstruction(byId.get(ic.taskId!)!),
+          },
+          opts,
+        );
+        const fitted = await persist(
+          await fitImageToRect(url, ic.width, ic.height, opts.signal),
+        );
+        revokeIfBlob(url);
+        opts.signal?.throwIfAborted();
+        children[i] = { ...ic, src: fitted, placeholder: false, provenance };
+        onLayer(ic.id, { state: "done" }, ++finished, total);
+      } catch (err) {
+        if (stopsGeneration(err, opts)) throw err;
+        const error = failureStatus(err);
+        failures.push(error);
+        onLayer(ic.id, { state: "failed", error }, ++finished, total);
+      }
+    }),
+    CHILD_CONCURRENCY,
+  );
+  return { children, failures };
+}
+
 /**
  * Module: Standards loader — flatten CCSS Kindergarten structure
  */
@@ -154,31 +607,27 @@ function useAutoScrollIntoView(id: string | null) {
   }, [id]);
 }
 
-function useGeminiApiKeyNeeded() {
-  const [needsApiKey, setNeedsApiKey] = useState(true);
+// What the project's provider still needs before it can generate (a key,
+// or sign-in for the server proxy); null when ready
+function useProviderSetupHint(projectKey: string, signedIn: boolean) {
+  const [hint, setHint] = useState<string | null>(null);
   useEffect(() => {
     const compute = () => {
       try {
-        if (typeof window === "undefined") return true;
-        const v = window.localStorage.getItem("CHECKFU_GEMINI_API_KEY");
-        return !v;
+        return resolveProvider(projectKey).setupHint({ signedIn });
       } catch {
-        return true;
-      }
-    };
-    setNeedsApiKey(compute());
-    const onStorage = (e: StorageEvent) => {
-      if (!e.key || e.key === "CHECKFU_GEMINI_API_KEY") {
-        setNeedsApiKey(compute());
+        return null;
       }
     };
+    setHint(compute());
+    const onStorage = () => setHint(compute());
     window.addEventListener("storage", onStorage);
     return () => window.removeEventListener("storage", onStorage);
-  }, []);
-  return needsApiKey;
+  }, [projectKey, signedIn]);
+  return hint;
 }
 
-export default function Editor() {
+export default function Editor({ projectId }: { projectId?: string } = {}) {
   const pages = usePages();
   const currentPageId = useCurrentPageId();
   const currentPage = useCurrentPage();
@@ -216,10 +665,15 @@ export default function Editor() {
   // after an Undo/Redo or a new operation. See generateInto / text/image updates
   // where we call beginPageOp() and check isPageOpCurrent() before applying.
   const pageOpSeqRef = useRef<Record<string, number>>({});
+  // Each op also gets an AbortController so superseded or cancelled work
+  // stops its network requests instead of just having its results ignored.
+  const pageOpAbortRef = useRef<Record<string, AbortController>>({});
   // Begin a logical async operation on a page. We use a token (sequence number)
   // to ignore stale async results that complete after an Undo/Redo or when a
   // newer op supersedes the old one.
   const beginPageOp = useCallback((id: string) => {
+    pageOpAbortRef.current[id]?.abort();
+    pageOpAbortRef.current[id] = new AbortController();
     const seq = (pageOpSeqRef.current[id] || 0) + 1;
     pageOpSeqRef.current[id] = seq;
     return seq;
@@ -228,17 +682,30 @@ export default function Editor() {
     (id: string, seq: number) => pageOpSeqRef.current[id] === seq,
     [],
   );
+  // Abort the ops running on the given pages (all pages by default) and
+  // invalidate their tokens
+  const cancelPageOps = useCallback((ids?: string[]) => {
+    for (const id of ids ?? Object.keys(pageOpSeqRef.current)) {
+      pageOpAbortRef.current[id]?.abort();
+      delete pageOpAbortRef.current[id];
+      pageOpSeqRef.current[id] = (pageOpSeqRef.current[id] || 0) + 1;
+    }
+  }, []);
   // Per-node quick prompts for Text/Image inspectors
   const [nodePrompts, setNodePrompts] = useState<Record<string, string>>({});
-  // Per-node preset selection (None by default)
-  const [nodePresets, setNodePresets] = useState<Record<string, string>>({});
   const lastQuickGenAtRef = useRef<number>(0);
   const generatingAny = pages.some((p) => p.generating);
-  const needsApiKey = useGeminiApiKeyNeeded();
+  const setupHint = useProviderSetupHint(
+    projectId ?? LOCAL_PROJECT_KEY,
+    !!projectId,
+  );
   // Top-bar UI feedback states
   const [undoFlash, setUndoFlash] = useState(false);
   const [redoFlash, setRedoFlash] = useState(false);
   const [exporting, setExporting] = useState(false);
+  // Where exported PDFs put the answer keys of their worksheets
+  const [keysInPdf, setKeysInPdf] = useState<"end" | "omit">("end");
+  const [savingProject, setSavingProject] = useState(false);
   // Stable handler refs to avoid dependency cycles in callbacks/effects
   const branchFromRef = useRef<(id: string) => void>(() => {});
   const branchFromWithPromptRef = useRef<
@@ -248,11 +715,53 @@ export default function Editor() {
     (childId: string, parent: Page, prompt: string) => Promise<void>
   >(async () => {});
   const deleteNodeRef = useRef<(id: string) => void>(() => {});
+  const maskEditRef = useRef<
+    (id: string, maskUrl: string, prompt: string) => void
+  >(() => {});
   const quickGenerateRef = useRef<(id: string) => Promise<void>>(
     async () => {},
   );
   // Keep current page visible in the sidebar
   useAutoScrollIntoView(currentPageId);
+  // Restore the last session from IndexedDB and keep saving domain edits,
+  // or load/save the Convex project when one is open
+  useWorkspacePersistence(projectId ? null : "local", (msg) =>
+    pushToast(msg, "error"),
+  );
+  const { project, ready: projectReady } = useProjectPersistence(
+    projectId ?? null,
+    (msg) => pushToast(msg, "error"),
+  );
+  // Named checkpoints of the open project (or of the local workspace)
+  const checkpoints = useCheckpoints(
+    projectReady && project ? project._id : null,
+    projectId ? null : "local",
+  );
+  const [showCheckpoints, setShowCheckpoints] = useState(false);
+  // Prompt presets of the open project (or of this browser)
+  const promptLibrary = usePromptPresets(
+    projectReady && project ? project._id : null,
+  );
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  const [showJobs, setShowJobs] = useState(false);
+  const activeJobs = useJobStore(
+    (s) =>
+      s.jobs.filter((j) => j.status === "queued" || j.status === "running")
+        .length,
+  );
+  // "Try it" mode keeps images in the browser
+  useEffect(() => {
+    setAssetUploadsEnabled(!!projectId);
+    return () => setAssetUploadsEnabled(true);
+  }, [projectId]);
+  // Attribute generation usage to the open project
+  useEffect(() => {
+    setGenerationContext({ projectId: project?._id });
+    return () => setGenerationContext({});
+  }, [project?._id]);
+  // Tell collaborators where we are; PageNode shows where they are
+  usePresence(projectReady && project ? project._id : null);
+  const peers = usePresenceStore((s) => s.peers);
 
   // Small helper: queue a toast (not related to undo but used in flows)
   function pushToast(
@@ -327,13 +836,137 @@ export default function Editor() {
     [actions],
   );
 
+  // Generation options for a page op: cancelled with the op, and automatic
+  // retries (rate limits, outages) shown in the page's status
+  const generationOptions = useCallback(
+    (id: string, seq: number): GenerationOptions => ({
+      signal: pageOpAbortRef.current[id]?.signal,
+      onRetry: (r) => {
+        if (isPageOpCurrent(id, seq))
+          writeUI(() => setPagePatch(id, { status: retryStatus(r) }));
+      },
+    }),
+    [isPageOpCurrent, setPagePatch],
+  );
+
+  // Apply a generation's result to a page unless moderation flags it; a
+  // flagged result is held on the page for teacher review (Page.review)
+  // instead. "stale" when the op was superseded meanwhile.
+  const commitGenerated = useCallback(
+    async (
+      pageId: string,
+      op: number,
+      before: Page,
+      content: PageContent,
+      opts: GenerationOptions,
+    ): Promise<"applied" | "held" | "stale"> => {
+      writeUI(() => setPagePatch(pageId, { status: "Checking…" }));
+      const reasons = await moderationReasons(before, content, opts);
+      if (!isPageOpCurrent(pageId, op)) return "stale";
+      if (!useEditorStore.getState().pages[pageId]) return "stale";
+      if (reasons.length) {
+        setPagePatch(pageId, {
+          review: { ...content, reasons, createdAt: Date.now() },
+        });
+        pushToast(`Held for teacher review: ${reasons[0]}`, "info");
+        return "held";
+      }
+      setPagePatch(pageId, { ...content, review: undefined });
+      return "applied";
+    },
+    [isPageOpCurrent, setPagePatch],
+  );
+
+  // Check a freshly generated page against its rules (lib/qa.ts) and put
+  // the checklist on it (UI-only write: it describes the content, it is
+  // not an edit). A check that breaks is reported in a toast and as a
+  // warning on the checklist, never failing the job.
+  const checkQuality = useCallback(
+    async (pageId: string, op: number, opts: GenerationOptions) => {
+      const page = useEditorStore.getState().pages[pageId];
+      if (!page || page.answerKeyFor) return;
+      writeUI(() => setPagePatch(pageId, { status: "Checking quality…" }));
+      try {
+        const qa = await checkPageQuality(page, opts);
+        if (isPageOpCurrent(pageId, op))
+          writeUI(() => setPagePatch(pageId, { qa }));
+      } catch (err) {
+        if (isAbortError(err) || opts.signal?.aborted) throw err;
+        if (!isPageOpCurrent(pageId, op)) return;
+        const detail = `Could not check: ${failureStatus(err)}`;
+        pushToast(`Quality check failed: ${failureStatus(err)}`, "error");
+        writeUI(() =>
+          setPagePatch(pageId, {
+            qa: {
+              checks: [
+                { id: "qa", label: "Quality check", status: "warn", detail },
+              ],
+              checkedAt: Date.now(),
+            },
+          }),
+        );
+      }
+    },
+    [isPageOpCurrent, setPagePatch],
+  );
+
+  // Undo/Redo, restoring a checkpoint and opening a project file abandon
+  // queued and running generations: drop them, abort the page ops and
+  // clear the transient spinners (UI-only)
+  const cancelAllGenerations = useCallback(() => {
+    useJobStore.getState().cancelAll();
+    cancelPageOps();
+    useChildProgressStore.getState().clear();
+    useEditorStore
+      .getState()
+      .order.forEach((id) =>
+        writeUI(() => setPagePatch(id, { generating: false, status: "" })),
+      );
+  }, [cancelPageOps, setPagePatch]);
+
+  // Stop whatever op runs on a page (how a running job is cancelled)
+  const stopPageOp = useCallback(
+    (id: string) => {
+      cancelPageOps([id]);
+      useChildProgressStore.getState().clear(id);
+      writeUI(() => setPagePatch(id, { generating: false, status: "" }));
+    },
+    [cancelPageOps, setPagePatch],
+  );
+
+  // Cancel button on a generating or queued page
+  const cancelGeneration = useCallback(
+    (id: string) => {
+      useJobStore.getState().cancelAll(id);
+      stopPageOp(id);
+    },
+    [stopPageOp],
+  );
+
+  // All generation work goes through the job queue (store/useJobStore);
+  // `run` throws when the job fails so the jobs panel can offer a retry
+  const enqueueJob = useCallback(
+    (
+      job: Pick<Job, "kind" | "pageId" | "prompt" | "title"> & {
+        priority?: JobPriority;
+      },
+      run: () => Promise<void>,
+    ) =>
+      useJobStore
+        .getState()
+        .enqueue(job, { run, cancel: () => stopPageOp(job.pageId) }),
+    [stopPageOp],
+  );
+
   // Convert image to 1‑bit black/white at a given threshold
   const applyThreshold = useCallback(
     async (pageId: string, threshold: number) => {
       const page = useEditorStore.getState().pages[pageId];
       if (!page || !page.originalImageUrl) return;
       try {
-        const url = await thresholdToDataUrl(page.originalImageUrl, threshold);
+        const url = await persistImage(
+          await thresholdToDataUrl(page.originalImageUrl, threshold),
+        );
         revokeIfBlob(page.imageUrl); // avoid leaks from stale object URLs
         setPagePatch(pageId, { imageUrl: url, bwThreshold: threshold });
       } catch {
@@ -361,6 +994,8 @@ export default function Editor() {
     null,
   );
   const [branchPrompt, setBranchPrompt] = useState<string>("");
+  // More than one generates candidates to compare (CandidatesDialog)
+  const [branchCount, setBranchCount] = useState(1);
 
   const branchFrom = useCallback((parentId: string) => {
     const parent = useEditorStore.getState().pages[parentId];
@@ -412,112 +1047,397 @@ export default function Editor() {
   // per-page op token before every state write. See beginPageOp/isPageOpCurrent.
   const generateInto = useCallback(
     async (pageId: string, prompt: string, pageOverride?: Page) => {
+      const op = beginPageOp(pageId);
+      // Summary of the parts that could not be updated, if any
+      let unfinished = "";
       try {
         const page = pageOverride ?? useEditorStore.getState().pages[pageId]!;
-        const op = beginPageOp(pageId);
         writeUI(() =>
           setPagePatch(pageId, { generating: true, status: "Generating…" }),
         );
-
-        const instructionText = buildInstruction(page, prompt, "text");
-        const instructionImage = buildInstruction(page, prompt, "image");
-
-        // Build next state in memory, then commit once
-        const nextChildren = [...(page.children || [])];
-
-        // 1) texts
-        for (let i = 0; i < nextChildren.length; i++) {
-          const c = nextChildren[i];
-          if (c.type === "text") {
-            const tc = c as TextChild;
-            const textPrompt = [
-              instructionText,
-              "You are updating a single text label on a printable page.",
-              "Return only the new text, no commentary.",
-              `Current text: "${tc.text || ""}"`,
-            ].join("\n");
-            try {
-              const out = await generateTextContent(textPrompt);
+        const progress = useChildProgressStore.getState();
+        progress.clear(pageId);
+        let result: GeneratedContent;
+        try {
+          result = await generatePageContent(
+            page,
+            {
+              text: buildInstruction(page, prompt, "text"),
+              image: buildInstruction(page, prompt, "image"),
+            },
+            generationOptions(pageId, op),
+            persistImage,
+            (childId, p, finished, total) => {
               if (!isPageOpCurrent(pageId, op)) return;
-              const label = cleanSingleLineLabel(out);
-              nextChildren[i] = { ...(tc as TextChild), text: label };
-            } catch {
-              /* ignore individual failure */
-            }
-          }
+              if (childId) progress.set(pageId, childId, p);
+              if (finished)
+                writeUI(() =>
+                  setPagePatch(pageId, {
+                    status: `Generating… ${finished}/${total}`,
+                  }),
+                );
+            },
+            useEditorStore.getState().edges.find((e) => e.target === pageId)
+              ?.source,
+          );
+        } finally {
+          if (isPageOpCurrent(pageId, op)) progress.settle(pageId);
         }
 
-        // 2) images
-        for (let i = 0; i < nextChildren.length; i++) {
-          const c = nextChildren[i];
-          if (c.type === "image") {
-            const ic = c as ImageChild;
-            try {
-              let url: string;
-              if (ic.src) {
-                const baseB64 = await blobUrlToPngBase64(ic.src);
-                url = await transformImageWithPrompt(baseB64, instructionImage);
-              } else {
-                url = await generateColoringBookImage(instructionImage);
-              }
-              if (!isPageOpCurrent(pageId, op)) return;
-              const fitted = await fitImageToRect(url, c.width, c.height);
-              nextChildren[i] = {
-                ...(ic as ImageChild),
-                src: fitted,
-                placeholder: false,
-              };
-            } catch {
-              /* ignore individual failure */
-            }
+        // Single commit at the end (or held for review)
+        if (isPageOpCurrent(pageId, op)) {
+          const prev = useEditorStore.getState().pages[pageId];
+          const outcome = await commitGenerated(
+            pageId,
+            op,
+            page,
+            {
+              children: result.children,
+              imageUrl: result.imageUrl,
+              originalImageUrl: result.imageUrl ?? page.originalImageUrl,
+              provenance: result.provenance ?? page.provenance,
+            },
+            generationOptions(pageId, op),
+          );
+          if (outcome === "stale") return;
+          if (outcome === "applied" && prev?.imageUrl !== result.imageUrl)
+            revokeReplaced(
+              [prev?.originalImageUrl, prev?.imageUrl],
+              result.provenance,
+            );
+          if (outcome === "applied") {
+            await checkQuality(pageId, op, generationOptions(pageId, op));
+            if (!isPageOpCurrent(pageId, op)) return;
           }
+          const { failures } = result;
+          if (failures.length)
+            unfinished = `${failures.length} ${failures.length === 1 ? "part" : "parts"} not updated: ${failures[0]}`;
+          writeUI(() =>
+            setPagePatch(pageId, { generating: false, status: unfinished }),
+          );
         }
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        pushToast(
+          (err as Error).message || "Failed to generate image",
+          "error",
+        );
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+      if (unfinished) throw new Error(unfinished);
+    },
+    [
+      buildInstruction,
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      commitGenerated,
+      checkQuality,
+    ],
+  );
 
-        // 3) background
-        let nextImageUrl: string | undefined = page.imageUrl;
-        const baseUrl = page.originalImageUrl || page.imageUrl;
-        try {
-          let rawUrl: string;
-          if (baseUrl) {
-            const baseB64 = await blobUrlToPngBase64(baseUrl);
-            rawUrl = await transformImageWithPrompt(baseB64, instructionImage);
-          } else {
-            rawUrl = await generateColoringBookImage(instructionImage);
-          }
+  // Worksheet mode (lib/worksheetSpec.ts): the text model plans the
+  // worksheet as a spec, which is laid out as layers in place of the page's
+  // content; then every task's picture is drawn. Committed in one step.
+  const generateWorksheet = useCallback(
+    async (pageId: string, prompt: string) => {
+      const op = beginPageOp(pageId);
+      const opts = generationOptions(pageId, op);
+      let unfinished = "";
+      try {
+        const page = useEditorStore.getState().pages[pageId];
+        if (!page) throw new Error("Page was deleted");
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: true,
+            status: "Planning worksheet…",
+          }),
+        );
+        const spec = await generateWorksheetSpec(
+          buildWorksheetSpecInstruction(page, prompt, standardsCatalog),
+          opts,
+        );
+        if (!isPageOpCurrent(pageId, op)) return;
+        const { children, failures } = await drawTaskPictures(
+          { children: layoutWorksheet(spec, page.orientation) },
+          spec.tasks,
+          opts,
+          persistImage,
+          (_, __, finished, total) => {
+            if (isPageOpCurrent(pageId, op))
+              writeUI(() =>
+                setPagePatch(pageId, {
+                  status: `Drawing tasks… ${finished}/${total}`,
+                }),
+              );
+          },
+        );
+        if (!isPageOpCurrent(pageId, op)) return;
+        const outcome = await commitGenerated(
+          pageId,
+          op,
+          page,
+          {
+            children,
+            imageUrl: undefined,
+            originalImageUrl: undefined,
+            provenance: undefined,
+            worksheetSpec: spec,
+          },
+          opts,
+        );
+        if (outcome === "stale") return;
+        if (outcome === "applied") {
+          revokeIfBlob(page.originalImageUrl);
+          revokeIfBlob(page.imageUrl);
+          await checkQuality(pageId, op, opts);
           if (!isPageOpCurrent(pageId, op)) return;
-          nextImageUrl = await fitImageToPrintableArea(rawUrl, page);
-        } catch {
-          /* ignore background failure */
         }
+        if (failures.length)
+          unfinished = `${failures.length} ${failures.length === 1 ? "picture" : "pictures"} not drawn: ${failures[0]}`;
+        writeUI(() =>
+          setPagePatch(pageId, { generating: false, status: unfinished }),
+        );
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        pushToast(
+          (err as Error).message || "Failed to generate worksheet",
+          "error",
+        );
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+      if (unfinished) throw new Error(unfinished);
+    },
+    [
+      standardsCatalog,
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      commitGenerated,
+      checkQuality,
+    ],
+  );
 
-        // Single commit at the end
-        if (isPageOpCurrent(pageId, op)) {
-          const prev = useEditorStore.getState().pages[pageId];
-          if (prev) {
-            revokeIfBlob(prev.originalImageUrl);
-            revokeIfBlob(prev.imageUrl);
-          }
+  // Redraw one worksheet task's picture; with `replace`, first ask the
+  // model for a different task in its place
+  const regenerateTask = useCallback(
+    async (pageId: string, taskId: string, replace: boolean) => {
+      const op = beginPageOp(pageId);
+      const opts = generationOptions(pageId, op);
+      const progress = useChildProgressStore.getState();
+      let unfinished = "";
+      try {
+        const page = useEditorStore.getState().pages[pageId];
+        const spec = page?.worksheetSpec;
+        const index = spec?.tasks.findIndex((t) => t.id === taskId) ?? -1;
+        if (!page || !spec || index < 0)
+          throw new Error("Worksheet task was removed");
+        writeUI(() =>
           setPagePatch(pageId, {
-            children: nextChildren,
-            imageUrl: nextImageUrl,
-            originalImageUrl: nextImageUrl ?? page.originalImageUrl,
-          });
+            generating: true,
+            status: replace ? "Writing a new task…" : "Drawing task…",
+          }),
+        );
+        let next: PageContent = page;
+        if (replace) {
+          const task = await generateWorksheetTask(
+            buildWorksheetTaskInstruction(page, spec, index, standardsCatalog),
+            opts,
+          );
+          if (!isPageOpCurrent(pageId, op)) return;
+          next = { ...page, ...patchTask(page, taskId, task) };
+          writeUI(() => setPagePatch(pageId, { status: "Drawing task…" }));
+        }
+        progress.clear(pageId);
+        let drawn: Awaited<ReturnType<typeof drawTaskPictures>>;
+        try {
+          drawn = await drawTaskPictures(
+            next,
+            next.worksheetSpec!.tasks.filter((t) => t.id === taskId),
+            opts,
+            persistImage,
+            (childId, p) => {
+              if (isPageOpCurrent(pageId, op)) progress.set(pageId, childId, p);
+            },
+          );
+        } finally {
+          if (isPageOpCurrent(pageId, op)) progress.settle(pageId);
+        }
+        if (!isPageOpCurrent(pageId, op)) return;
+        const outcome = await commitGenerated(
+          pageId,
+          op,
+          page,
+          { ...contentOf(next), children: drawn.children },
+          opts,
+        );
+        if (outcome === "stale") return;
+        if (drawn.failures.length)
+          unfinished = `Picture not drawn: ${drawn.failures[0]}`;
+        writeUI(() =>
+          setPagePatch(pageId, { generating: false, status: unfinished }),
+        );
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        pushToast(
+          (err as Error).message || "Failed to regenerate task",
+          "error",
+        );
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+      if (unfinished) throw new Error(unfinished);
+    },
+    [
+      standardsCatalog,
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      commitGenerated,
+    ],
+  );
+
+  // "Add Answer Key" on a worksheet: build the key from its task spec, or
+  // have the model solve the flattened page, onto the key page linked to
+  // the worksheet (rebuilt in place when there already is one)
+  const buildAnswerKey = useCallback(
+    async (pageId: string) => {
+      const op = beginPageOp(pageId);
+      const opts = generationOptions(pageId, op);
+      try {
+        const page = useEditorStore.getState().pages[pageId];
+        if (!page) throw new Error("Page was deleted");
+        let content: Pick<Page, "children" | "imageUrl">;
+        if (hasSpecAnswers(page)) {
+          content = {
+            children: answerKeyFromSpec(page),
+            imageUrl: page.imageUrl,
+          };
+        } else {
           writeUI(() =>
             setPagePatch(pageId, {
-              generating: false,
-              status: "",
+              generating: true,
+              status: "Solving worksheet…",
             }),
           );
+          const flattened = await flattenPageToPng(page);
+          if (!flattened) throw new Error("The worksheet is empty");
+          const answers = await solveWorksheetImage(
+            await blobUrlToPngBase64(flattened, opts.signal),
+            opts,
+          );
+          const copy = await persistImage(flattened);
+          if (!isPageOpCurrent(pageId, op)) return;
+          content = {
+            children: answerKeyFromAnswers(copy, answers, page.orientation),
+            imageUrl: undefined,
+          };
         }
+        if (!isPageOpCurrent(pageId, op)) return;
+        const existing = Object.values(useEditorStore.getState().pages).find(
+          (p) => p.answerKeyFor === pageId,
+        );
+        if (existing) {
+          setPagePatch(existing.id, {
+            ...content,
+            originalImageUrl: content.imageUrl,
+            orientation: page.orientation,
+          });
+          actions.setCurrentPage(existing.id);
+        } else {
+          actions.addAnswerKey(pageId, content);
+        }
+        writeUI(() => setPagePatch(pageId, { generating: false, status: "" }));
+        pushToast(
+          existing ? "Updated answer key" : "Added answer key",
+          "success",
+        );
       } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
         pushToast(
-          (err as Error).message || "Failed to generate image",
+          (err as Error).message || "Failed to make the answer key",
           "error",
         );
-        writeUI(() => setPagePatch(pageId, { generating: false, status: "" }));
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+    },
+    [actions, setPagePatch, beginPageOp, isPageOpCurrent, generationOptions],
+  );
+
+  // "Check Again" on the QA checklist
+  const recheckQuality = useCallback(
+    async (pageId: string) => {
+      const op = beginPageOp(pageId);
+      try {
+        writeUI(() => setPagePatch(pageId, { generating: true }));
+        await checkQuality(pageId, op, generationOptions(pageId, op));
+        if (isPageOpCurrent(pageId, op))
+          writeUI(() =>
+            setPagePatch(pageId, { generating: false, status: "" }),
+          );
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
       }
     },
-    [buildInstruction, setPagePatch, beginPageOp, isPageOpCurrent],
+    [
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      checkQuality,
+    ],
+  );
+
+  // "Regenerate with Fixes": generate the page again in place with its
+  // failed checks added to the prompt (a task-spec worksheet is planned
+  // again); the new result gets a new checklist
+  const regenerateWithFixes = useCallback(
+    (pageId: string) => {
+      const page = useEditorStore.getState().pages[pageId];
+      if (!page?.qa) return;
+      const prompt = [(page.prompt || "").trim(), qaFeedback(page.qa)]
+        .filter(Boolean)
+        .join("\n");
+      enqueueJob({ kind: "fix", pageId, prompt, priority: "high" }, () =>
+        page.pageType === "worksheet" && page.worksheetSpec
+          ? generateWorksheet(pageId, prompt)
+          : generateInto(pageId, prompt),
+      );
+    },
+    [enqueueJob, generateInto, generateWorksheet],
   );
 
   // Define branching after generateInto so dependencies are valid
@@ -531,18 +1451,232 @@ export default function Editor() {
       // (generation writes are cancelled if the page disappears)
       setTimeout(() => {
         if (!useEditorStore.getState().pages[childId]) return; // page deleted via undo
-        void generateInto(childId, prompt, { ...parent, id: childId, prompt });
+        enqueueJob({ kind: "branch", pageId: childId, prompt }, async () => {
+          if (!useEditorStore.getState().pages[childId])
+            throw new Error("Page was deleted");
+          if (parent.pageType === "worksheet" && parent.worksheetSpec)
+            await generateWorksheet(childId, prompt);
+          else
+            await generateInto(childId, prompt, {
+              ...variantOf(parent),
+              id: childId,
+              prompt,
+            });
+        });
       }, 350);
     },
-    [actions, generateInto],
+    [actions, generateInto, generateWorksheet, enqueueJob],
   );
   useEffect(() => {
     branchFromWithPromptRef.current = branchFromWithPrompt;
   }, [branchFromWithPrompt]);
 
+  // "Generate Batch": one child page per complete row of the variable
+  // table, its prompts filled in from the row, each generated like a branch
+  // (a task-spec worksheet plans a worksheet of its own per row)
+  const generateBatch = useCallback(
+    (parentId: string) => {
+      const parent = useEditorStore.getState().pages[parentId];
+      if (!parent) return;
+      const systemTemplate = parent.systemPromptEdited
+        ? parent.systemPrompt || ""
+        : "";
+      const variables = templateVariables(parent.prompt, systemTemplate);
+      const branches = (parent.variableRows || [])
+        .filter((row) => rowComplete(variables, row))
+        .map((row) => ({
+          title: `${parent.title} (${rowLabel(variables, row)})`,
+          prompt: fillTemplate(parent.prompt || "", row).trim(),
+          systemPrompt: systemTemplate
+            ? fillTemplate(systemTemplate, row)
+            : parent.systemPrompt,
+        }));
+      const ids = actions.branchBatch(parentId, branches);
+      if (!ids.length) return;
+      pushToast(
+        `Generating ${ids.length} ${ids.length === 1 ? "page" : "pages"}`,
+        "info",
+      );
+      // Same delay as a single branch, so Undo right away removes them all
+      setTimeout(() => {
+        ids.forEach((childId, i) => {
+          if (!useEditorStore.getState().pages[childId]) return;
+          const { prompt } = branches[i];
+          enqueueJob({ kind: "branch", pageId: childId, prompt }, async () => {
+            if (!useEditorStore.getState().pages[childId])
+              throw new Error("Page was deleted");
+            if (parent.pageType === "worksheet" && parent.worksheetSpec)
+              await generateWorksheet(childId, prompt);
+            else
+              await generateInto(childId, prompt, {
+                ...variantOf(parent),
+                ...branches[i],
+                id: childId,
+              });
+          });
+        });
+      }, 350);
+    },
+    [actions, generateInto, generateWorksheet, enqueueJob],
+  );
+
+  // Candidate variants from Refine by Prompt. Drafts live here, outside the
+  // store, until kept; each one is generated by its own job.
+  const [candidates, setCandidates] = useState<{
+    parentId: string;
+    // The page as the candidates were drawn from it
+    parent: Page;
+    prompt: string;
+    items: Candidate[];
+  } | null>(null);
+  const [keepingCandidates, setKeepingCandidates] = useState(false);
+  const updateCandidate = useCallback(
+    (id: string, patch: Partial<Candidate>) =>
+      setCandidates((cs) =>
+        cs
+          ? {
+              ...cs,
+              items: cs.items.map((c) =>
+                c.id === id ? { ...c, ...patch } : c,
+              ),
+            }
+          : cs,
+      ),
+    [],
+  );
+
+  const generateCandidates = useCallback(
+    (parentId: string, prompt: string, count: number) => {
+      const parent = useEditorStore.getState().pages[parentId];
+      if (!parent) return;
+      const items: Candidate[] = Array.from({ length: count }, (_, i) => {
+        const id = newId("cand");
+        const variation = `${prompt}\nVariation ${i + 1} of ${count}: make it clearly different from the other variations.`;
+        // Listed under the page; cancelling stops only the candidate's op
+        const jobId = useJobStore.getState().enqueue(
+          {
+            kind: "candidate",
+            pageId: parentId,
+            opId: id,
+            prompt,
+            title: `Candidate ${i + 1} of ${parent.title}`,
+          },
+          {
+            cancel: () => cancelPageOps([id]),
+            run: async () => {
+              const op = beginPageOp(id);
+              updateCandidate(id, { page: undefined, preview: null, note: "" });
+              const draft: Page = { ...variantOf(parent), id, prompt };
+              const opts: GenerationOptions = {
+                signal: pageOpAbortRef.current[id]?.signal,
+                onRetry: (r) => {
+                  if (isPageOpCurrent(id, op))
+                    updateCandidate(id, { note: retryStatus(r) });
+                },
+              };
+              try {
+                const result = await generatePageContent(
+                  draft,
+                  {
+                    text: buildInstruction(draft, variation, "text"),
+                    image: buildInstruction(draft, variation, "image"),
+                  },
+                  opts,
+                  // Kept candidates are uploaded when kept, not before
+                  async (url) => url,
+                  () => {},
+                  parentId,
+                );
+                const { failures } = result;
+                if (failures.length === result.children.length + 1)
+                  throw new Error(failures[0]);
+                const content: PageContent = {
+                  children: result.children,
+                  imageUrl: result.imageUrl,
+                  originalImageUrl: result.imageUrl ?? draft.originalImageUrl,
+                  provenance: result.provenance ?? draft.provenance,
+                };
+                const reasons = await moderationReasons(draft, content, opts);
+                // A flagged candidate is kept with the parent's content and
+                // its own held for teacher review
+                const page: Page = reasons.length
+                  ? {
+                      ...draft,
+                      review: { ...content, reasons, createdAt: Date.now() },
+                    }
+                  : { ...draft, ...content };
+                const preview = await flattenPageToPng({
+                  ...draft,
+                  ...content,
+                }).catch(() => null);
+                if (!isPageOpCurrent(id, op)) return;
+                updateCandidate(id, {
+                  page,
+                  preview: preview ?? content.imageUrl ?? null,
+                  note: reasons.length
+                    ? `Needs teacher review: ${reasons.join("; ")}`
+                    : failures.length
+                      ? `${failures.length} ${failures.length === 1 ? "part" : "parts"} not updated: ${failures[0]}`
+                      : "",
+                });
+              } catch (err) {
+                if (!isPageOpCurrent(id, op)) return;
+                updateCandidate(id, { note: failureStatus(err) });
+                throw err;
+              }
+            },
+          },
+        );
+        return { id, jobId, selected: false };
+      });
+      setCandidates({ parentId, parent, prompt, items });
+    },
+    [
+      cancelPageOps,
+      beginPageOp,
+      isPageOpCurrent,
+      updateCandidate,
+      buildInstruction,
+    ],
+  );
+
+  const closeCandidates = useCallback(() => {
+    if (!candidates) return;
+    const jobs = useJobStore.getState();
+    candidates.items.forEach((c) => jobs.cancel(c.jobId));
+    revokeCandidates(candidates.items, candidates.parent);
+    setCandidates(null);
+  }, [candidates]);
+
+  // Add the chosen candidates as child pages in one undo step
+  const keepCandidates = useCallback(async () => {
+    if (!candidates) return;
+    const chosen = candidates.items.filter((c) => c.selected && c.page);
+    if (!chosen.length) return;
+    setKeepingCandidates(true);
+    try {
+      const drafts = await Promise.all(
+        chosen.map((c) => persistDraftImages(c.page!)),
+      );
+      const ids = actions.addBranches(candidates.parentId, drafts);
+      if (!ids.length) {
+        pushToast("The original page was deleted", "error");
+        return;
+      }
+      closeCandidates();
+      pushToast(
+        `Kept ${ids.length} ${ids.length === 1 ? "variant" : "variants"}`,
+        "success",
+      );
+    } finally {
+      setKeepingCandidates(false);
+    }
+  }, [candidates, actions, closeCandidates]);
+
   const generateChildFromParent = useCallback(
     async (childId: string, parent: Page, prompt: string) => {
       const op = beginPageOp(childId);
+      const opts = generationOptions(childId, op);
       // If there are placeholders, generate into them on the child
       const placeholders = (parent.children || []).filter(
         (c) => c.type === "image" && !(c as ImageChild).src,
@@ -559,23 +1693,56 @@ export default function Editor() {
         setPagePatch(childId, { children: [...(parent.children || [])] });
         const instruction = buildInstruction(childDraft, prompt, "image");
         let childrenNext = [...(parent.children || [])];
-        for (let i = 0; i < childrenNext.length; i++) {
-          const c = childrenNext[i];
-          if (c.type === "image" && !(c as ImageChild).src) {
-            const url = await generateColoringBookImage(instruction);
-            if (!isPageOpCurrent(childId, op)) return;
-            childrenNext = childrenNext.map((cc, j) =>
-              j === i
-                ? { ...(cc as ImageChild), src: url, placeholder: false }
-                : cc,
-            );
-            setPagePatch(childId, { children: childrenNext });
+        try {
+          for (let i = 0; i < childrenNext.length; i++) {
+            const c = childrenNext[i];
+            if (c.type === "image" && !(c as ImageChild).src) {
+              const track = trackProvenance("generate", instruction, {
+                parentPageId: parent.id,
+              });
+              const rawUrl = await generateColoringBookImage(instruction, opts);
+              if (!isPageOpCurrent(childId, op)) return;
+              const src = await persistImage(rawUrl);
+              if (src !== rawUrl) revokeIfBlob(rawUrl);
+              if (!isPageOpCurrent(childId, op)) return;
+              childrenNext = childrenNext.map((cc, j) =>
+                j === i
+                  ? {
+                      ...(cc as ImageChild),
+                      src,
+                      placeholder: false,
+                      provenance: track(),
+                    }
+                  : cc,
+              );
+            }
           }
-        }
-        if (isPageOpCurrent(childId, op))
+          const outcome = await commitGenerated(
+            childId,
+            op,
+            { ...childDraft, children: parent.children || [] },
+            { ...contentOf(childDraft), children: childrenNext },
+            opts,
+          );
+          if (outcome === "applied") await checkQuality(childId, op, opts);
+          if (isPageOpCurrent(childId, op))
+            writeUI(() =>
+              setPagePatch(childId, { generating: false, status: "" }),
+            );
+        } catch (err) {
+          if (!isPageOpCurrent(childId, op)) return;
+          pushToast(
+            (err as Error).message || "Failed to fill placeholders",
+            "error",
+          );
           writeUI(() =>
-            setPagePatch(childId, { generating: false, status: "" }),
+            setPagePatch(childId, {
+              generating: false,
+              status: failureStatus(err),
+            }),
           );
+          throw err;
+        }
         return;
       }
 
@@ -590,27 +1757,71 @@ export default function Editor() {
       );
       if (baseUrl) {
         try {
-          const baseB64 = await blobUrlToPngBase64(baseUrl);
+          const baseB64 = await blobUrlToPngBase64(baseUrl, opts.signal);
           const instruction = buildInstruction(childDraft, prompt, "image");
-          const rawUrl = await transformImageWithPrompt(baseB64, instruction);
-          const fitted = await fitImageToPrintableArea(rawUrl, childDraft);
-          const prev = useEditorStore.getState().pages[childId];
-          revokeIfBlob(prev?.originalImageUrl);
-          revokeIfBlob(prev?.imageUrl);
-          if (!isPageOpCurrent(childId, op)) return;
-          setPagePatch(childId, {
-            imageUrl: fitted,
-            originalImageUrl: fitted,
+          const track = trackProvenance("transform", instruction, {
+            parentPageId: parent.id,
+            sourceImageUrl: await persistImage(baseUrl),
           });
+          const rawUrl = await transformImageWithPrompt(
+            baseB64,
+            instruction,
+            opts,
+          );
+          const fitted = await persistImage(
+            await fitImageToPrintableArea(rawUrl, childDraft, opts.signal),
+          );
+          revokeIfBlob(rawUrl);
+          if (!isPageOpCurrent(childId, op)) return;
+          const prev = useEditorStore.getState().pages[childId];
+          const provenance = track();
+          const outcome = await commitGenerated(
+            childId,
+            op,
+            prev ?? childDraft,
+            {
+              ...contentOf(prev ?? childDraft),
+              imageUrl: fitted,
+              originalImageUrl: fitted,
+              provenance,
+            },
+            opts,
+          );
+          if (outcome === "stale") return;
+          if (outcome === "applied") {
+            revokeReplaced(
+              [prev?.originalImageUrl, prev?.imageUrl],
+              provenance,
+            );
+            await checkQuality(childId, op, opts);
+            if (!isPageOpCurrent(childId, op)) return;
+          }
           writeUI(() =>
             setPagePatch(childId, { generating: false, status: "" }),
           );
           return;
         } catch (e) {
+          if (!isPageOpCurrent(childId, op)) return;
+          // Out of quota or not authorized: generating instead would be
+          // refused as well
+          if (
+            e instanceof GenerationError &&
+            (e.kind === "quota" || e.kind === "auth")
+          ) {
+            pushToast(e.message, "error");
+            writeUI(() =>
+              setPagePatch(childId, {
+                generating: false,
+                status: failureStatus(e),
+              }),
+            );
+            throw e;
+          }
           console.warn("Transform failed; falling back to generate", e);
           pushToast("Transform failed. Falling back to generate.", "error");
         }
       }
+      if (!isPageOpCurrent(childId, op)) return;
       await generateInto(childId, prompt, childDraft);
     },
     [
@@ -619,11 +1830,226 @@ export default function Editor() {
       setPagePatch,
       beginPageOp,
       isPageOpCurrent,
+      generationOptions,
+      commitGenerated,
+      checkQuality,
+    ],
+  );
+  useEffect(() => {
+    generateChildFromParentRef.current = async (childId, parent, prompt) => {
+      enqueueJob({ kind: "branch", pageId: childId, prompt }, () =>
+        generateChildFromParent(childId, parent, prompt),
+      );
+    };
+  }, [generateChildFromParent, enqueueJob]);
+
+  // Put a generated image in place, through moderation: an image layer's
+  // src, or the page background when childId is null
+  const applyGeneratedImage = useCallback(
+    async (
+      pageId: string,
+      op: number,
+      childId: string | null,
+      url: string,
+      provenance: Provenance,
+      opts: GenerationOptions,
+    ) => {
+      const current = useEditorStore.getState().pages[pageId];
+      if (!current) return "stale";
+      const outcome = await commitGenerated(
+        pageId,
+        op,
+        current,
+        childId
+          ? {
+              ...contentOf(current),
+              children: current.children.map((c) =>
+                c.id === childId
+                  ? { ...c, src: url, placeholder: false, provenance }
+                  : c,
+              ),
+            }
+          : {
+              ...contentOf(current),
+              imageUrl: url,
+              originalImageUrl: url,
+              provenance,
+            },
+        opts,
+      );
+      if (outcome === "applied" && !childId)
+        revokeReplaced([current.imageUrl], provenance);
+      return outcome;
+    },
+    [commitGenerated],
+  );
+
+  // Masked edit from PageNode's mask mode: regenerate only the painted
+  // region of the selected image layer (or of the page background when no
+  // image layer is selected) and paste it back over the original.
+  const maskEdit = useCallback(
+    async (pageId: string, maskUrl: string, prompt: string) => {
+      const op = beginPageOp(pageId);
+      try {
+        const page = useEditorStore.getState().pages[pageId];
+        if (!page) throw new Error("Page was deleted");
+        const selected = page.children.find(
+          (c) => c.id === page.selectedChildId,
+        );
+        const layer =
+          selected?.type === "image" && (selected as ImageChild).src
+            ? (selected as ImageChild)
+            : undefined;
+        const baseUrl = layer?.src ?? page.imageUrl;
+        if (!baseUrl)
+          throw new Error(
+            "Nothing to edit: select an image layer or generate the page first",
+          );
+        const { pxW, pxH } = pagePx(page.orientation);
+        const region = layer ?? { x: 0, y: 0, width: pxW, height: pxH };
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: true,
+            status: "Editing masked area…",
+          }),
+        );
+        const opts = generationOptions(pageId, op);
+        const mask = `data:image/png;base64,${await maskToPngBase64(
+          maskUrl,
+          region,
+          baseUrl,
+          opts.signal,
+        )}`;
+        const result = await runImageOperation(
+          {
+            operation: "mask",
+            instruction: buildInstruction(
+              page,
+              prompt,
+              layer ? "image" : "page",
+            ),
+            sourceImageUrl: await persistImage(baseUrl),
+            maskUrl: mask,
+          },
+          opts,
+        );
+        const [url, storedMask] = await Promise.all([
+          persistImage(result.url),
+          persistImage(mask),
+        ]);
+        if (!isPageOpCurrent(pageId, op)) return;
+        const outcome = await applyGeneratedImage(
+          pageId,
+          op,
+          layer?.id ?? null,
+          url,
+          { ...result.provenance, maskUrl: storedMask },
+          opts,
+        );
+        if (outcome === "stale") return;
+        writeUI(() => setPagePatch(pageId, { generating: false, status: "" }));
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        pushToast((err as Error).message || "Masked edit failed", "error");
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+    },
+    [
+      buildInstruction,
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      applyGeneratedImage,
+    ],
+  );
+
+  // "Re-run with same settings" in the inspector: repeat the recorded
+  // generation of an image layer (or of the page background when childId
+  // is null) with the current provider
+  const rerunGeneration = useCallback(
+    async (pageId: string, childId: string | null) => {
+      const op = beginPageOp(pageId);
+      try {
+        const page = useEditorStore.getState().pages[pageId];
+        if (!page) throw new Error("Page was deleted");
+        const layer = childId
+          ? (page.children.find(
+              (c) => c.id === childId && c.type === "image",
+            ) as ImageChild | undefined)
+          : undefined;
+        if (childId && !layer) throw new Error("Image layer was removed");
+        const recorded = (layer ?? page).provenance;
+        if (!recorded) throw new Error("No generation recorded to re-run");
+        writeUI(() =>
+          setPagePatch(pageId, { generating: true, status: "Re-running…" }),
+        );
+        const opts = generationOptions(pageId, op);
+        const result = await runImageOperation(recorded, opts);
+        // Masked edits come back at their source's size already
+        const url = await persistImage(
+          recorded.operation === "mask"
+            ? result.url
+            : layer
+              ? await fitImageToRect(
+                  result.url,
+                  layer.width,
+                  layer.height,
+                  opts.signal,
+                )
+              : await fitImageToPrintableArea(result.url, page, opts.signal),
+        );
+        if (url !== result.url) revokeIfBlob(result.url);
+        if (!isPageOpCurrent(pageId, op)) return;
+        const outcome = await applyGeneratedImage(
+          pageId,
+          op,
+          childId,
+          url,
+          result.provenance,
+          opts,
+        );
+        if (outcome === "stale") return;
+        writeUI(() => setPagePatch(pageId, { generating: false, status: "" }));
+      } catch (err) {
+        if (!isPageOpCurrent(pageId, op)) return;
+        pushToast((err as Error).message || "Re-run failed", "error");
+        writeUI(() =>
+          setPagePatch(pageId, {
+            generating: false,
+            status: failureStatus(err),
+          }),
+        );
+        throw err;
+      }
+    },
+    [
+      setPagePatch,
+      beginPageOp,
+      isPageOpCurrent,
+      generationOptions,
+      applyGeneratedImage,
     ],
   );
+
   useEffect(() => {
-    generateChildFromParentRef.current = generateChildFromParent;
-  }, [generateChildFromParent]);
+    maskEditRef.current = (pageId, maskUrl, prompt) => {
+      const provider = activeProvider();
+      if (!provider.capabilities.maskEdit) {
+        pushToast(`${provider.label} does not support masked edits.`, "error");
+        return;
+      }
+      enqueueJob({ kind: "mask", pageId, prompt, priority: "high" }, () =>
+        maskEdit(pageId, maskUrl, prompt),
+      );
+    };
+  }, [maskEdit, enqueueJob]);
 
   const deleteNode = useCallback(
     (pageId: string) => {
@@ -675,6 +2101,9 @@ export default function Editor() {
               branchFromWithPromptRef.current(id, prompt),
             onQuickGenerate: (id: string) => quickGenerateRef.current(id),
             onDelete: (id: string) => deleteNodeRef.current(id),
+            onCancel: cancelGeneration,
+            onMaskEdit: (id: string, maskUrl: string, prompt: string) =>
+              maskEditRef.current(id, maskUrl, prompt),
           } as unknown as PageNodeData,
           selected: existing?.selected ?? p.id === currentPageId,
         } as unknown as PageRFNode;
@@ -694,14 +2123,18 @@ export default function Editor() {
         });
       return equal ? old : next;
     });
-  }, [pages, currentPageId, setNodes, nodePositions]);
+  }, [pages, currentPageId, setNodes, nodePositions, cancelGeneration]);
 
   // Drop & paste handlers and keyboard shortcuts via hooks
   const flowRef = useRef<HTMLDivElement | null>(null);
   useDropAndPasteImport(
     flowRef,
     (url, title) => {
-      addPageFromImage(url, title);
+      // Upload first so the new page (and its history entry) holds the asset URL
+      void persistImage(url).then((assetUrl) => {
+        if (assetUrl !== url) revokeIfBlob(url);
+        addPageFromImage(assetUrl, title);
+      });
     },
     (msg) => pushToast(msg, "error"),
   );
@@ -716,8 +2149,14 @@ export default function Editor() {
       if (selected.length > 1) deleteNodes(selected);
       else if (currentPageId) deleteNode(currentPageId);
     },
-    onUndo: () => undo(),
-    onRedo: () => redo(),
+    onUndo: () => {
+      undo();
+      cancelAllGenerations();
+    },
+    onRedo: () => {
+      redo();
+      cancelAllGenerations();
+    },
   });
 
   // Simple BW threshold processing (apply to current page using originalImageUrl)
@@ -745,6 +2184,92 @@ export default function Editor() {
     pdf.save("checkfu.pdf");
   }
 
+  // Project files (.checkfu): the whole domain with images embedded
+
+  async function exportProject() {
+    const s = useEditorStore.getState();
+    const title =
+      project?.title ||
+      (s.order.length ? s.pages[s.order[0]]?.title : "") ||
+      "Checkfu project";
+    const blob = await exportProjectFile(selectDomain(s), title);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = bundleFileName(title);
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  function openProject() {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = `${BUNDLE_EXTENSION},application/json`;
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      if (
+        useEditorStore.getState().order.length &&
+        !confirm("Replace the current pages with this project?")
+      )
+        return;
+      try {
+        const domain = await importProjectFile(file);
+        actions.loadDomain(domain);
+        // Opening a project starts a fresh history and drops old jobs
+        clearHistory();
+        cancelAllGenerations();
+        pushToast("Opened project", "success");
+      } catch (err) {
+        pushToast((err as Error).message || "Failed to open project", "error");
+      }
+    };
+    input.click();
+  }
+
+  // A preset picked in a layer's inspector sets the page up and puts the
+  // preset's default prompt (else its system prompt) in the quick prompt
+  function applyPresetToLayer(childId: string, preset: PromptPreset | null) {
+    if (!currentPage) return;
+    if (!preset) {
+      setPagePatch(currentPage.id, { promptPresetKey: null });
+      return;
+    }
+    const patch = applyPreset(preset);
+    setPagePatch(currentPage.id, patch);
+    setNodePrompts((m) => ({
+      ...m,
+      [childId]:
+        preset.userPrompt.trim() ||
+        getEffectiveSystemPrompt(
+          { ...currentPage, ...patch },
+          standardsCatalog,
+        ),
+    }));
+  }
+
+  // Restoring is one undoable step (not a history reset like opening a file)
+  function restoreCheckpoint(domain: EditorDomain, name: string) {
+    actions.loadDomain(domain);
+    cancelAllGenerations();
+    setShowCheckpoints(false);
+    pushToast(`Restored "${name}"`, "success");
+  }
+
+  if (projectId && project === null) {
+    return (
+      <div className="h-screen w-screen flex flex-col items-center justify-center gap-3 text-slate-600">
+        <p>Project not found.</p>
+        <Link
+          href="/projects"
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Back to projects
+        </Link>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen w-screen overflow-hidden bg-background text-foreground">
       {/* Top bar */}
@@ -755,6 +2280,38 @@ export default function Editor() {
       >
         <div className="flex items-center gap-3">
           <img src="/logo.svg" alt="Checkfu Logo" className="h-6" />
+          {projectId ? (
+            <>
+              <Link
+                href="/projects"
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+              >
+                Projects
+              </Link>
+              <Link
+                href="/usage"
+                className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+              >
+                Usage
+              </Link>
+            </>
+          ) : (
+            <span
+              className="text-xs rounded border border-amber-300 bg-amber-50 px-2 py-0.5 text-amber-800"
+              title="Your work is saved in this browser only"
+            >
+              Try mode: saved in this browser only
+            </span>
+          )}
+          {project && (
+            <span
+              className="text-sm font-medium truncate max-w-[240px]"
+              title={project.title}
+            >
+              / {project.title}
+            </span>
+          )}
+          <PresenceAvatars peers={peers} label="People in this project" />
         </div>
         <div className="flex items-center gap-2">
           {/* Undo/Redo moved to the right side; icon-only, consistent height */}
@@ -768,17 +2325,7 @@ export default function Editor() {
               setUndoFlash(true);
               setTimeout(() => setUndoFlash(false), 180);
               undo();
-              // Clear transient spinners and invalidate old ops (UI-only)
-              const ids = useEditorStore.getState().order;
-              ids.forEach((id) =>
-                writeUI(() =>
-                  (actions as any).patchPage?.(id, {
-                    generating: false,
-                    status: "",
-                  }),
-                ),
-              );
-              pageOpSeqRef.current = {};
+              cancelAllGenerations();
             }}
           >
             <svg
@@ -806,16 +2353,7 @@ export default function Editor() {
               setRedoFlash(true);
               setTimeout(() => setRedoFlash(false), 180);
               redo();
-              const ids = useEditorStore.getState().order;
-              ids.forEach((id) =>
-                writeUI(() =>
-                  (actions as any).patchPage?.(id, {
-                    generating: false,
-                    status: "",
-                  }),
-                ),
-              );
-              pageOpSeqRef.current = {};
+              cancelAllGenerations();
             }}
           >
             <svg
@@ -833,6 +2371,55 @@ export default function Editor() {
               <path d="M19 10H10a5 5 0 1 0 0 10h7" />
             </svg>
           </button>
+          <button
+            className="inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            aria-label="Checkpoints"
+            title="Save, compare and restore named checkpoints"
+            onClick={() => setShowCheckpoints(true)}
+          >
+            Checkpoints
+          </button>
+          <button
+            className="inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            aria-label="Jobs"
+            title="Queued, running and finished generations"
+            onClick={() => setShowJobs((v) => !v)}
+          >
+            Jobs
+            {activeJobs > 0 && (
+              <span className="px-1.5 rounded-full bg-sky-600 text-white text-xs">
+                {activeJobs}
+              </span>
+            )}
+          </button>
+          <button
+            className="inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            aria-label="Open Project"
+            title={`Open a ${BUNDLE_EXTENSION} project file`}
+            onClick={openProject}
+          >
+            Open Project
+          </button>
+          <button
+            className="inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm disabled:opacity-50 transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            aria-label="Export Project"
+            aria-busy={savingProject}
+            title={`Save all pages and images as one ${BUNDLE_EXTENSION} file`}
+            disabled={!pages.length || savingProject}
+            onClick={async () => {
+              setSavingProject(true);
+              try {
+                await exportProject();
+                pushToast("Exported project", "success");
+              } catch {
+                pushToast("Failed to export project", "error");
+              } finally {
+                setSavingProject(false);
+              }
+            }}
+          >
+            Export Project
+          </button>
           <button
             className="inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm disabled:opacity-50 transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
             aria-label="Export to PDF"
@@ -843,12 +2430,15 @@ export default function Editor() {
                 .filter((n) => n.selected)
                 .map((n) => useEditorStore.getState().pages[n.id])
                 .filter(Boolean) as Page[];
-              const toExport = selected.length
-                ? selected
-                : currentPage
-                  ? [currentPage]
-                  : [];
-              if (!toExport.length) return;
+              const toExport = packetPages(
+                selected.length ? selected : currentPage ? [currentPage] : [],
+                useEditorStore.getState().pages,
+                keysInPdf,
+              );
+              if (!toExport.length) {
+                pushToast("Nothing to export", "info");
+                return;
+              }
               setExporting(true);
               try {
                 await exportPagesToPdf(toExport);
@@ -891,14 +2481,20 @@ export default function Editor() {
               </span>
             ) : null}
           </button>
+          <select
+            className="h-9 px-2 rounded-md border text-sm"
+            aria-label="Answer keys in PDF"
+            title="Answer keys of the exported worksheets"
+            value={keysInPdf}
+            onChange={(e) => setKeysInPdf(e.target.value as "end" | "omit")}
+          >
+            <option value="end">Keys at end</option>
+            <option value="omit">No keys</option>
+          </select>
           <button
-            className={`inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${needsApiKey ? "border-amber-400 bg-amber-50 text-amber-800" : ""}`}
+            className={`inline-flex h-9 items-center gap-2 px-3 rounded-md border text-sm transition hover:bg-slate-50 active:scale-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${setupHint ? "border-amber-400 bg-amber-50 text-amber-800" : ""}`}
             aria-label="Settings"
-            title={
-              needsApiKey
-                ? "Add your Gemini API key to generate images"
-                : "API Key"
-            }
+            title={setupHint ?? "Settings"}
             onClick={() => setShowSettings(true)}
           >
             <svg
@@ -915,8 +2511,17 @@ export default function Editor() {
               <circle cx="12" cy="12" r="3"></circle>
               <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1 1.65 1.65 0 0 0-.33-1.82l-.06-.06A2 2 0 1 1 7.04 2.4l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06-.06a1.65 1.65 0 0 0-.33 1.82V9c0 .63.37 1.2.95 1.45.33.14.68.27 1.05.37" />
             </svg>
-            {needsApiKey ? "Add API Key" : "API Key"}
+            {setupHint ? "Set Up Generation" : "Settings"}
           </button>
+          {projectId ? (
+            <UserButton />
+          ) : (
+            <SignInButton mode="modal" forceRedirectUrl="/projects">
+              <button className="inline-flex h-9 items-center px-3 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700">
+                Sign in to save projects
+              </button>
+            </SignInButton>
+          )}
         </div>
       </header>
 
@@ -1182,6 +2787,14 @@ export default function Editor() {
             </div>
           ) : (
             <div className="space-y-6 text-sm">
+              {currentPage.review && !currentPage.generating && (
+                <ReviewPanel
+                  page={currentPage}
+                  review={currentPage.review}
+                  onApprove={() => actions.resolveReview(currentPage.id, true)}
+                  onReject={() => actions.resolveReview(currentPage.id, false)}
+                />
+              )}
               {!currentPage.selectedChildId && (
                 <section>
                   <h3 className="text-sm font-semibold text-slate-700">Page</h3>
@@ -1209,13 +2822,159 @@ export default function Editor() {
                       <option value="portrait">Portrait</option>
                       <option value="landscape">Landscape</option>
                     </select>
+                    <label htmlFor="page-type">Type</label>
+                    <select
+                      id="page-type"
+                      className="border rounded px-2 py-1"
+                      value={currentPage.pageType || "coloring"}
+                      onChange={(e) =>
+                        setPagePatch(currentPageId!, {
+                          pageType: e.target.value as Page["pageType"],
+                          systemPromptEdited: false,
+                        })
+                      }
+                    >
+                      <option value="coloring">Coloring Book</option>
+                      <option value="worksheet">Worksheet — K Math</option>
+                    </select>
+                    <PromptPresetSelect
+                      id="page-prompt-preset"
+                      presets={promptLibrary.presets}
+                      value={currentPage.promptPresetKey}
+                      onChange={(preset) =>
+                        setPagePatch(
+                          currentPageId!,
+                          preset
+                            ? applyPreset(preset)
+                            : { promptPresetKey: null },
+                        )
+                      }
+                      onManage={() => setShowPromptLibrary(true)}
+                    />
+                    {currentPage.pageType === "worksheet" && (
+                      <>
+                        <label>Knowledge (Standards)</label>
+                        <CompactStandardsPicker
+                          options={standardsCatalog}
+                          value={currentPage.standards || []}
+                          onChange={(vals) =>
+                            setPagePatch(currentPageId!, {
+                              standards: vals,
+                              systemPromptEdited: false,
+                            })
+                          }
+                        />
+                      </>
+                    )}
                     {/* Margin removed per spec */}
                   </div>
                 </section>
               )}
 
+              {!currentPage.selectedChildId && currentPage.qa && (
+                <QaPanel
+                  qa={currentPage.qa}
+                  busy={!!currentPage.generating}
+                  onRecheck={() => {
+                    const pageId = currentPage.id;
+                    enqueueJob(
+                      { kind: "qa", pageId, prompt: "", priority: "high" },
+                      () => recheckQuality(pageId),
+                    );
+                  }}
+                  onFix={() => regenerateWithFixes(currentPage.id)}
+                />
+              )}
+
+              {!currentPage.selectedChildId && currentPage.answerKeyFor && (
+                <section>
+                  <h3 className="text-sm font-semibold text-slate-700">
+                    Answer Key
+                  </h3>
+                  <p className="mt-1 text-xs text-slate-600">
+                    {pages.some((p) => p.id === currentPage.answerKeyFor) ? (
+                      <>
+                        For{" "}
+                        <button
+                          className="underline"
+                          onClick={() =>
+                            actions.setCurrentPage(currentPage.answerKeyFor!)
+                          }
+                        >
+                          {
+                            pages.find((p) => p.id === currentPage.answerKeyFor)
+                              ?.title
+                          }
+                        </button>
+                        . Update it from there after changing the worksheet.
+                      </>
+                    ) : (
+                      "Its worksheet was deleted."
+                    )}
+                  </p>
+                </section>
+              )}
+
+              {!currentPage.selectedChildId &&
+                currentPage.pageType === "worksheet" &&
+                !currentPage.answerKeyFor && (
+                  <WorksheetPanel
+                    page={currentPage}
+                    busy={!!currentPage.generating}
+                    hasAnswerKey={pages.some(
+                      (p) => p.answerKeyFor === currentPage.id,
+                    )}
+                    onAnswerKey={() => {
+                      const pageId = currentPage.id;
+                      enqueueJob(
+                        {
+                          kind: "answerKey",
+                          pageId,
+                          prompt: "",
+                          priority: "high",
+                        },
+                        () => buildAnswerKey(pageId),
+                      );
+                    }}
+                    onPromptChange={(prompt) =>
+                      setPagePatch(currentPage.id, { prompt })
+                    }
+                    onGenerate={() => {
+                      const pageId = currentPage.id;
+                      const prompt = (currentPage.prompt || "").trim();
+                      enqueueJob(
+                        { kind: "worksheet", pageId, prompt, priority: "high" },
+                        () => generateWorksheet(pageId, prompt),
+                      );
+                    }}
+                    onSelectTask={(taskId) => {
+                      const layer =
+                        currentPage.children.find(
+                          (c) => c.taskId === taskId && c.type === "image",
+                        ) ??
+                        currentPage.children.find((c) => c.taskId === taskId);
+                      if (layer) actions.selectChild(currentPage.id, layer.id);
+                    }}
+                  />
+                )}
+
               {/* Page prompts removed: prompting is node-only */}
 
+              {!currentPage.selectedChildId && !currentPage.answerKeyFor && (
+                <PromptVariablesPanel
+                  page={currentPage}
+                  busy={!!currentPage.generating}
+                  showPrompt={currentPage.pageType !== "worksheet"}
+                  onPromptChange={(prompt) =>
+                    setPagePatch(currentPage.id, { prompt })
+                  }
+                  onRowsChange={(variableRows) =>
+                    setPagePatch(currentPage.id, { variableRows })
+                  }
+                  onGenerateBatch={() => generateBatch(currentPage.id)}
+                />
+              )}
+
               {/* Child inspector only when a child is selected */}
               {currentPage.selectedChildId ? (
                 <section>
@@ -1336,52 +3095,17 @@ export default function Editor() {
                           />
                         </div>
 
-                        {/* Prompt Library (node-local selection; default None) */}
-                        <div className="grid gap-1">
-                          <label htmlFor="prompt-preset">Prompt Library</label>
-                          <select
-                            id="prompt-preset"
-                            className="border rounded px-2 py-1"
-                            value={nodePresets[child.id] ?? "none"}
-                            onChange={(e) => {
-                              const v = e.currentTarget.value;
-                              setNodePresets((m) => ({ ...m, [child.id]: v }));
-                              if (v === "none") return;
-                              const [type, style] = v.includes(":")
-                                ? v.split(":")
-                                : [v, ""];
-                              const simulated: Page = {
-                                ...currentPage!,
-                                pageType: type as Page["pageType"],
-                                coloringStyle:
-                                  (style as Page["coloringStyle"]) ||
-                                  currentPage.coloringStyle,
-                              } as Page;
-                              const sys = computeSystemPrompt(
-                                simulated,
-                                standardsCatalog,
-                              );
-                              setNodePrompts((m) => ({
-                                ...m,
-                                [child.id]: sys,
-                              }));
-                            }}
-                          >
-                            <option value="none">None</option>
-                            <option value={"coloring:classic"}>
-                              Coloring Book — Classic
-                            </option>
-                            <option value={"coloring:anime"}>
-                              Coloring Book — Anime
-                            </option>
-                            <option value={"coloring:retro"}>
-                              Coloring Book — Retro
-                            </option>
-                            <option value={"worksheet"}>
-                              Worksheet — K Math
-                            </option>
-                          </select>
-                        </div>
+                        {/* Prompt Library: sets the page up and fills the
+                            layer's quick prompt */}
+                        <PromptPresetSelect
+                          id="prompt-preset"
+                          presets={promptLibrary.presets}
+                          value={currentPage.promptPresetKey}
+                          onChange={(preset) =>
+                            applyPresetToLayer(child.id, preset)
+                          }
+                          onManage={() => setShowPromptLibrary(true)}
+                        />
                         {/* Compact Knowledge picker (standards) */}
                         <div className="grid gap-1">
                           <label>Knowledge (Standards)</label>
@@ -1496,61 +3220,104 @@ export default function Editor() {
                               <button
                                 className="px-2 py-1 border rounded disabled:opacity-50 w-max"
                                 disabled={generatingAny}
-                                onClick={async () => {
+                                onClick={() => {
+                                  const pageId = currentPageId!;
                                   const promptText = (
                                     nodePrompts[child.id] ?? ""
                                   ).trim();
-                                  try {
-                                    const op = beginPageOp(currentPageId!);
-                                    writeUI(() =>
-                                      setPagePatch(currentPageId!, {
-                                        generating: true,
-                                        status: "Generating text…",
-                                      }),
-                                    );
-                                    const textPrompt = [
-                                      buildInstruction(
-                                        currentPage!,
-                                        promptText,
-                                        "text",
-                                      ),
-                                      "You are updating a single text label on a printable page.",
-                                      "Return only the new text, no commentary.",
-                                      `Current text: "${(child as TextChild).text || ""}"`,
-                                    ].join("\n");
-                                    const out =
-                                      await generateTextContent(textPrompt);
-                                    if (!isPageOpCurrent(currentPageId!, op))
-                                      return;
-                                    const label = cleanSingleLineLabel(out);
-                                    setPagePatch(currentPageId!, {
-                                      children: (
-                                        currentPage?.children || []
-                                      ).map((c) =>
-                                        c.id === child.id
-                                          ? { ...(c as TextChild), text: label }
-                                          : c,
-                                      ),
-                                    });
-                                    writeUI(() =>
-                                      setPagePatch(currentPageId!, {
-                                        generating: false,
-                                        status: "",
-                                      }),
-                                    );
-                                  } catch (err) {
-                                    writeUI(() =>
-                                      setPagePatch(currentPageId!, {
-                                        generating: false,
-                                        status: "",
-                                      }),
-                                    );
-                                    pushToast(
-                                      (err as Error)?.message ||
-                                        "Failed to generate text",
-                                      "error",
-                                    );
-                                  }
+                                  enqueueJob(
+                                    {
+                                      kind: "text",
+                                      pageId,
+                                      prompt: promptText,
+                                      priority: "high",
+                                    },
+                                    async () => {
+                                      const op = beginPageOp(pageId);
+                                      try {
+                                        // Read the page when the job runs, not when it was queued
+                                        const page =
+                                          useEditorStore.getState().pages[
+                                            pageId
+                                          ];
+                                        const current = page?.children.find(
+                                          (c) => c.id === child.id,
+                                        ) as TextChild | undefined;
+                                        if (!page || !current)
+                                          throw new Error(
+                                            "Text layer was removed",
+                                          );
+                                        writeUI(() =>
+                                          setPagePatch(pageId, {
+                                            generating: true,
+                                            status: "Generating text…",
+                                          }),
+                                        );
+                                        const textPrompt = [
+                                          buildInstruction(
+                                            page,
+                                            promptText,
+                                            "text",
+                                          ),
+                                          "You are updating a single text label on a printable page.",
+                                          "Return only the new text, no commentary.",
+                                          `Current text: "${current.text || ""}"`,
+                                        ].join("\n");
+                                        const out = await generateTextContent(
+                                          textPrompt,
+                                          generationOptions(pageId, op),
+                                        );
+                                        if (!isPageOpCurrent(pageId, op))
+                                          return;
+                                        const label = cleanSingleLineLabel(out);
+                                        const latest =
+                                          useEditorStore.getState().pages[
+                                            pageId
+                                          ];
+                                        if (!latest) return;
+                                        const outcome = await commitGenerated(
+                                          pageId,
+                                          op,
+                                          latest,
+                                          {
+                                            ...contentOf(latest),
+                                            children: latest.children.map(
+                                              (c) =>
+                                                c.id === child.id
+                                                  ? {
+                                                      ...(c as TextChild),
+                                                      text: label,
+                                                    }
+                                                  : c,
+                                            ),
+                                          },
+                                          generationOptions(pageId, op),
+                                        );
+                                        if (outcome === "stale") return;
+                                        writeUI(() =>
+                                          setPagePatch(pageId, {
+                                            generating: false,
+                                            status: "",
+                                          }),
+                                        );
+                                      } catch (err) {
+                                        if (!isPageOpCurrent(pageId, op))
+                                          return;
+                                        writeUI(() =>
+                                          setPagePatch(pageId, {
+                                            generating: false,
+                                            status: failureStatus(err),
+                                          }),
+                                        );
+                                        pushToast(
+                                          (err as Error)?.message ||
+                                            "Failed to generate text",
+                                          "error",
+                                        );
+                                        throw err;
+                                      }
+                                    },
+                                  );
                                 }}
                               >
                                 {generatingAny ? "Generating…" : "Generate"}
@@ -1587,25 +3354,31 @@ export default function Editor() {
                                   const input = document.createElement("input");
                                   input.type = "file";
                                   input.accept = "image/*";
-                                  input.onchange = () => {
+                                  input.onchange = async () => {
                                     const file = input.files?.[0];
                                     if (!file) return;
-                                    const url = URL.createObjectURL(file);
-                                    const next = (
-                                      currentPage.children || []
-                                    ).map((c) =>
-                                      c.id === child.id
-                                        ? {
-                                            ...(c as ImageChild),
-                                            src: url,
-                                            placeholder: false,
-                                          }
-                                        : c,
+                                    const pageId = currentPageId!;
+                                    const local = URL.createObjectURL(file);
+                                    const url = await persistImage(local);
+                                    if (url !== local) revokeIfBlob(local);
+                                    const latest =
+                                      useEditorStore.getState().pages[pageId];
+                                    if (!latest) return;
+                                    const next = (latest.children || []).map(
+                                      (c) =>
+                                        c.id === child.id
+                                          ? {
+                                              ...(c as ImageChild),
+                                              src: url,
+                                              placeholder: false,
+                                              provenance: undefined,
+                                            }
+                                          : c,
                                     );
                                     // revoke old blob if present
                                     const old = (child as ImageChild).src;
                                     revokeIfBlob(old);
-                                    setPagePatch(currentPageId!, {
+                                    setPagePatch(pageId, {
                                       children: next,
                                     });
                                   };
@@ -1616,66 +3389,99 @@ export default function Editor() {
                               </button>
                               <button
                                 className="px-2 py-1 border rounded text-xs"
-                                onClick={async () => {
-                                  try {
-                                    setPagePatch(currentPageId!, {
-                                      generating: true,
-                                      status: "Generating image…",
-                                    });
-                                    const instruction = buildInstruction(
-                                      currentPage!,
-                                      nodePrompts[child.id] ?? "",
-                                      "image",
-                                    );
-                                    const ic = child as ImageChild;
-                                    let url: string;
-                                    if (ic.src) {
-                                      const b64 = await blobUrlToPngBase64(
-                                        ic.src,
-                                      );
-                                      url = await transformImageWithPrompt(
-                                        b64,
-                                        instruction,
+                                onClick={() => {
+                                  const pageId = currentPageId!;
+                                  const promptText =
+                                    nodePrompts[child.id] ?? "";
+                                  enqueueJob(
+                                    {
+                                      kind: "image",
+                                      pageId,
+                                      prompt: promptText,
+                                      priority: "high",
+                                    },
+                                    async () => {
+                                      const op = beginPageOp(pageId);
+                                      const opts = generationOptions(
+                                        pageId,
+                                        op,
                                       );
-                                    } else {
-                                      url =
-                                        await generateColoringBookImage(
-                                          instruction,
+                                      try {
+                                        // Read the page when the job runs, not when it was queued
+                                        const page =
+                                          useEditorStore.getState().pages[
+                                            pageId
+                                          ];
+                                        const ic = page?.children.find(
+                                          (c) => c.id === child.id,
+                                        ) as ImageChild | undefined;
+                                        if (!page || !ic)
+                                          throw new Error(
+                                            "Image layer was removed",
+                                          );
+                                        setPagePatch(pageId, {
+                                          generating: true,
+                                          status: "Generating image…",
+                                        });
+                                        const { url, provenance } =
+                                          await runImageOperation(
+                                            {
+                                              operation: ic.src
+                                                ? "transform"
+                                                : "generate",
+                                              instruction: buildInstruction(
+                                                page,
+                                                promptText,
+                                                "image",
+                                              ),
+                                              sourceImageUrl:
+                                                ic.src &&
+                                                (await persistImage(ic.src)),
+                                            },
+                                            opts,
+                                          );
+                                        // Fit generated image to this node's rectangle (trim borders, preserve aspect)
+                                        const fitted = await persistImage(
+                                          await fitImageToRect(
+                                            url,
+                                            ic.width,
+                                            ic.height,
+                                            opts.signal,
+                                          ),
                                         );
-                                    }
-                                    // Fit generated image to this node's rectangle (trim borders, preserve aspect)
-                                    const fitted = await fitImageToRect(
-                                      url,
-                                      child.width,
-                                      child.height,
-                                    );
-                                    const next = (
-                                      currentPage.children || []
-                                    ).map((c) =>
-                                      c.id === child.id
-                                        ? {
-                                            ...(c as ImageChild),
-                                            src: fitted,
-                                            placeholder: false,
-                                          }
-                                        : c,
-                                    );
-                                    setPagePatch(currentPageId!, {
-                                      children: next,
-                                      generating: false,
-                                      status: "",
-                                    });
-                                  } catch (err) {
-                                    setPagePatch(currentPageId!, {
-                                      generating: false,
-                                      status: "",
-                                    });
-                                    pushToast(
-                                      (err as Error)?.message ||
-                                        "Failed to generate image",
-                                      "error",
-                                    );
-                                  }
+                                        revokeIfBlob(url);
+                                        if (!isPageOpCurrent(pageId, op))
+                                          return;
+                                        const outcome =
+                                          await applyGeneratedImage(
+                                            pageId,
+                                            op,
+                                            child.id,
+                                            fitted,
+                                            provenance,
+                                            opts,
+                                          );
+                                        if (outcome === "stale") return;
+                                        setPagePatch(pageId, {
+                                          generating: false,
+                                          status: "",
+                                        });
+                                      } catch (err) {
+                                        if (!isPageOpCurrent(pageId, op))
+                                          return;
+                                        setPagePatch(pageId, {
+                                          generating: false,
+                                          status: failureStatus(err),
+                                        });
+                                        pushToast(
+                                          (err as Error)?.message ||
+                                            "Failed to generate image",
+                                          "error",
+                                        );
+                                        throw err;
+                                      }
+                                    },
+                                  );
                                 }}
                               >
                                 Generate
@@ -1689,6 +3495,75 @@ export default function Editor() {
                 </section>
               ) : null}
 
+              {(() => {
+                const taskId = currentPage.children.find(
+                  (c) => c.id === currentPage.selectedChildId,
+                )?.taskId;
+                const tasks = currentPage.worksheetSpec?.tasks || [];
+                const index = tasks.findIndex((t) => t.id === taskId);
+                if (!taskId || index < 0) return null;
+                const pageId = currentPage.id;
+                const run = (replace: boolean) =>
+                  enqueueJob(
+                    {
+                      kind: "worksheet",
+                      pageId,
+                      prompt: tasks[index].prompt,
+                      priority: "high",
+                    },
+                    () => regenerateTask(pageId, taskId, replace),
+                  );
+                return (
+                  <WorksheetTaskDetails
+                    task={tasks[index]}
+                    index={index}
+                    busy={!!currentPage.generating}
+                    onChange={(patch) =>
+                      setPagePatch(
+                        pageId,
+                        patchTask(currentPage, taskId, patch),
+                      )
+                    }
+                    onRedraw={() => run(false)}
+                    onReplace={() => run(true)}
+                  />
+                );
+              })()}
+
+              {(() => {
+                const child = currentPage.selectedChildId
+                  ? currentPage.children.find(
+                      (c) => c.id === currentPage.selectedChildId,
+                    )
+                  : undefined;
+                const provenance = child
+                  ? child.type === "image"
+                    ? (child as ImageChild).provenance
+                    : undefined
+                  : currentPage.provenance;
+                if (!provenance) return null;
+                const pageId = currentPage.id;
+                const childId = child?.id ?? null;
+                return (
+                  <ProvenanceDetails
+                    provenance={provenance}
+                    busy={!!currentPage.generating}
+                    onSelectPage={(id) => actions.setCurrentPage(id)}
+                    onRerun={() =>
+                      enqueueJob(
+                        {
+                          kind: "rerun",
+                          pageId,
+                          prompt: provenance.instruction,
+                          priority: "high",
+                        },
+                        () => rerunGeneration(pageId, childId),
+                      )
+                    }
+                  />
+                );
+              })()}
+
               {/* Import (page only) */}
               {!currentPage.selectedChildId && (
                 <section>
@@ -1699,14 +3574,16 @@ export default function Editor() {
                     <input
                       type="file"
                       accept="image/*"
-                      onChange={(e) => {
+                      onChange={async (e) => {
                         const f = e.currentTarget.files?.[0];
                         if (!f) return;
                         if (f.size > 8 * 1024 * 1024) {
                           pushToast("File too large (max 8 MB)", "error");
                           return;
                         }
-                        const url = URL.createObjectURL(f);
+                        const local = URL.createObjectURL(f);
+                        const url = await persistImage(local);
+                        if (url !== local) revokeIfBlob(local);
                         const prev = currentPageId
                           ? useEditorStore.getState().pages[currentPageId]
                           : undefined;
@@ -1715,6 +3592,7 @@ export default function Editor() {
                         setPagePatch(currentPageId!, {
                           originalImageUrl: url,
                           imageUrl: url,
+                          provenance: undefined,
                         });
                         void applyThreshold(
                           currentPageId!,
@@ -1763,7 +3641,28 @@ export default function Editor() {
               value={branchPrompt}
               onChange={(e) => setBranchPrompt(e.target.value)}
             />
-            <div className="flex justify-end gap-2 mt-3">
+            <div className="flex items-center justify-end gap-2 mt-3">
+              <label
+                className="text-xs text-slate-600 flex items-center gap-1 mr-auto"
+                title="Generate several variants side by side and keep the ones you like"
+              >
+                Candidates
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CANDIDATES}
+                  className="border rounded w-14 px-1 py-0.5"
+                  value={branchCount}
+                  onChange={(e) =>
+                    setBranchCount(
+                      Math.min(
+                        MAX_CANDIDATES,
+                        Math.max(1, Math.round(Number(e.target.value) || 1)),
+                      ),
+                    )
+                  }
+                />
+              </label>
               <button
                 className="px-2 py-1 border rounded"
                 onClick={() => {
@@ -1780,75 +3679,78 @@ export default function Editor() {
                   const p = branchPrompt.trim();
                   setBranchingParentId(null);
                   setBranchPrompt("");
-                  if (pid && p) void branchFromWithPrompt(pid, p);
+                  if (!pid || !p) return;
+                  if (branchCount > 1) generateCandidates(pid, p, branchCount);
+                  else void branchFromWithPrompt(pid, p);
                 }}
               >
-                Create Variant
+                {branchCount > 1 ? "Create Variants" : "Create Variant"}
               </button>
             </div>
           </div>
         </div>
       )}
+      {candidates && (
+        <CandidatesDialog
+          parentTitle={
+            pages.find((p) => p.id === candidates.parentId)?.title ?? ""
+          }
+          prompt={candidates.prompt}
+          candidates={candidates.items}
+          keeping={keepingCandidates}
+          onToggle={(id) =>
+            setCandidates((cs) =>
+              cs
+                ? {
+                    ...cs,
+                    items: cs.items.map((c) =>
+                      c.id === id && c.page
+                        ? { ...c, selected: !c.selected }
+                        : c,
+                    ),
+                  }
+                : cs,
+            )
+          }
+          onKeep={() => void keepCandidates()}
+          onDiscard={closeCandidates}
+        />
+      )}
+      {showCheckpoints && (
+        <CheckpointsDialog
+          checkpoints={checkpoints}
+          onRestore={restoreCheckpoint}
+          onClose={() => setShowCheckpoints(false)}
+          onError={(msg) => pushToast(msg, "error")}
+        />
+      )}
+      {showPromptLibrary && (
+        <PromptLibraryDialog
+          library={promptLibrary}
+          page={currentPage ?? null}
+          standardsCatalog={standardsCatalog}
+          onApply={(presetId) => {
+            const preset = promptLibrary.presets.find((p) => p.id === presetId);
+            if (currentPageId && preset)
+              setPagePatch(currentPageId, applyPreset(preset));
+          }}
+          onClose={() => setShowPromptLibrary(false)}
+          onError={(msg) => pushToast(msg, "error")}
+        />
+      )}
+      {showJobs && (
+        <JobsPanel
+          onSelectPage={(id) => {
+            if (useEditorStore.getState().pages[id]) actions.setCurrentPage(id);
+          }}
+          onClose={() => setShowJobs(false)}
+        />
+      )}
       {showSettings && (
-        <div
-          role="dialog"
-          aria-modal
-          className="fixed inset-0 bg-black/40 grid place-items-center"
-        >
-          <div className="bg-white text-black rounded-md shadow-lg p-4 w-[420px] max-w-[90vw]">
-            <h2 className="font-semibold mb-3">Gemini API Key</h2>
-            <p className="text-sm text-slate-600 mb-2">
-              Stored in localStorage (use at your own risk).
-            </p>
-            <input
-              id="apikey"
-              className="border rounded px-2 py-1 w-full mb-2"
-              placeholder="GEMINI_API_KEY"
-              defaultValue={
-                typeof window !== "undefined"
-                  ? localStorage.getItem("CHECKFU_GEMINI_API_KEY") || ""
-                  : ""
-              }
-            />
-            <div className="flex justify-end gap-2">
-              <button
-                className="px-2 py-1 border rounded"
-                onClick={() => {
-                  localStorage.removeItem("CHECKFU_GEMINI_API_KEY");
-                  setShowSettings(false);
-                  window.dispatchEvent(
-                    new StorageEvent("storage", {
-                      key: "CHECKFU_GEMINI_API_KEY",
-                    }),
-                  );
-                }}
-              >
-                Clear
-              </button>
-              <button
-                className="px-2 py-1 border rounded"
-                onClick={() => {
-                  const el = document.getElementById(
-                    "apikey",
-                  ) as HTMLInputElement | null;
-                  if (el)
-                    localStorage.setItem(
-                      "CHECKFU_GEMINI_API_KEY",
-                      el.value || "",
-                    );
-                  setShowSettings(false);
-                  window.dispatchEvent(
-                    new StorageEvent("storage", {
-                      key: "CHECKFU_GEMINI_API_KEY",
-                    }),
-                  );
-                }}
-              >
-                Save
-              </button>
-            </div>
-          </div>
-        </div>
+        <SettingsDialog
+          projectKey={projectId ?? LOCAL_PROJECT_KEY}
+          onClose={() => setShowSettings(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,202 @@
+"use client";
+
+/**
+ * JobsPanel
+ * Lists the generation job queue (store/useJobStore): queued, running,
+ * failed and completed jobs with their page, prompt and elapsed time.
+ * Queued and running jobs can be cancelled, failed and cancelled ones
+ * retried. Also sets how many jobs run at once.
+ */
+
+import { useEffect, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useEditorStore } from "@/store/useEditorStore";
+import {
+  useJobStore,
+  MAX_CONCURRENCY,
+  type Job,
+  type JobStatus,
+} from "@/store/useJobStore";
+
+const STATUS_LABEL: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  failed: "Failed",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+const STATUS_TONE: Record<JobStatus, string> = {
+  queued: "bg-slate-100 text-slate-700",
+  running: "bg-sky-100 text-sky-800",
+  failed: "bg-red-100 text-red-800",
+  done: "bg-green-100 text-green-800",
+  cancelled: "bg-amber-100 text-amber-900",
+};
+
+const KIND_LABEL: Record<Job["kind"], string> = {
+  branch: "Variant",
+  candidate: "Candidate",
+  text: "Text",
+  image: "Image",
+  mask: "Masked edit",
+  rerun: "Re-run",
+  worksheet: "Worksheet",
+  answerKey: "Answer key",
+  qa: "Quality check",
+  fix: "QA fix",
+};
+
+// Running and queued first (in run order), then the most recent finished
+const ORDER: Record<JobStatus, number> = {
+  running: 0,
+  queued: 1,
+  failed: 2,
+  cancelled: 2,
+  done: 2,
+};
+
+function elapsed(job: Job, now: number): string {
+  const from = job.startedAt ?? job.queuedAt;
+  const to = job.finishedAt ?? now;
+  const secs = Math.max(0, Math.round((to - from) / 1000));
+  return secs < 60 ? `${secs}s` : `${Math.floor(secs / 60)}m ${secs % 60}s`;
+}
+
+export default function JobsPanel({
+  onSelectPage,
+  onClose,
+}: {
+  onSelectPage: (pageId: string) => void;
+  onClose: () => void;
+}) {
+  const jobs = useJobStore((s) => s.jobs);
+  const concurrency = useJobStore((s) => s.concurrency);
+  const { cancel, retry, clearFinished, setConcurrency } = useJobStore(
+    useShallow((s) => ({
+      cancel: s.cancel,
+      retry: s.retry,
+      clearFinished: s.clearFinished,
+      setConcurrency: s.setConcurrency,
+    })),
+  );
+  const titles = useEditorStore(
+    useShallow((s) =>
+      Object.fromEntries(jobs.map((j) => [j.pageId, s.pages[j.pageId]?.title])),
+    ),
+  );
+
+  // Tick while something is queued or running so elapsed times move
+  const active = jobs.some(
+    (j) => j.status === "running" || j.status === "queued",
+  );
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [active]);
+
+  const sorted = [...jobs].sort(
+    (a, b) =>
+      ORDER[a.status] - ORDER[b.status] ||
+      (a.status === "queued" || a.status === "running"
+        ? a.seq - b.seq
+        : (b.finishedAt ?? 0) - (a.finishedAt ?? 0)),
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Jobs"
+      className="fixed bottom-4 right-4 z-40 w-[420px] max-w-[95vw] max-h-[60vh] flex flex-col bg-white text-black rounded-md shadow-lg ring-1 ring-slate-300"
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b">
+        <h2 className="font-semibold text-sm flex-1">Jobs</h2>
+        <label className="text-xs text-slate-600 flex items-center gap-1">
+          At once
+          <select
+            className="border rounded px-1 py-0.5 text-xs"
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(
+              (n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ),
+            )}
+          </select>
+        </label>
+        <button
+          className="px-2 py-0.5 border rounded text-xs disabled:opacity-50"
+          disabled={!jobs.some((j) => ORDER[j.status] === 2)}
+          onClick={clearFinished}
+        >
+          Clear finished
+        </button>
+        <button
+          className="px-2 py-0.5 border rounded text-xs"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+      <ul className="divide-y overflow-auto">
+        {sorted.length === 0 ? (
+          <li className="px-3 py-3 text-xs text-slate-500">No jobs yet</li>
+        ) : (
+          sorted.map((j) => (
+            <li key={j.id} className="px-3 py-2 text-xs flex items-start gap-2">
+              <span
+                className={`shrink-0 px-1.5 py-0.5 rounded ${STATUS_TONE[j.status]}`}
+              >
+                {STATUS_LABEL[j.status]}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1">
+                  <span className="text-slate-500">{KIND_LABEL[j.kind]}</span>
+                  <button
+                    className="font-medium truncate hover:underline disabled:no-underline disabled:text-slate-400"
+                    disabled={!titles[j.pageId]}
+                    title={titles[j.pageId] ?? j.title ?? "Page was deleted"}
+                    onClick={() => onSelectPage(j.pageId)}
+                  >
+                    {titles[j.pageId] ?? j.title ?? "Deleted page"}
+                  </button>
+                  <span className="ml-auto text-slate-500 tabular-nums">
+                    {elapsed(j, now)}
+                  </span>
+                </div>
+                <div className="truncate text-slate-600" title={j.prompt}>
+                  {j.prompt || (
+                    <span className="text-slate-400">No prompt</span>
+                  )}
+                </div>
+                {j.error && (
+                  <div className="text-red-700 break-words">{j.error}</div>
+                )}
+              </div>
+              {j.status === "queued" || j.status === "running" ? (
+                <button
+                  className="shrink-0 px-2 py-0.5 border rounded"
+                  onClick={() => cancel(j.id)}
+                >
+                  Cancel
+                </button>
+              ) : j.status === "failed" || j.status === "cancelled" ? (
+                <button
+                  className="shrink-0 px-2 py-0.5 border rounded"
+                  onClick={() => retry(j.id)}
+                >
+                  Retry
+                </button>
+              ) : null}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
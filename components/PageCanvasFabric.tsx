@@ -1,7 +1,7 @@
 "use client";
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
 import type { TextChild, ImageChild } from "@/store/useEditorStore";
 import { pagePx } from "@/lib/image/pageMetrics";
 import { useHydrationFence } from "@/hooks/useHydrationFence";
@@ -18,6 +18,18 @@ import {
   createTextObject,
 } from "@/lib/fabric/constructors";
 
+export type MaskTool = "brush" | "lasso";
+
+// Mask painting over the page: strokes (brush) or closed shapes (lasso) are
+// painted white on black at page resolution and handed to `onChange` as a
+// PNG data URL (null while nothing is painted). Change `epoch` to clear.
+export type MaskMode = {
+  tool: MaskTool;
+  size: number;
+  epoch: number;
+  onChange: (maskUrl: string | null) => void;
+};
+
 type Props = {
   pageId: string;
   orientation: "portrait" | "landscape";
@@ -25,6 +37,8 @@ type Props = {
   selectedChildId: string | null;
   onChildrenChange: (pageId: string, next: (TextChild | ImageChild)[]) => void;
   onSelectChild: (pageId: string, childId: string | null) => void;
+  // While set, pointer input paints a mask instead of editing layers
+  mask?: MaskMode | null;
 };
 
 export default function PageCanvasFabric(props: Props) {
@@ -35,6 +49,7 @@ export default function PageCanvasFabric(props: Props) {
     selectedChildId,
     onChildrenChange,
     onSelectChild,
+    mask,
   } = props;
   const canvasElRef = useRef<HTMLCanvasElement | null>(null);
   const fabricRef = useRef<any | null>(null);
@@ -91,8 +106,23 @@ export default function PageCanvasFabric(props: Props) {
         // Convert scaling on text into font size to keep a clean model
         canvas.getObjects().forEach(normalizeTextScaling);
 
-        // 1) Read the authoritative state from Fabric
-        const draft = canvas.getObjects().map(fabricToChild);
+        // 1) Read the authoritative state from Fabric, keeping what Fabric
+        // does not know about: the worksheet task of a layer, and the
+        // provenance while the image is the same
+        const prevById = new Map(
+          itemsLatestRef.current.map((c) => [c.id, c] as const),
+        );
+        const draft = canvas.getObjects().map((o: any) => {
+          const c = fabricToChild(o);
+          const prev = prevById.get(c.id);
+          if (prev?.taskId) c.taskId = prev.taskId;
+          return c.type === "image" &&
+            prev?.type === "image" &&
+            prev.provenance &&
+            prev.src === c.src
+            ? { ...c, provenance: prev.provenance }
+            : c;
+        });
 
         // 2) Preserve previous ordering where possible (more stable diffs)
         const prevOrder = new Map<string, number>(
@@ -285,12 +315,151 @@ export default function PageCanvasFabric(props: Props) {
   }, [selectedChildId, items, withHydration]);
 
   return (
-    <canvas
-      ref={canvasElRef}
-      width={dims.w}
-      height={dims.h}
-      aria-label="Page canvas"
-    />
+    <div className="relative" style={{ width: dims.w, height: dims.h }}>
+      <canvas
+        ref={canvasElRef}
+        width={dims.w}
+        height={dims.h}
+        aria-label="Page canvas"
+      />
+      {mask && <MaskLayer key={mask.epoch} w={dims.w} h={dims.h} mode={mask} />}
+    </div>
+  );
+}
+
+// Painted area as shown to the user; the mask itself is kept off screen
+const MASK_TINT = "#ec4899";
+
+function MaskLayer({ w, h, mode }: { w: number; h: number; mode: MaskMode }) {
+  const viewRef = useRef<HTMLCanvasElement | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const lastRef = useRef<{ x: number; y: number } | null>(null);
+  const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null);
+  const onChangeRef = useRef(mode.onChange);
+  onChangeRef.current = mode.onChange;
+
+  // A fresh layer starts with an empty (all black) mask
+  useEffect(() => {
+    const m = document.createElement("canvas");
+    m.width = w;
+    m.height = h;
+    const ctx = m.getContext("2d");
+    if (ctx) {
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(0, 0, w, h);
+    }
+    maskRef.current = m;
+    onChangeRef.current(null);
+  }, [w, h]);
+
+  // Both canvases get the same shapes: white on the mask, tint on screen
+  const paint = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+    const targets: [HTMLCanvasElement | null, string][] = [
+      [maskRef.current, "#ffffff"],
+      [viewRef.current, MASK_TINT],
+    ];
+    for (const [canvas, color] of targets) {
+      const ctx = canvas?.getContext("2d");
+      if (!ctx) continue;
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = mode.size;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      draw(ctx);
+    }
+  };
+
+  // Pointer position in page pixels (the flow may be zoomed)
+  const toPage = (e: PointerEvent) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - r.left) * w) / r.width,
+      y: ((e.clientY - r.top) * h) / r.height,
+    };
+  };
+
+  const finish = () => {
+    lastRef.current = null;
+    onChangeRef.current(maskRef.current?.toDataURL("image/png") ?? null);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 cursor-crosshair nodrag nopan"
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const p = toPage(e);
+        if (mode.tool === "lasso") {
+          setLasso([p]);
+          return;
+        }
+        lastRef.current = p;
+        paint((ctx) => {
+          ctx.beginPath();
+          ctx.arc(p.x, p.y, mode.size / 2, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }}
+      onPointerMove={(e) => {
+        const p = toPage(e);
+        if (mode.tool === "lasso") {
+          if (lasso) setLasso([...lasso, p]);
+          return;
+        }
+        const last = lastRef.current;
+        if (!last) return;
+        paint((ctx) => {
+          ctx.beginPath();
+          ctx.moveTo(last.x, last.y);
+          ctx.lineTo(p.x, p.y);
+          ctx.stroke();
+        });
+        lastRef.current = p;
+      }}
+      onPointerUp={() => {
+        if (mode.tool === "lasso") {
+          const points = lasso;
+          setLasso(null);
+          if (!points || points.length < 3) return;
+          paint((ctx) => {
+            ctx.beginPath();
+            points.forEach((p, i) =>
+              i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y),
+            );
+            ctx.closePath();
+            ctx.fill();
+          });
+          finish();
+          return;
+        }
+        if (lastRef.current) finish();
+      }}
+    >
+      <canvas
+        ref={viewRef}
+        width={w}
+        height={h}
+        className="absolute inset-0 opacity-40 pointer-events-none"
+        aria-label="Mask"
+      />
+      {lasso && (
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width={w}
+          height={h}
+        >
+          <polyline
+            points={lasso.map((p) => `${p.x},${p.y}`).join(" ")}
+            fill="none"
+            stroke={MASK_TINT}
+            strokeWidth={2}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
   );
 }
 
@@ -0,0 +1,38 @@
+"use client";
+
+import type { Peer } from "@/store/usePresenceStore";
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  return (
+    parts
+      .slice(0, 2)
+      .map((p) => p[0]!.toUpperCase())
+      .join("") || "?"
+  );
+}
+
+// Overlapping colored initials, one per collaborator
+export default function PresenceAvatars(props: {
+  peers: Peer[];
+  size?: "sm" | "md";
+  label?: string;
+}) {
+  const { peers, size = "md", label = "People here" } = props;
+  if (!peers.length) return null;
+  const dim = size === "sm" ? "h-5 w-5 text-[9px]" : "h-6 w-6 text-[10px]";
+  return (
+    <div className="flex -space-x-1" aria-label={label}>
+      {peers.map((p) => (
+        <span
+          key={p.sessionId}
+          className={`${dim} rounded-full grid place-items-center font-semibold text-white ring-2 ring-white`}
+          style={{ background: p.color }}
+          title={p.name}
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+    </div>
+  );
+}
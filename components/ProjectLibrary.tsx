@@ -0,0 +1,249 @@
+"use client";
+
+/**
+ * ProjectLibrary
+ * Lists the user's Convex projects as cards (cover = first page's image),
+ * including projects other people shared with them.
+ * - New / Open / Rename / Duplicate / Share / Archive on the main list
+ *   (managing a project is owner-only; shared projects can be opened and
+ *   duplicated)
+ * - "Show archived" switches to archived projects with Restore / Delete
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { UserButton } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import ShareProjectDialog from "@/components/ShareProjectDialog";
+
+type ProjectSummary = {
+  _id: Id<"projects">;
+  title: string;
+  updatedAt: number;
+  pageCount: number;
+  coverUrl?: string;
+  archived: boolean;
+  role: "owner" | "member";
+};
+
+export default function ProjectLibrary() {
+  const router = useRouter();
+  const [showArchived, setShowArchived] = useState(false);
+  const projects = useQuery(api.projects.list, { archived: showArchived });
+  const create = useMutation(api.projects.create);
+  const rename = useMutation(api.projects.rename);
+  const duplicate = useMutation(api.projects.duplicate);
+  const setArchived = useMutation(api.projects.setArchived);
+  const remove = useMutation(api.projects.remove);
+  const [error, setError] = useState<string | null>(null);
+  const [sharing, setSharing] = useState<ProjectSummary | null>(null);
+
+  // Surface mutation failures inline; the list itself stays reactive
+  async function run(fn: () => Promise<unknown>) {
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError((err as Error).message || "Something went wrong");
+    }
+  }
+
+  async function newProject() {
+    await run(async () => {
+      const id = await create({});
+      router.push(`/projects/${id}`);
+    });
+  }
+
+  function renameProject(p: ProjectSummary) {
+    const title = prompt("Project name", p.title);
+    if (title == null || title.trim() === p.title) return;
+    void run(() => rename({ projectId: p._id, title }));
+  }
+
+  function deleteProject(p: ProjectSummary) {
+    if (!confirm(`Delete "${p.title}" forever? This cannot be undone.`)) return;
+    void run(() => remove({ projectId: p._id }));
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="h-14 px-4 border-b border-slate-200 bg-sky-50/60 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <img src="/logo.svg" alt="Checkfu Logo" className="h-6" />
+          <span className="text-sm font-medium">Projects</span>
+          <Link
+            href="/usage"
+            className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+          >
+            Usage
+          </Link>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            Show archived
+          </label>
+          <button
+            className="h-9 px-3 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700"
+            onClick={() => void newProject()}
+          >
+            New Project
+          </button>
+          <UserButton />
+        </div>
+      </header>
+      <main className="p-6">
+        {error && (
+          <div className="mb-4 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+        {projects === undefined ? (
+          <div className="text-sm text-slate-500">Loading…</div>
+        ) : projects.length === 0 ? (
+          <div className="text-sm text-slate-500">
+            {showArchived ? "No archived projects" : "No projects yet"}
+          </div>
+        ) : (
+          <ul className="grid gap-4 grid-cols-[repeat(auto-fill,minmax(200px,1fr))]">
+            {projects.map((p) => (
+              <li
+                key={p._id}
+                className="border rounded-lg bg-white overflow-hidden flex flex-col"
+              >
+                <Link
+                  href={`/projects/${p._id}`}
+                  className="block aspect-[8.5/11] bg-slate-50 border-b"
+                  title={`Open ${p.title}`}
+                >
+                  {p.coverUrl ? (
+                    <img
+                      src={p.coverUrl}
+                      alt=""
+                      className="h-full w-full object-contain"
+                    />
+                  ) : (
+                    <div className="h-full w-full grid place-items-center text-xs text-slate-400">
+                      No pages yet
+                    </div>
+                  )}
+                </Link>
+                <div className="p-3 flex flex-col gap-2">
+                  <div>
+                    <div
+                      className="text-sm font-medium truncate"
+                      title={p.title}
+                    >
+                      {p.title}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {p.pageCount} {p.pageCount === 1 ? "page" : "pages"} ·{" "}
+                      {new Date(p.updatedAt).toLocaleDateString()}
+                      {p.role === "member" && " · Shared with you"}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1 text-xs">
+                    {p.role === "member" ? (
+                      <>
+                        <Link
+                          href={`/projects/${p._id}`}
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                        >
+                          Open
+                        </Link>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() =>
+                            void run(() => duplicate({ projectId: p._id }))
+                          }
+                        >
+                          Duplicate
+                        </button>
+                      </>
+                    ) : p.archived ? (
+                      <>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() =>
+                            void run(() =>
+                              setArchived({
+                                projectId: p._id,
+                                archived: false,
+                              }),
+                            )
+                          }
+                        >
+                          Restore
+                        </button>
+                        <button
+                          className="px-2 py-1 rounded border text-red-600 hover:bg-red-50"
+                          onClick={() => deleteProject(p)}
+                        >
+                          Delete forever
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <Link
+                          href={`/projects/${p._id}`}
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                        >
+                          Open
+                        </Link>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() => renameProject(p)}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() =>
+                            void run(() => duplicate({ projectId: p._id }))
+                          }
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() => setSharing(p)}
+                        >
+                          Share
+                        </button>
+                        <button
+                          className="px-2 py-1 rounded border hover:bg-slate-50"
+                          onClick={() =>
+                            void run(() =>
+                              setArchived({ projectId: p._id, archived: true }),
+                            )
+                          }
+                        >
+                          Archive
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+      {sharing && (
+        <ShareProjectDialog
+          projectId={sharing._id}
+          title={sharing.title}
+          onClose={() => setSharing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+/**
+ * PromptLibraryDialog
+ * Browse the prompt library by folder, save the current page's setup as a
+ * preset, edit or delete saved presets, apply one to the current page, and
+ * import or export the saved presets as a JSON file.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import type { Page } from "@/store/useEditorStore";
+import type { usePromptPresets } from "@/hooks/usePromptPresets";
+import {
+  BUILT_IN_FOLDER,
+  draftOf,
+  groupByFolder,
+  parseLibrary,
+  presetFromPage,
+  serializeLibrary,
+  type PresetDraft,
+} from "@/lib/promptPresets";
+import { templateVariables } from "@/lib/promptTemplate";
+
+export default function PromptLibraryDialog({
+  library,
+  page,
+  standardsCatalog,
+  onApply,
+  onClose,
+  onError,
+}: {
+  library: ReturnType<typeof usePromptPresets>;
+  // The current page, if any: source of new presets, target of Apply
+  page: Page | null;
+  standardsCatalog: { code: string; description: string }[];
+  onApply: (presetId: string) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(
+    page?.promptPresetKey ?? null,
+  );
+  // Edits to the selected preset, or a new preset when selectedId is null
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const groups = useMemo(
+    () => groupByFolder(library.presets),
+    [library.presets],
+  );
+  const folders = groups
+    .map((g) => g.folder)
+    .filter((f) => f && f !== BUILT_IN_FOLDER);
+  const selected = library.presets.find((p) => p.id === selectedId);
+
+  // Show the selected preset; drop it if it was deleted (possibly elsewhere)
+  useEffect(() => {
+    if (selectedId && !library.loading && !selected) setSelectedId(null);
+  }, [library.loading, selected, selectedId]);
+  useEffect(() => {
+    setDraft(selected && !selected.builtIn ? draftOf(selected) : null);
+  }, [selected]);
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const id = await library.save(
+        { ...draft, name: draft.name.trim() || "Preset" },
+        selected && !selected.builtIn ? selected.id : undefined,
+      );
+      setSelectedId(id);
+    } catch (err) {
+      onError((err as Error).message || "Could not save preset");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function exportLibrary() {
+    const url = URL.createObjectURL(serializeLibrary(library.presets));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "prompt-library.json";
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  function importLibrary() {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(await file.text());
+        } catch {
+          throw new Error("The file is not valid JSON");
+        }
+        await library.importPresets(parseLibrary(raw));
+      } catch (err) {
+        onError((err as Error).message || "Could not import presets");
+      }
+    };
+    input.click();
+  }
+
+  const variables = draft
+    ? templateVariables(draft.userPrompt, draft.systemPrompt)
+    : [];
+
+  const set = (patch: Partial<PresetDraft>) =>
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  return (
+    <div
+      role="dialog"
+      aria-modal
+      aria-label="Prompt Library"
+      className="fixed inset-0 bg-black/40 grid place-items-center z-50"
+    >
+      <div className="bg-white text-black rounded-md shadow-lg p-4 w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-semibold">Prompt Library</h2>
+          <div className="flex gap-2">
+            <button
+              className="px-2 py-1 border rounded text-sm"
+              onClick={importLibrary}
+            >
+              Import
+            </button>
+            <button
+              className="px-2 py-1 border rounded text-sm"
+              title="Download the saved presets as JSON"
+              onClick={exportLibrary}
+            >
+              Export
+            </button>
+            <button
+              className="px-2 py-1 border rounded text-sm"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-[260px_1fr] gap-3 min-h-0 flex-1">
+          <div className="border rounded overflow-auto">
+            <button
+              className="w-full text-left px-2 py-2 text-sm text-blue-700 hover:bg-slate-50 border-b disabled:opacity-50"
+              disabled={!page}
+              title={page ? undefined : "Open a page first"}
+              onClick={() => {
+                if (!page) return;
+                setSelectedId(null);
+                setDraft(presetFromPage(page, `${page.title} preset`, ""));
+              }}
+            >
+              + Save current page as preset
+            </button>
+            {groups.map((g) => (
+              <div key={g.folder}>
+                <div className="px-2 pt-2 text-xs font-medium text-slate-500">
+                  {g.folder || "No folder"}
+                </div>
+                <ul>
+                  {g.presets.map((p) => (
+                    <li key={p.id}>
+                      <button
+                        className={`w-full text-left px-2 py-1 text-sm truncate hover:bg-slate-50 ${
+                          selectedId === p.id ? "bg-blue-50" : ""
+                        }`}
+                        title={p.name}
+                        onClick={() => setSelectedId(p.id)}
+                      >
+                        {p.name}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {library.loading && (
+              <div className="px-2 py-3 text-xs text-slate-500">Loading…</div>
+            )}
+          </div>
+          <div className="border rounded p-3 overflow-auto text-sm">
+            {selected?.builtIn ? (
+              <div className="grid gap-2">
+                <div className="font-medium">{selected.name}</div>
+                <p className="text-xs text-slate-500">
+                  Built-in preset: sets the page type and style and uses the
+                  generated system prompt. Save the page as a preset to keep
+                  your own version.
+                </p>
+              </div>
+            ) : draft ? (
+              <div className="grid gap-2">
+                <label className="grid gap-1">
+                  <span className="text-xs">Name</span>
+                  <input
+                    className="border rounded px-2 py-1"
+                    value={draft.name}
+                    onChange={(e) => set({ name: e.target.value })}
+                  />
+                </label>
+                <label className="grid gap-1">
+                  <span className="text-xs">Folder</span>
+                  <input
+                    className="border rounded px-2 py-1"
+                    list="prompt-library-folders"
+                    placeholder="No folder"
+                    value={draft.folder}
+                    onChange={(e) => set({ folder: e.target.value })}
+                  />
+                  <datalist id="prompt-library-folders">
+                    {folders.map((f) => (
+                      <option key={f} value={f} />
+                    ))}
+                  </datalist>
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="grid gap-1">
+                    <span className="text-xs">Type</span>
+                    <select
+                      className="border rounded px-2 py-1"
+                      value={draft.pageType}
+                      onChange={(e) =>
+                        set({
+                          pageType: e.target.value as PresetDraft["pageType"],
+                        })
+                      }
+                    >
+                      <option value="coloring">Coloring Book</option>
+                      <option value="worksheet">Worksheet — K Math</option>
+                    </select>
+                  </label>
+                  <label className="grid gap-1">
+                    <span className="text-xs">Style</span>
+                    <select
+                      className="border rounded px-2 py-1"
+                      value={draft.coloringStyle || "classic"}
+                      onChange={(e) =>
+                        set({
+                          coloringStyle: e.target
+                            .value as PresetDraft["coloringStyle"],
+                        })
+                      }
+                    >
+                      <option value="classic">Classic</option>
+                      <option value="anime">Anime</option>
+                      <option value="retro">Retro</option>
+                    </select>
+                  </label>
+                </div>
+                <label className="grid gap-1">
+                  <span className="text-xs">Standards</span>
+                  <select
+                    multiple
+                    className="border rounded px-2 py-1 h-24 text-xs"
+                    value={draft.standards}
+                    onChange={(e) =>
+                      set({
+                        standards: Array.from(
+                          e.target.selectedOptions,
+                          (o) => o.value,
+                        ),
+                      })
+                    }
+                  >
+                    {standardsCatalog.map((s) => (
+                      <option key={s.code} value={s.code}>
+                        {s.code} — {s.description}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-1">
+                  <span className="text-xs">
+                    System prompt (empty: generated from type, style and
+                    standards)
+                  </span>
+                  <textarea
+                    className="border rounded px-2 py-1 h-24 text-xs"
+                    value={draft.systemPrompt}
+                    onChange={(e) => set({ systemPrompt: e.target.value })}
+                  />
+                </label>
+                <label className="grid gap-1">
+                  <span className="text-xs">Default prompt</span>
+                  <textarea
+                    className="border rounded px-2 py-1 h-16 text-xs"
+                    value={draft.userPrompt}
+                    onChange={(e) => set({ userPrompt: e.target.value })}
+                  />
+                </label>
+                {variables.length > 0 && (
+                  <p className="text-xs text-slate-500">
+                    Variables: {variables.join(", ")} ·{" "}
+                    {draft.variableRows?.length || 0} rows of values (edit them
+                    on a page, then save the page as a preset)
+                  </p>
+                )}
+                <div className="flex justify-end gap-2 mt-1">
+                  {selected && (
+                    <button
+                      className="px-2 py-1 border rounded text-red-600"
+                      onClick={() => {
+                        if (!confirm(`Delete preset "${selected.name}"?`))
+                          return;
+                        void library
+                          .remove(selected.id)
+                          .catch((err) =>
+                            onError(
+                              (err as Error).message ||
+                                "Could not delete preset",
+                            ),
+                          );
+                      }}
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    className="px-2 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+                    disabled={saving}
+                    onClick={() => void save()}
+                  >
+                    {saving ? "Saving…" : selected ? "Save" : "Save Preset"}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-slate-500">
+                Select a preset, or save the current page as one.
+              </div>
+            )}
+            {selected && page && (
+              <div className="flex justify-end mt-2">
+                <button
+                  className="px-2 py-1 border rounded bg-blue-50"
+                  onClick={() => onApply(selected.id)}
+                >
+                  Apply to “{page.title}”
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+/**
+ * PromptPresetSelect
+ * The inspector's Prompt Library picker: the library's presets grouped by
+ * folder, and a button that opens the library to manage them.
+ */
+
+import { groupByFolder, type PromptPreset } from "@/lib/promptPresets";
+
+export default function PromptPresetSelect({
+  id,
+  presets,
+  value,
+  onChange,
+  onManage,
+}: {
+  id: string;
+  presets: PromptPreset[];
+  // Page.promptPresetKey
+  value: string | null | undefined;
+  onChange: (preset: PromptPreset | null) => void;
+  onManage: () => void;
+}) {
+  const known = !!value && presets.some((p) => p.id === value);
+  return (
+    <div className="grid gap-1">
+      <div className="flex items-center justify-between">
+        <label htmlFor={id}>Prompt Library</label>
+        <button
+          className="text-xs text-blue-700 hover:underline"
+          onClick={onManage}
+        >
+          Manage…
+        </button>
+      </div>
+      <select
+        id={id}
+        className="border rounded px-2 py-1"
+        value={known ? value! : "none"}
+        onChange={(e) => {
+          const v = e.currentTarget.value;
+          onChange(presets.find((p) => p.id === v) ?? null);
+        }}
+      >
+        <option value="none">None</option>
+        {groupByFolder(presets).map((g) => (
+          <optgroup key={g.folder} label={g.folder || "No folder"}>
+            {g.presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
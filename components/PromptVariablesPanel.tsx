@@ -0,0 +1,129 @@
+"use client";
+
+/**
+ * PromptVariablesPanel
+ * Inspector section for the page's prompt template: the prompt with its
+ * `{{name}}` placeholders and a table with a value per placeholder in each
+ * row (lib/promptTemplate.ts). "Generate Batch" branches one child page per
+ * complete row.
+ */
+
+import { rowComplete, templateVariables } from "@/lib/promptTemplate";
+import type { Page, VariableRow } from "@/store/useEditorStore";
+
+export default function PromptVariablesPanel({
+  page,
+  busy,
+  showPrompt,
+  onPromptChange,
+  onRowsChange,
+  onGenerateBatch,
+}: {
+  page: Page;
+  busy: boolean;
+  // Off where another section already edits the prompt
+  showPrompt: boolean;
+  onPromptChange: (prompt: string) => void;
+  onRowsChange: (rows: VariableRow[]) => void;
+  onGenerateBatch: () => void;
+}) {
+  const variables = templateVariables(
+    page.prompt,
+    page.systemPromptEdited ? page.systemPrompt : "",
+  );
+  const rows = page.variableRows || [];
+  const ready = rows.filter((r) => rowComplete(variables, r)).length;
+  const setCell = (i: number, name: string, value: string) =>
+    onRowsChange(rows.map((r, j) => (j === i ? { ...r, [name]: value } : r)));
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700">Prompt Template</h3>
+      <div className="mt-2 grid gap-2">
+        {showPrompt && (
+          <>
+            <label htmlFor="template-prompt">Prompt</label>
+            <textarea
+              id="template-prompt"
+              className="border rounded px-2 py-1 h-16"
+              placeholder="e.g. count {{n}} {{animal}}"
+              value={page.prompt ?? ""}
+              onChange={(e) => onPromptChange(e.target.value)}
+            />
+          </>
+        )}
+        {variables.length === 0 ? (
+          <p className="text-xs text-slate-600">
+            Write <code>{"{{name}}"}</code> in the prompt for a value that
+            changes from page to page, then fill in a row per page.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-auto">
+              <table className="text-xs w-full">
+                <thead>
+                  <tr>
+                    {variables.map((v) => (
+                      <th key={v} className="text-left font-medium px-1">
+                        {v}
+                      </th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r, i) => (
+                    <tr key={i}>
+                      {variables.map((v) => (
+                        <td key={v} className="px-1 py-0.5">
+                          <input
+                            className="border rounded px-1 py-0.5 w-full min-w-[4rem]"
+                            aria-label={`${v}, row ${i + 1}`}
+                            value={r[v] ?? ""}
+                            onChange={(e) => setCell(i, v, e.target.value)}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1">
+                        <button
+                          className="text-slate-500 hover:text-red-600"
+                          aria-label={`Remove row ${i + 1}`}
+                          onClick={() =>
+                            onRowsChange(rows.filter((_, j) => j !== i))
+                          }
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-2">
+              <button
+                className="px-2 py-1 border rounded text-xs"
+                onClick={() => onRowsChange([...rows, {}])}
+              >
+                Add Row
+              </button>
+              <button
+                className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+                disabled={busy || !ready}
+                title="Branch a child page for each complete row and generate it"
+                onClick={onGenerateBatch}
+              >
+                Generate Batch ({ready})
+              </button>
+            </div>
+            {ready < rows.length && (
+              <p className="text-xs text-slate-600">
+                Rows with an empty value are skipped.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+/**
+ * ProvenanceDetails
+ * Inspector section showing how a page background or image layer was last
+ * generated (store/useEditorStore Provenance): operation, model, parent
+ * page, when and how long, the source image and the full instruction.
+ * Offers re-running the same generation.
+ */
+
+import { useEditorStore, type Provenance } from "@/store/useEditorStore";
+
+const OPERATION_LABEL: Record<Provenance["operation"], string> = {
+  generate: "Generated",
+  transform: "Refined from an image",
+  mask: "Masked edit",
+};
+
+function duration(ms: number): string {
+  const secs = ms / 1000;
+  return secs < 60
+    ? `${secs.toFixed(1)}s`
+    : `${Math.floor(secs / 60)}m ${Math.round(secs % 60)}s`;
+}
+
+export default function ProvenanceDetails({
+  provenance,
+  busy,
+  onRerun,
+  onSelectPage,
+}: {
+  provenance: Provenance;
+  busy: boolean;
+  onRerun: () => void;
+  onSelectPage: (pageId: string) => void;
+}) {
+  const parentTitle = useEditorStore((s) =>
+    provenance.parentPageId
+      ? s.pages[provenance.parentPageId]?.title
+      : undefined,
+  );
+  const p = provenance;
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700">Provenance</h3>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-slate-500">Operation</dt>
+        <dd>{OPERATION_LABEL[p.operation]}</dd>
+        <dt className="text-slate-500">Model</dt>
+        <dd className="break-all">
+          {p.model} <span className="text-slate-500">({p.provider})</span>
+        </dd>
+        {p.parentPageId && (
+          <>
+            <dt className="text-slate-500">From page</dt>
+            <dd>
+              {parentTitle ? (
+                <button
+                  className="underline"
+                  onClick={() => onSelectPage(p.parentPageId!)}
+                >
+                  {parentTitle}
+                </button>
+              ) : (
+                <span className="text-slate-400">Deleted page</span>
+              )}
+            </dd>
+          </>
+        )}
+        <dt className="text-slate-500">When</dt>
+        <dd>{new Date(p.createdAt).toLocaleString()}</dd>
+        <dt className="text-slate-500">Took</dt>
+        <dd>{duration(p.durationMs)}</dd>
+      </dl>
+      {(p.sourceImageUrl || p.maskUrl) && (
+        <div className="mt-2 flex gap-2">
+          {p.sourceImageUrl && (
+            <figure className="text-[10px] text-slate-500">
+              <img
+                src={p.sourceImageUrl}
+                alt="Source image"
+                className="h-20 w-auto border bg-white"
+              />
+              <figcaption>Source</figcaption>
+            </figure>
+          )}
+          {p.maskUrl && (
+            <figure className="text-[10px] text-slate-500">
+              <img
+                src={p.maskUrl}
+                alt="Mask"
+                className="h-20 w-auto border bg-black"
+              />
+              <figcaption>Mask</figcaption>
+            </figure>
+          )}
+        </div>
+      )}
+      <details className="mt-2 text-xs">
+        <summary className="cursor-pointer text-slate-600">Instruction</summary>
+        <pre className="mt-1 p-2 whitespace-pre-wrap break-words bg-white border rounded max-h-48 overflow-auto">
+          {p.instruction}
+        </pre>
+      </details>
+      <button
+        className="mt-2 px-2 py-1 border rounded text-xs disabled:opacity-50"
+        disabled={busy}
+        title="Run the same request again (with the current provider) and replace the image"
+        onClick={onRerun}
+      >
+        Re-run with same settings
+      </button>
+    </section>
+  );
+}
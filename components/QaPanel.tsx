@@ -0,0 +1,80 @@
+"use client";
+
+/**
+ * QaPanel
+ * Inspector section with the quality checklist of the page's last
+ * generation (lib/qa.ts): each rule with its pass/warn/fail badge and what
+ * was found. Checks again, or regenerates the page with the failures fed
+ * back into the prompt.
+ */
+
+import { qaFeedback } from "@/lib/qa";
+import type { PageQa, QaCheck } from "@/store/useEditorStore";
+
+export const QA_BADGE: Record<
+  QaCheck["status"],
+  { label: string; tone: string }
+> = {
+  pass: { label: "Pass", tone: "bg-green-100 text-green-800" },
+  warn: { label: "Warn", tone: "bg-amber-100 text-amber-900" },
+  fail: { label: "Fail", tone: "bg-red-100 text-red-800" },
+};
+
+export default function QaPanel({
+  qa,
+  busy,
+  onRecheck,
+  onFix,
+}: {
+  qa: PageQa;
+  busy: boolean;
+  onRecheck: () => void;
+  onFix: () => void;
+}) {
+  // Checks that could not run give the model nothing to fix
+  const problems = !!qaFeedback(qa);
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700">Quality Checks</h3>
+      <ul className="mt-2 grid gap-1 text-xs">
+        {qa.checks.map((c) => (
+          <li key={c.id} className="flex items-start gap-2">
+            <span
+              className={`shrink-0 w-10 text-center px-1 py-0.5 rounded ${QA_BADGE[c.status].tone}`}
+            >
+              {QA_BADGE[c.status].label}
+            </span>
+            <span>
+              {c.label}
+              {c.detail && (
+                <span className="block text-slate-500 break-words">
+                  {c.detail}
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-1 text-[10px] text-slate-500">
+        Checked {new Date(qa.checkedAt).toLocaleString()}
+      </p>
+      <div className="mt-2 flex gap-2">
+        <button
+          className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+          disabled={busy}
+          onClick={onRecheck}
+        >
+          Check Again
+        </button>
+        <button
+          className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+          disabled={busy || !problems}
+          title="Generate this page again, telling the model what failed"
+          onClick={onFix}
+        >
+          Regenerate with Fixes
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+/**
+ * RequireAuth
+ * Renders its children once Convex has accepted the Clerk session, so
+ * queries never run before the auth token is attached. The middleware has
+ * already sent signed-out visitors to sign in.
+ */
+
+import type { ReactNode } from "react";
+import { useConvexAuth } from "convex/react";
+import { SignInButton } from "@clerk/nextjs";
+
+export default function RequireAuth({ children }: { children: ReactNode }) {
+  const { isLoading, isAuthenticated } = useConvexAuth();
+  if (isLoading)
+    return (
+      <div className="h-screen w-screen grid place-items-center text-sm text-slate-500">
+        Loading…
+      </div>
+    );
+  if (!isAuthenticated)
+    return (
+      <div className="h-screen w-screen flex flex-col items-center justify-center gap-3 text-slate-600">
+        <p>Sign in to open your projects.</p>
+        <SignInButton mode="modal">
+          <button className="h-9 px-3 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700">
+            Sign in
+          </button>
+        </SignInButton>
+      </div>
+    );
+  return <>{children}</>;
+}
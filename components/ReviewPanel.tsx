@@ -0,0 +1,80 @@
+"use client";
+
+/**
+ * ReviewPanel
+ * Inspector section for a generated result moderation held back
+ * (lib/moderation.ts): shows why it was flagged and a preview of the page
+ * as it would look, and lets the teacher apply it or throw it away.
+ */
+
+import { useEffect, useState } from "react";
+import { flattenPageToPng } from "@/lib/pdf";
+import type { Page, PageReview } from "@/store/useEditorStore";
+
+export default function ReviewPanel({
+  page,
+  review,
+  onApprove,
+  onReject,
+}: {
+  page: Page;
+  review: PageReview;
+  onApprove: () => void;
+  onReject: () => void;
+}) {
+  const [preview, setPreview] = useState<string | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    flattenPageToPng({ ...page, ...review })
+      .then((url) => {
+        if (!cancelled) setPreview(url);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+    // Only re-render the preview when the held result changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [review]);
+
+  return (
+    <section className="rounded-md p-2 bg-rose-50 ring-1 ring-rose-300">
+      <h3 className="text-sm font-semibold text-rose-900">
+        Needs teacher review
+      </h3>
+      <p className="mt-1 text-xs text-rose-900">
+        This generation was held back instead of being applied.
+      </p>
+      <ul className="mt-2 list-disc pl-4 text-xs text-rose-900">
+        {review.reasons.map((r, i) => (
+          <li key={i} className="break-words">
+            {r}
+          </li>
+        ))}
+      </ul>
+      <div className="mt-2 aspect-[8.5/11] border bg-white grid place-items-center overflow-hidden">
+        {preview ? (
+          <img
+            src={preview}
+            alt="Held result"
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <span className="text-xs text-slate-400">Rendering preview…</span>
+        )}
+      </div>
+      <div className="mt-2 flex gap-2">
+        <button
+          className="px-2 py-1 rounded bg-rose-700 text-white text-xs"
+          onClick={onApprove}
+        >
+          Approve and Apply
+        </button>
+        <button className="px-2 py-1 border rounded text-xs" onClick={onReject}>
+          Reject
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+/**
+ * SettingsDialog
+ * Generation settings for the open project (or the local "try it"
+ * workspace): which provider it uses, what that provider can do, and the
+ * provider's per-browser settings. Gemini runs through the Checkfu server
+ * unless local-key mode is on. Kid-safety moderation settings are per
+ * browser too. Fixtures record or replay requests (dev).
+ */
+
+import { useState } from "react";
+import {
+  PROVIDERS,
+  getProvider,
+  readProjectProvider,
+  readProviderSettings,
+  writeProjectProvider,
+  writeProviderSettings,
+  readFixtureMode,
+  writeFixtureMode,
+  type FixtureMode,
+  type ProviderCapabilities,
+  type ProviderId,
+  type ProviderSettings,
+} from "@/lib/providers";
+import {
+  isLocalKeyMode,
+  LOCAL_API_KEY_KEY,
+  LOCAL_KEY_MODE_KEY,
+} from "@/lib/providers/gemini";
+import {
+  readModerationSettings,
+  writeModerationSettings,
+} from "@/lib/moderation";
+
+const CAPABILITY_LABELS: [keyof ProviderCapabilities, string][] = [
+  ["generate", "Generate"],
+  ["transform", "Refine"],
+  ["maskEdit", "Masked edits"],
+  ["text", "Text"],
+];
+
+function initialSettings(): Record<ProviderId, ProviderSettings> {
+  return Object.fromEntries(
+    PROVIDERS.map((p) => [p.id, readProviderSettings(p)]),
+  ) as Record<ProviderId, ProviderSettings>;
+}
+
+export default function SettingsDialog({
+  projectKey,
+  onClose,
+}: {
+  projectKey: string;
+  onClose: () => void;
+}) {
+  const [providerId, setProviderId] = useState<ProviderId>(() =>
+    readProjectProvider(projectKey),
+  );
+  const [settings, setSettings] = useState(initialSettings);
+  const [localKeyMode, setLocalKeyMode] = useState(isLocalKeyMode);
+  const [geminiKey, setGeminiKey] = useState(
+    () => localStorage.getItem(LOCAL_API_KEY_KEY) || "",
+  );
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>(readFixtureMode);
+  const [moderation, setModeration] = useState(readModerationSettings);
+  // One blocklist entry per line while editing
+  const [blocklist, setBlocklist] = useState(() =>
+    moderation.blocklist.join("\n"),
+  );
+  const provider = getProvider(providerId);
+
+  function save() {
+    writeProjectProvider(projectKey, providerId);
+    writeFixtureMode(fixtureMode);
+    writeModerationSettings({
+      ...moderation,
+      blocklist: blocklist
+        .split("\n")
+        .map((w) => w.trim())
+        .filter(Boolean),
+    });
+    for (const p of PROVIDERS)
+      if (p.settings.length) writeProviderSettings(p.id, settings[p.id]);
+    if (localKeyMode) {
+      localStorage.setItem(LOCAL_KEY_MODE_KEY, "local");
+      localStorage.setItem(LOCAL_API_KEY_KEY, geminiKey);
+    } else {
+      // Leaving local-key mode also forgets the browser key
+      localStorage.removeItem(LOCAL_KEY_MODE_KEY);
+      localStorage.removeItem(LOCAL_API_KEY_KEY);
+    }
+    window.dispatchEvent(
+      new StorageEvent("storage", { key: LOCAL_KEY_MODE_KEY }),
+    );
+    onClose();
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal
+      aria-label="Settings"
+      className="fixed inset-0 bg-black/40 grid place-items-center z-50"
+    >
+      <div className="bg-white text-black rounded-md shadow-lg p-4 w-[460px] max-w-[90vw] max-h-[90vh] overflow-auto">
+        <h2 className="font-semibold mb-3">Settings</h2>
+        <label className="block text-sm mb-1" htmlFor="provider">
+          Provider for this project
+        </label>
+        <select
+          id="provider"
+          className="border rounded px-2 py-1 w-full mb-1 text-sm"
+          value={providerId}
+          onChange={(e) => setProviderId(e.target.value as ProviderId)}
+        >
+          {PROVIDERS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-600 mb-2">{provider.description}</p>
+        <div className="flex flex-wrap gap-1 mb-3 text-[11px]">
+          {CAPABILITY_LABELS.map(([key, label]) => (
+            <span
+              key={key}
+              className={`px-1.5 py-0.5 rounded border ${
+                provider.capabilities[key]
+                  ? "border-green-300 bg-green-50 text-green-800"
+                  : "border-slate-200 bg-slate-50 text-slate-400 line-through"
+              }`}
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+
+        {provider.id === "gemini" ? (
+          <>
+            <p className="text-sm text-slate-600 mb-2">
+              Generation runs through the Checkfu server, which holds the Gemini
+              API key.
+            </p>
+            <label className="flex items-center gap-2 text-sm mb-2">
+              <input
+                type="checkbox"
+                checked={localKeyMode}
+                onChange={(e) => setLocalKeyMode(e.target.checked)}
+              />
+              Use my own API key in this browser (local-key mode)
+            </label>
+            {localKeyMode && (
+              <>
+                <p className="text-xs text-amber-700 mb-2">
+                  The key is stored in localStorage and sent to Gemini straight
+                  from this browser. Use at your own risk.
+                </p>
+                <input
+                  className="border rounded px-2 py-1 w-full mb-2"
+                  placeholder="GEMINI_API_KEY"
+                  value={geminiKey}
+                  onChange={(e) => setGeminiKey(e.target.value)}
+                />
+              </>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-amber-700 mb-2">
+              These settings are stored in this browser and requests go straight
+              from it to the provider, outside Checkfu quotas.
+            </p>
+            {provider.settings.map((f) => (
+              <label key={f.key} className="block text-sm mb-2">
+                {f.label}
+                <input
+                  type={f.type}
+                  className="border rounded px-2 py-1 w-full"
+                  placeholder={f.placeholder ?? f.defaultValue}
+                  value={settings[provider.id][f.key] ?? ""}
+                  onChange={(e) =>
+                    setSettings((s) => ({
+                      ...s,
+                      [provider.id]: {
+                        ...s[provider.id],
+                        [f.key]: e.target.value,
+                      },
+                    }))
+                  }
+                />
+              </label>
+            ))}
+          </>
+        )}
+
+        <h3 className="text-sm font-medium mt-3 mb-1">Kid safety</h3>
+        <label className="flex items-center gap-2 text-sm mb-1">
+          <input
+            type="checkbox"
+            checked={moderation.enabled}
+            onChange={(e) =>
+              setModeration((m) => ({ ...m, enabled: e.target.checked }))
+            }
+          />
+          Hold flagged generations for teacher review
+        </label>
+        {moderation.enabled && (
+          <>
+            <label className="flex items-center gap-2 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={moderation.modelCheck}
+                onChange={(e) =>
+                  setModeration((m) => ({ ...m, modelCheck: e.target.checked }))
+                }
+              />
+              Also ask the model to check new labels and images
+            </label>
+            <label className="block text-sm mb-1" htmlFor="blocklist">
+              Blocked words (one per line)
+            </label>
+            <textarea
+              id="blocklist"
+              className="border rounded px-2 py-1 w-full h-24 text-sm"
+              value={blocklist}
+              onChange={(e) => setBlocklist(e.target.value)}
+            />
+          </>
+        )}
+
+        <label className="block text-sm mt-3 mb-1" htmlFor="fixtures">
+          Fixtures
+        </label>
+        <select
+          id="fixtures"
+          className="border rounded px-2 py-1 w-full mb-1 text-sm"
+          value={fixtureMode}
+          onChange={(e) => setFixtureMode(e.target.value as FixtureMode)}
+        >
+          <option value="off">Off</option>
+          <option value="record">Record requests to fixtures/</option>
+          <option value="replay">Replay recorded requests (offline)</option>
+        </select>
+        <p className="text-xs text-slate-600 mb-2">
+          Development only: fixtures are read and written by the dev server.
+        </p>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button className="px-2 py-1 border rounded" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="px-2 py-1 border rounded" onClick={save}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+/**
+ * ShareProjectDialog
+ * Owner-only list of the emails a project is shared with. People signed in
+ * with one of these emails see the project in their library and can edit it
+ * live; only the owner can rename, archive, delete or re-share it.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+export default function ShareProjectDialog({
+  projectId,
+  title,
+  onClose,
+}: {
+  projectId: Id<"projects">;
+  title: string;
+  onClose: () => void;
+}) {
+  const members = useQuery(api.projects.members, { projectId });
+  const share = useMutation(api.projects.share);
+  const unshare = useMutation(api.projects.unshare);
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(fn: () => Promise<unknown>) {
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError((err as Error).message || "Something went wrong");
+    }
+  }
+
+  async function add() {
+    if (!email.trim()) return;
+    await run(async () => {
+      await share({ projectId, email });
+      setEmail("");
+    });
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal
+      aria-label={`Share ${title}`}
+      className="fixed inset-0 bg-black/40 grid place-items-center z-50"
+    >
+      <div className="bg-white text-black rounded-md shadow-lg p-4 w-[420px] max-w-[95vw]">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-semibold truncate">Share “{title}”</h2>
+          <button
+            className="px-2 py-1 border rounded text-sm"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex gap-2 mb-3">
+          <input
+            type="email"
+            className="border rounded px-2 py-1 flex-1 text-sm"
+            placeholder="teacher@school.org"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void add();
+            }}
+            aria-label="Email to share with"
+          />
+          <button
+            className="px-3 py-1 rounded bg-blue-600 text-white text-sm"
+            onClick={() => void add()}
+          >
+            Share
+          </button>
+        </div>
+        {error && <div className="mb-2 text-xs text-red-700">{error}</div>}
+        <ul className="border rounded divide-y text-sm">
+          {members === undefined ? (
+            <li className="px-2 py-2 text-xs text-slate-500">Loading…</li>
+          ) : members.length === 0 ? (
+            <li className="px-2 py-2 text-xs text-slate-500">
+              Only you can open this project
+            </li>
+          ) : (
+            members.map((m) => (
+              <li
+                key={m.email}
+                className="px-2 py-1 flex items-center justify-between"
+              >
+                <span className="truncate">{m.email}</span>
+                <button
+                  className="px-2 py-0.5 rounded border text-xs text-red-600 hover:bg-red-50"
+                  onClick={() =>
+                    void run(() => unshare({ projectId, email: m.email }))
+                  }
+                >
+                  Remove
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+/**
+ * UsageDashboard
+ * This month's generation usage from convex/usage.ts: the configured daily
+ * and monthly quota, consumption per user and per project, and the most
+ * recent requests with their outcome. Regular users see their own requests;
+ * usage admins (USAGE_ADMIN_EMAILS) see everyone's.
+ */
+
+import Link from "next/link";
+import { UserButton } from "@clerk/nextjs";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+const OUTCOME_STYLES: Record<string, string> = {
+  success: "text-green-700",
+  pending: "text-slate-500",
+  error: "text-red-700",
+  quota_exceeded: "text-amber-700",
+};
+
+export default function UsageDashboard() {
+  const usage = useQuery(api.usage.overview, {});
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="h-14 px-4 border-b border-slate-200 bg-sky-50/60 flex items-center gap-3">
+        <img src="/logo.svg" alt="Checkfu Logo" className="h-6" />
+        <Link
+          href="/projects"
+          className="text-sm text-slate-600 hover:text-slate-900 hover:underline"
+        >
+          Projects
+        </Link>
+        <span className="text-sm font-medium">Usage</span>
+        <div className="ml-auto">
+          <UserButton />
+        </div>
+      </header>
+      <main className="p-6 max-w-5xl space-y-8">
+        {usage === undefined ? (
+          <div className="text-sm text-slate-500">Loading…</div>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600">
+              Each person can run {usage.limits.daily} generations per day and{" "}
+              {usage.limits.monthly} per month (UTC). Failed and refused
+              requests are listed but do not count.
+              {usage.scope === "mine" && " Showing your own requests."}
+            </p>
+
+            <section>
+              <h2 className="font-semibold mb-2">By user (this month)</h2>
+              <table className="w-full text-sm border">
+                <thead className="bg-slate-50 text-left">
+                  <tr>
+                    <th className="px-2 py-1">User</th>
+                    <th className="px-2 py-1">Today</th>
+                    <th className="px-2 py-1">This month</th>
+                    <th className="px-2 py-1">Failed</th>
+                    <th className="px-2 py-1">Refused</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.users.length === 0 ? (
+                    <tr>
+                      <td className="px-2 py-2 text-slate-500" colSpan={5}>
+                        No generations yet
+                      </td>
+                    </tr>
+                  ) : (
+                    usage.users.map((u) => (
+                      <tr key={u.userId} className="border-t">
+                        <td className="px-2 py-1">{u.userName}</td>
+                        <td className="px-2 py-1">
+                          {u.today} / {usage.limits.daily}
+                        </td>
+                        <td className="px-2 py-1">
+                          {u.month} / {usage.limits.monthly}
+                        </td>
+                        <td className="px-2 py-1">{u.failed}</td>
+                        <td className="px-2 py-1">{u.refused}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h2 className="font-semibold mb-2">By project (this month)</h2>
+              <table className="w-full text-sm border">
+                <thead className="bg-slate-50 text-left">
+                  <tr>
+                    <th className="px-2 py-1">Project</th>
+                    <th className="px-2 py-1">Today</th>
+                    <th className="px-2 py-1">This month</th>
+                    <th className="px-2 py-1">Failed</th>
+                    <th className="px-2 py-1">Refused</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.projects.length === 0 ? (
+                    <tr>
+                      <td className="px-2 py-2 text-slate-500" colSpan={5}>
+                        No project generations yet
+                      </td>
+                    </tr>
+                  ) : (
+                    usage.projects.map((p) => (
+                      <tr key={p.projectId} className="border-t">
+                        <td className="px-2 py-1">
+                          <Link
+                            href={`/projects/${p.projectId}`}
+                            className="hover:underline"
+                          >
+                            {p.title}
+                          </Link>
+                        </td>
+                        <td className="px-2 py-1">{p.today}</td>
+                        <td className="px-2 py-1">{p.month}</td>
+                        <td className="px-2 py-1">{p.failed}</td>
+                        <td className="px-2 py-1">{p.refused}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h2 className="font-semibold mb-2">Recent requests</h2>
+              <table className="w-full text-sm border">
+                <thead className="bg-slate-50 text-left">
+                  <tr>
+                    <th className="px-2 py-1">When</th>
+                    <th className="px-2 py-1">User</th>
+                    <th className="px-2 py-1">Project</th>
+                    <th className="px-2 py-1">Kind</th>
+                    <th className="px-2 py-1">Model</th>
+                    <th className="px-2 py-1">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.recent.map((r) => (
+                    <tr key={r._id} className="border-t align-top">
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        {new Date(r.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-2 py-1">{r.userName}</td>
+                      <td className="px-2 py-1">{r.projectTitle ?? "—"}</td>
+                      <td className="px-2 py-1">{r.kind}</td>
+                      <td className="px-2 py-1 font-mono text-xs">{r.model}</td>
+                      <td
+                        className={`px-2 py-1 ${OUTCOME_STYLES[r.outcome] ?? ""}`}
+                        title={r.error}
+                      >
+                        {r.outcome.replace("_", " ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
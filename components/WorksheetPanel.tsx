@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * WorksheetPanel
+ * Inspector section for worksheet pages: describe the worksheet and have
+ * it planned as a task spec and laid out as editable layers
+ * (lib/worksheetSpec.ts). Lists the tasks of the current spec; picking one
+ * selects its picture layer. Also adds or updates the worksheet's answer
+ * key page (lib/answerKey.ts).
+ */
+
+import type { Page } from "@/store/useEditorStore";
+
+export default function WorksheetPanel({
+  page,
+  busy,
+  hasAnswerKey,
+  onPromptChange,
+  onGenerate,
+  onSelectTask,
+  onAnswerKey,
+}: {
+  page: Page;
+  busy: boolean;
+  hasAnswerKey: boolean;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  onSelectTask: (taskId: string) => void;
+  onAnswerKey: () => void;
+}) {
+  const spec = page.worksheetSpec;
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700">Worksheet</h3>
+      <div className="mt-2 grid gap-2">
+        <label htmlFor="worksheet-prompt">What should it practice?</label>
+        <textarea
+          id="worksheet-prompt"
+          className="border rounded px-2 py-1 h-20"
+          placeholder="e.g. counting farm animals up to 8"
+          value={page.prompt ?? ""}
+          onChange={(e) => onPromptChange(e.target.value)}
+        />
+        <button
+          className="px-2 py-1 border rounded disabled:opacity-50 w-max"
+          disabled={busy}
+          title="Plan the tasks, then lay them out as text and picture layers"
+          onClick={onGenerate}
+        >
+          Generate Worksheet Layers
+        </button>
+        <p className="text-xs text-slate-600">
+          Replaces this page&apos;s layers and background image.
+        </p>
+        {spec && (
+          <>
+            <div className="font-medium">{spec.instruction}</div>
+            <ol className="grid gap-1 text-xs">
+              {spec.tasks.map((t, i) => (
+                <li key={t.id}>
+                  <button
+                    className="text-left hover:underline"
+                    onClick={() => onSelectTask(t.id)}
+                  >
+                    {i + 1}. {t.prompt}{" "}
+                    <span className="text-slate-500">
+                      ({t.quantity} {t.manipulative}; answer {t.answer || "—"})
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+        <button
+          className="px-2 py-1 border rounded disabled:opacity-50 w-max"
+          disabled={busy}
+          title={
+            spec
+              ? "Fill in the answers from the worksheet's tasks"
+              : "Have the model solve this page"
+          }
+          onClick={onAnswerKey}
+        >
+          {hasAnswerKey ? "Update Answer Key" : "Add Answer Key"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+/**
+ * WorksheetTaskDetails
+ * Inspector section for a layer laid out from a worksheet task
+ * (lib/worksheetSpec.ts): edit the task, redraw its picture, or have the
+ * model write a different task in its place.
+ */
+
+import type { WorksheetTask } from "@/store/useEditorStore";
+
+export default function WorksheetTaskDetails({
+  task,
+  index,
+  busy,
+  onChange,
+  onRedraw,
+  onReplace,
+}: {
+  task: WorksheetTask;
+  index: number;
+  busy: boolean;
+  onChange: (patch: Partial<Omit<WorksheetTask, "id">>) => void;
+  onRedraw: () => void;
+  onReplace: () => void;
+}) {
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-slate-700">
+        Worksheet Task {index + 1}
+      </h3>
+      <div className="mt-2 grid grid-cols-2 gap-2 items-center">
+        <label className="text-xs" htmlFor="task-prompt">
+          Prompt
+        </label>
+        <input
+          id="task-prompt"
+          className="border rounded px-2 py-1"
+          value={task.prompt}
+          onChange={(e) => onChange({ prompt: e.target.value })}
+        />
+        <label className="text-xs" htmlFor="task-quantity">
+          Quantity
+        </label>
+        <input
+          id="task-quantity"
+          className="border rounded px-2 py-1"
+          type="number"
+          min={0}
+          max={10}
+          value={task.quantity}
+          onChange={(e) =>
+            onChange({
+              quantity: Math.min(
+                10,
+                Math.max(0, Math.round(Number(e.target.value) || 0)),
+              ),
+            })
+          }
+        />
+        <label className="text-xs" htmlFor="task-manipulative">
+          Picture shows
+        </label>
+        <input
+          id="task-manipulative"
+          className="border rounded px-2 py-1"
+          value={task.manipulative}
+          onChange={(e) => onChange({ manipulative: e.target.value })}
+        />
+        <label className="text-xs" htmlFor="task-answer">
+          Answer
+        </label>
+        <input
+          id="task-answer"
+          className="border rounded px-2 py-1"
+          value={task.answer}
+          onChange={(e) => onChange({ answer: e.target.value })}
+        />
+      </div>
+      <div className="mt-2 flex gap-2">
+        <button
+          className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+          disabled={busy}
+          title="Draw the picture again from the quantity and what it shows"
+          onClick={onRedraw}
+        >
+          Redraw Picture
+        </button>
+        <button
+          className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+          disabled={busy}
+          title="Ask for a different task and draw its picture"
+          onClick={onReplace}
+        >
+          New Task
+        </button>
+      </div>
+    </section>
+  );
+}
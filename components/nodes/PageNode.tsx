@@ -12,9 +12,18 @@
 import { memo, useMemo, useState } from "react";
 import type { Node as RFNode, NodeProps } from "@xyflow/react";
 import { Handle, Position, NodeToolbar } from "@xyflow/react";
-import PageCanvasFabric from "@/components/PageCanvasFabric";
-import { usePageById, useActions } from "@/store/useEditorStore";
+import PageCanvasFabric, { type MaskTool } from "@/components/PageCanvasFabric";
+import { usePageById, useActions, writeUI } from "@/store/useEditorStore";
 import { pagePx } from "@/lib/image/pageMetrics";
+import { usePeersOnPage } from "@/store/usePresenceStore";
+import PresenceAvatars from "@/components/PresenceAvatars";
+import { QA_BADGE } from "@/components/QaPanel";
+import { useJobStore } from "@/store/useJobStore";
+import {
+  useChildProgress,
+  useChildProgressStore,
+  type ChildProgress,
+} from "@/store/useChildProgressStore";
 
 export type PageNodeData =
   | { pageId: string } // store-driven mode
@@ -26,6 +35,8 @@ export type PageNodeData =
       onBranchWithPrompt?: (pageId: string, prompt: string) => void;
       onDelete?: (pageId: string) => void;
       onQuickGenerate?: (pageId: string) => void;
+      onCancel?: (pageId: string) => void;
+      onMaskEdit?: (pageId: string, maskUrl: string, prompt: string) => void;
       imageUrl?: string;
       children: any[];
       onChildrenChange: (pageId: string, next: any[]) => void;
@@ -37,12 +48,41 @@ export type PageNodeData =
 
 type PageRFNode = RFNode<PageNodeData, "page">;
 
+const PROGRESS_LABEL: Record<ChildProgress["state"], string> = {
+  queued: "Waiting",
+  running: "Generating…",
+  done: "Done",
+  failed: "Not updated",
+};
+
+const PROGRESS_TONE: Record<ChildProgress["state"], string> = {
+  queued: "bg-slate-200 text-slate-700",
+  running: "bg-sky-600 text-white",
+  done: "bg-green-600 text-white",
+  failed: "bg-red-600 text-white",
+};
+
 function PageNode({ data, selected }: NodeProps<PageRFNode>) {
   const maybePageId = (data as any).pageId as string | undefined;
   const storeMode = !!maybePageId;
   const page = usePageById(maybePageId);
-  const { selectChild, replaceChildren, setCurrentPage } = useActions();
+  const { selectChild, replaceChildren, setCurrentPage, patchPage } =
+    useActions();
   const [prompt, setPrompt] = useState("");
+  // Mask painting for masked edits (off unless toggled in the toolbar)
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [maskSize, setMaskSize] = useState(32);
+  const [maskEpoch, setMaskEpoch] = useState(0);
+  const [maskUrl, setMaskUrl] = useState<string | null>(null);
+  // Collaborators on this page (project mode only; empty otherwise)
+  const peers = usePeersOnPage(maybePageId);
+  // Waiting in the job queue (store/useJobStore) behind other generations
+  const queued = useJobStore(
+    (s) =>
+      !!maybePageId &&
+      s.jobs.some((j) => j.pageId === maybePageId && j.status === "queued"),
+  );
+  const childProgress = useChildProgress(maybePageId);
   const orientation = storeMode
     ? (page?.orientation ?? "portrait")
     : (data as any).orientation;
@@ -96,7 +136,27 @@ function PageNode({ data, selected }: NodeProps<PageRFNode>) {
         >
           {storeMode ? page?.title : (data as any).title}
         </div>
+        {storeMode && page?.answerKeyFor ? (
+          <span className="ml-2 mr-auto shrink-0 px-1.5 rounded bg-emerald-100 text-emerald-800 text-[10px] font-semibold uppercase tracking-wide">
+            Answer key
+          </span>
+        ) : null}
+        <PresenceAvatars peers={peers} size="sm" label="Viewing this page" />
       </div>
+      {/* Quality checklist of the last generation (lib/qa.ts) */}
+      {storeMode && page?.qa ? (
+        <div className="flex flex-wrap gap-1 mb-2" aria-label="Quality checks">
+          {page.qa.checks.map((c) => (
+            <span
+              key={c.id}
+              className={`px-1.5 rounded text-[10px] ${QA_BADGE[c.status].tone}`}
+              title={`${QA_BADGE[c.status].label}${c.detail ? `: ${c.detail}` : ""}`}
+            >
+              {c.label}
+            </span>
+          ))}
+        </div>
+      ) : null}
 
       {/* Page canvas */}
       <div
@@ -119,18 +179,136 @@ function PageNode({ data, selected }: NodeProps<PageRFNode>) {
               selectChild(pid, childId);
             } else (data as any).onSelectChild?.(pid, childId);
           }}
+          mask={
+            maskTool
+              ? {
+                  tool: maskTool,
+                  size: maskSize,
+                  epoch: maskEpoch,
+                  onChange: setMaskUrl,
+                }
+              : null
+          }
         />
-        {(storeMode ? page?.generating : (data as any).loading) ? (
+        {/* Layers collaborators have selected, outlined in their color */}
+        {peers.map((peer) => {
+          const c = peer.childId
+            ? page?.children.find((ch) => ch.id === peer.childId)
+            : undefined;
+          if (!c) return null;
+          return (
+            <div
+              key={peer.sessionId}
+              className="absolute pointer-events-none"
+              style={{
+                left: c.x,
+                top: c.y,
+                width: c.width,
+                height: c.height,
+                transform: `rotate(${c.angle}deg)`,
+                transformOrigin: "top left",
+                outline: `2px solid ${peer.color}`,
+              }}
+            >
+              <span
+                className="absolute -top-4 left-0 px-1 text-[9px] leading-4 text-white rounded-sm whitespace-nowrap"
+                style={{ background: peer.color }}
+              >
+                {peer.name}
+              </span>
+            </div>
+          );
+        })}
+        {(storeMode ? page?.generating || queued : (data as any).loading) ? (
           <div className="absolute inset-0 grid place-items-center bg-white/70 pointer-events-none select-none">
             <div className="flex items-center gap-3 px-3 py-2 rounded-md bg-white shadow ring-1 ring-slate-300">
               <div className="h-5 w-5 rounded-full border-2 border-sky-600 border-t-transparent animate-spin" />
               <span className="text-sm font-semibold text-slate-900 tracking-wide">
-                {(storeMode ? page?.status : (data as any).loadingText) ||
-                  "Generating…"}
+                {(storeMode
+                  ? page?.generating
+                    ? page.status
+                    : "Queued…"
+                  : (data as any).loadingText) || "Generating…"}
               </span>
+              {(data as any).onCancel ? (
+                <button
+                  type="button"
+                  className="nodrag nopan pointer-events-auto px-2 py-0.5 text-xs border rounded hover:bg-slate-50"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={() =>
+                    (data as any).onCancel(
+                      storeMode ? (maybePageId ?? "") : (data as any).id,
+                    )
+                  }
+                >
+                  Cancel
+                </button>
+              ) : null}
             </div>
           </div>
+        ) : storeMode && page?.review ? (
+          // A generated result moderation held back (lib/moderation.ts)
+          <div className="absolute top-2 left-2 right-2 flex items-start gap-2 px-2 py-1 rounded-md bg-rose-50 text-rose-900 text-xs shadow ring-1 ring-rose-300">
+            <span className="flex-1">
+              <span className="font-semibold">Needs teacher review:</span>{" "}
+              {page.review.reasons.join("; ")}
+            </span>
+            <button
+              type="button"
+              className="nodrag nopan font-semibold underline"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={() => setCurrentPage(page.id)}
+            >
+              Review
+            </button>
+          </div>
+        ) : storeMode && page?.status ? (
+          // Left over from a run that did not fully succeed
+          <div className="absolute top-2 left-2 right-2 flex items-start gap-2 px-2 py-1 rounded-md bg-amber-50 text-amber-900 text-xs shadow ring-1 ring-amber-300">
+            <span className="flex-1">{page.status}</span>
+            <button
+              type="button"
+              className="nodrag nopan font-semibold"
+              aria-label="Dismiss"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={() => {
+                useChildProgressStore.getState().clear(page.id);
+                writeUI(() => patchPage(page.id, { status: "" }));
+              }}
+            >
+              ×
+            </button>
+          </div>
         ) : null}
+        {/* Per-layer progress of the running (or last failed) generation */}
+        {Object.entries(childProgress).map(([childId, p]) => {
+          const c = page?.children.find((ch) => ch.id === childId);
+          if (!c) return null;
+          return (
+            <div
+              key={childId}
+              className="absolute pointer-events-none"
+              style={{
+                left: c.x,
+                top: c.y,
+                width: c.width,
+                height: c.height,
+                transform: `rotate(${c.angle}deg)`,
+                transformOrigin: "top left",
+                outline:
+                  p.state === "failed" ? "2px dashed #dc2626" : undefined,
+              }}
+            >
+              <span
+                className={`absolute top-1 left-1 max-w-full truncate px-1.5 rounded text-[10px] leading-4 font-semibold ${PROGRESS_TONE[p.state]}`}
+                title={p.error}
+              >
+                {PROGRESS_LABEL[p.state]}
+                {p.error ? `: ${p.error}` : ""}
+              </span>
+            </div>
+          );
+        })}
 
         {/* Portal toolbar (fixed) */}
         <NodeToolbar
@@ -141,17 +319,109 @@ function PageNode({ data, selected }: NodeProps<PageRFNode>) {
           className="nodrag nopan nowheel will-change-transform"
           style={{ pointerEvents: "all", zIndex: 1000 }}
         >
-          <div className="flex items-center gap-2 bg-white/95 border rounded shadow-sm px-2 py-1">
-            <input
-              type="text"
-              placeholder="Describe the change…"
-              className="border rounded px-2 py-1 text-xs w-64 nodrag nopan nowheel"
-              value={prompt}
-              onChange={(e) => setPrompt(e.currentTarget.value)}
-              onMouseDown={(e) => e.stopPropagation()}
-              onKeyDown={(e) => {
-                e.stopPropagation();
-                if (e.key === "Enter") {
+          {maskTool ? (
+            <div className="flex items-center gap-2 bg-white/95 border rounded shadow-sm px-2 py-1 text-xs">
+              <select
+                className="border rounded px-1 py-1 nodrag nopan"
+                aria-label="Mask tool"
+                value={maskTool}
+                onMouseDown={(e) => e.stopPropagation()}
+                onChange={(e) => setMaskTool(e.target.value as MaskTool)}
+              >
+                <option value="brush">Brush</option>
+                <option value="lasso">Lasso</option>
+              </select>
+              {maskTool === "brush" && (
+                <input
+                  type="range"
+                  min={8}
+                  max={120}
+                  aria-label="Brush size"
+                  title="Brush size"
+                  className="w-20 nodrag nopan"
+                  value={maskSize}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onChange={(e) => setMaskSize(Number(e.target.value))}
+                />
+              )}
+              <input
+                type="text"
+                placeholder={
+                  page?.selectedChildId
+                    ? "Change the masked part of the layer…"
+                    : "Change the masked part of the page…"
+                }
+                className="border rounded px-2 py-1 w-56 nodrag nopan nowheel"
+                value={prompt}
+                onChange={(e) => setPrompt(e.currentTarget.value)}
+                onMouseDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              <button
+                type="button"
+                className="px-2 py-1 rounded border disabled:opacity-50"
+                disabled={!maskUrl || !prompt.trim()}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  const p = prompt.trim();
+                  if (!maskUrl || !p) return;
+                  (data as any).onMaskEdit?.(
+                    storeMode ? (maybePageId ?? "") : (data as any).id,
+                    maskUrl,
+                    p,
+                  );
+                  setPrompt("");
+                  setMaskTool(null);
+                }}
+              >
+                Edit Masked Area
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded border"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => setMaskEpoch((n) => n + 1)}
+              >
+                Clear
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded border"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => setMaskTool(null)}
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 bg-white/95 border rounded shadow-sm px-2 py-1">
+              <input
+                type="text"
+                placeholder="Describe the change…"
+                className="border rounded px-2 py-1 text-xs w-64 nodrag nopan nowheel"
+                value={prompt}
+                onChange={(e) => setPrompt(e.currentTarget.value)}
+                onMouseDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  e.stopPropagation();
+                  if (e.key === "Enter") {
+                    const p = prompt.trim();
+                    if (!p) return;
+                    (data as any).onBranchWithPrompt?.(
+                      storeMode ? (maybePageId ?? "") : (data as any).id,
+                      p,
+                    );
+                    setPrompt("");
+                  }
+                }}
+              />
+              <button
+                type="button"
+                className="text-xs px-2 py-1 rounded border"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
                   const p = prompt.trim();
                   if (!p) return;
                   (data as any).onBranchWithPrompt?.(
@@ -159,27 +429,26 @@ function PageNode({ data, selected }: NodeProps<PageRFNode>) {
                     p,
                   );
                   setPrompt("");
-                }
-              }}
-            />
-            <button
-              type="button"
-              className="text-xs px-2 py-1 rounded border"
-              onMouseDown={(e) => e.stopPropagation()}
-              onClick={(e) => {
-                e.stopPropagation();
-                const p = prompt.trim();
-                if (!p) return;
-                (data as any).onBranchWithPrompt?.(
-                  storeMode ? (maybePageId ?? "") : (data as any).id,
-                  p,
-                );
-                setPrompt("");
-              }}
-            >
-              Branch
-            </button>
-          </div>
+                }}
+              >
+                Branch
+              </button>
+              {(data as any).onMaskEdit ? (
+                <button
+                  type="button"
+                  className="text-xs px-2 py-1 rounded border"
+                  title="Paint over the part to change, then describe the change"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setMaskTool("brush");
+                  }}
+                >
+                  Mask
+                </button>
+              ) : null}
+            </div>
+          )}
         </NodeToolbar>
       </div>
     </div>
@@ -13,7 +13,21 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
-import type * as myFunctions from "../myFunctions.js";
+import type * as assets from "../assets.js";
+import type * as checkpoints from "../checkpoints.js";
+import type * as gemini from "../gemini.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_gemini from "../lib/gemini.js";
+import type * as lib_generationErrors from "../lib/generationErrors.js";
+import type * as lib_projectDomain from "../lib/projectDomain.js";
+import type * as lib_syncOps from "../lib/syncOps.js";
+import type * as lib_values from "../lib/values.js";
+import type * as presence from "../presence.js";
+import type * as projects from "../projects.js";
+import type * as promptPresets from "../promptPresets.js";
+import type * as sync from "../sync.js";
+import type * as usage from "../usage.js";
+import type * as validators from "../validators.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -24,7 +38,21 @@ import type * as myFunctions from "../myFunctions.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
-  myFunctions: typeof myFunctions;
+  assets: typeof assets;
+  checkpoints: typeof checkpoints;
+  gemini: typeof gemini;
+  "lib/auth": typeof lib_auth;
+  "lib/gemini": typeof lib_gemini;
+  "lib/generationErrors": typeof lib_generationErrors;
+  "lib/projectDomain": typeof lib_projectDomain;
+  "lib/syncOps": typeof lib_syncOps;
+  "lib/values": typeof lib_values;
+  presence: typeof presence;
+  projects: typeof projects;
+  promptPresets: typeof promptPresets;
+  sync: typeof sync;
+  usage: typeof usage;
+  validators: typeof validators;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,67 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireIdentity } from "./lib/auth";
+
+// Image assets: the client uploads bytes with an upload URL, then registers
+// the stored file here to get back its stable serving URL. Uploads require a
+// signed-in user; anonymous "try it" sessions keep images in the browser.
+
+export const generateUploadUrl = mutation({
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    await requireIdentity(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const create = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    contentType: v.string(),
+  },
+  returns: v.object({ assetId: v.id("assets"), url: v.string() }),
+  handler: async (ctx, args) => {
+    await requireIdentity(ctx);
+    // The hash Convex computed from the stored bytes; never the client's,
+    // or an upload could claim another image's hash
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) throw new ConvexError("Uploaded file not found");
+    // Identical bytes were uploaded before: keep one copy
+    const existing = await ctx.db
+      .query("assets")
+      .withIndex("by_sha256", (q) => q.eq("sha256", file.sha256))
+      .first();
+    const existingFile =
+      existing && (await ctx.db.system.get(existing.storageId));
+    if (existing && existingFile?.sha256 === file.sha256) {
+      if (existing.storageId !== args.storageId)
+        await ctx.storage.delete(args.storageId);
+      return { assetId: existing._id, url: existing.url };
+    }
+    const url = await ctx.storage.getUrl(args.storageId);
+    if (!url) throw new ConvexError("Uploaded file not found");
+    const assetId = await ctx.db.insert("assets", {
+      storageId: args.storageId,
+      url,
+      contentType: args.contentType,
+      sha256: file.sha256,
+      createdAt: Date.now(),
+    });
+    return { assetId, url };
+  },
+});
+
+export const get = query({
+  args: { assetId: v.id("assets") },
+  returns: v.union(
+    v.null(),
+    v.object({ url: v.string(), contentType: v.string() }),
+  ),
+  handler: async (ctx, args) => {
+    await requireIdentity(ctx);
+    const asset = await ctx.db.get(args.assetId);
+    if (!asset) return null;
+    return { url: asset.url, contentType: asset.contentType };
+  },
+});
@@ -0,0 +1,105 @@
+import { ConvexError, v } from "convex/values";
+import { action, internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { requireProject } from "./lib/auth";
+
+// Checkpoints: named, timestamped snapshots of a project's domain that
+// outlive the in-memory undo history. The client sends the snapshot JSON
+// here; the server stores it as a file of its own, which is deleted with
+// the checkpoint. Clients never name the file, so they cannot attach (and
+// later delete) someone else's.
+
+const checkpointSummary = v.object({
+  _id: v.id("checkpoints"),
+  name: v.string(),
+  snapshotUrl: v.string(),
+  pageCount: v.number(),
+  createdAt: v.number(),
+});
+
+// Newest first
+export const list = query({
+  args: { projectId: v.id("projects") },
+  returns: v.array(checkpointSummary),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const rows = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_projectId_and_createdAt", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .order("desc")
+      .collect();
+    return rows.map(({ _id, name, snapshotUrl, pageCount, createdAt }) => ({
+      _id,
+      name,
+      snapshotUrl,
+      pageCount,
+      createdAt,
+    }));
+  },
+});
+
+export const create = action({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    snapshot: v.bytes(),
+    pageCount: v.number(),
+  },
+  returns: v.id("checkpoints"),
+  handler: async (ctx, args): Promise<Id<"checkpoints">> => {
+    const snapshotStorageId = await ctx.storage.store(
+      new Blob([args.snapshot], { type: "application/json" }),
+    );
+    try {
+      return await ctx.runMutation(internal.checkpoints.record, {
+        projectId: args.projectId,
+        name: args.name,
+        snapshotStorageId,
+        pageCount: args.pageCount,
+      });
+    } catch (err) {
+      await ctx.storage.delete(snapshotStorageId);
+      throw err;
+    }
+  },
+});
+
+// The checkpoint row for a snapshot file `create` just stored
+export const record = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    snapshotStorageId: v.id("_storage"),
+    pageCount: v.number(),
+  },
+  returns: v.id("checkpoints"),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const snapshotUrl = await ctx.storage.getUrl(args.snapshotStorageId);
+    if (!snapshotUrl) throw new ConvexError("Snapshot file not found");
+    return await ctx.db.insert("checkpoints", {
+      projectId: args.projectId,
+      name: args.name.trim() || "Checkpoint",
+      snapshotUrl,
+      snapshotStorageId: args.snapshotStorageId,
+      pageCount: args.pageCount,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { checkpointId: v.id("checkpoints") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.checkpointId);
+    if (!row) return null;
+    await requireProject(ctx, row.projectId);
+    await ctx.db.delete(row._id);
+    if (row.snapshotStorageId) await ctx.storage.delete(row.snapshotStorageId);
+    return null;
+  },
+});
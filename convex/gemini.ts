@@ -0,0 +1,99 @@
+"use node";
+
+import { GoogleGenAI } from "@google/genai";
+import { ConvexError, v } from "convex/values";
+import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { generationKind } from "./validators";
+import { GEMINI_MODELS, blockReason, unwrapParts } from "./lib/gemini";
+import {
+  GenerationError,
+  classifyGenerationError,
+} from "./lib/generationErrors";
+import { displayName } from "./lib/auth";
+
+// Gemini proxy: the API key stays in the deployment environment
+// (`npx convex env set GEMINI_API_KEY ...`) and never reaches the browser.
+// Only signed-in users can use it; every request is metered per user and
+// checked against the quota first (convex/usage.ts). Failures are
+// classified (convex/lib/generationErrors.ts) and sent to the client as
+// ConvexError data so it can decide whether to retry.
+
+const part = v.union(
+  v.object({ text: v.string() }),
+  v.object({
+    inlineData: v.object({ mimeType: v.string(), data: v.string() }),
+  }),
+);
+
+export const generateContent = action({
+  args: {
+    kind: generationKind,
+    contents: v.array(part),
+    projectId: v.optional(v.string()),
+  },
+  returns: v.array(part),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity)
+      throw new ConvexError({
+        code: "auth",
+        message: "Sign in to generate, or use your own API key in Settings.",
+      });
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey)
+      throw new ConvexError({
+        code: "auth",
+        message:
+          "Generation is not configured: set GEMINI_API_KEY on the Convex deployment.",
+      });
+    const model =
+      args.kind === "text" ? GEMINI_MODELS.text : GEMINI_MODELS.image;
+    const started = await ctx.runMutation(internal.usage.begin, {
+      userId: identity.subject,
+      userName: displayName(identity),
+      projectId: args.projectId,
+      model,
+      kind: args.kind,
+    });
+    if (!started.ok)
+      throw new ConvexError({
+        code: "quota",
+        message: started.message,
+      });
+
+    try {
+      const client = new GoogleGenAI({ apiKey });
+      const res = await client.models.generateContent({
+        model,
+        contents: args.contents,
+      });
+      const blocked = blockReason(res);
+      if (blocked)
+        throw new GenerationError(
+          "safety",
+          `Blocked by the safety filter (${blocked})`,
+        );
+      const parts = unwrapParts(res);
+      await ctx.runMutation(internal.usage.finish, {
+        generationId: started.generationId,
+        outcome: "success",
+      });
+      return parts;
+    } catch (err) {
+      const failure = classifyGenerationError(err);
+      await ctx.runMutation(internal.usage.finish, {
+        generationId: started.generationId,
+        outcome: "error",
+        error: `${failure.kind}: ${failure.message}`,
+      });
+      throw new ConvexError({
+        code: failure.kind,
+        message: failure.message,
+        ...(failure.retryAfterMs !== undefined
+          ? { retryAfterMs: failure.retryAfterMs }
+          : {}),
+      });
+    }
+  },
+});
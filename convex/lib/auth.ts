@@ -0,0 +1,63 @@
+import { ConvexError } from "convex/values";
+import type { Auth, UserIdentity } from "convex/server";
+import type { QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Access checks shared by every public function. Identities come from Clerk
+ * (convex/auth.config.ts); a project is visible to its owner and to the
+ * people it is shared with (projectMembers, keyed by email).
+ */
+
+export type Role = "owner" | "member";
+
+export async function requireIdentity(ctx: {
+  auth: Auth;
+}): Promise<UserIdentity> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new ConvexError("Sign in to continue");
+  return identity;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function displayName(identity: UserIdentity): string {
+  return identity.name ?? identity.email ?? "Signed-in user";
+}
+
+export async function projectRole(
+  ctx: QueryCtx,
+  project: Doc<"projects">,
+  identity: UserIdentity,
+): Promise<Role | null> {
+  if (project.ownerId === identity.subject) return "owner";
+  if (!identity.email) return null;
+  const email = normalizeEmail(identity.email);
+  const member = await ctx.db
+    .query("projectMembers")
+    .withIndex("by_projectId_and_email", (q) =>
+      q.eq("projectId", project._id).eq("email", email),
+    )
+    .unique();
+  return member ? "member" : null;
+}
+
+/**
+ * Load a project the signed-in user may open. `role: "owner"` is required
+ * for rename, archive, delete and sharing. Missing and forbidden projects
+ * fail the same way so ids cannot be probed.
+ */
+export async function requireProject(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  role: Role = "member",
+): Promise<{ project: Doc<"projects">; identity: UserIdentity }> {
+  const identity = await requireIdentity(ctx);
+  const project = await ctx.db.get(projectId);
+  const actual = project ? await projectRole(ctx, project, identity) : null;
+  if (!project || !actual || (role === "owner" && actual !== "owner"))
+    throw new ConvexError("Project not found");
+  return { project, identity };
+}
@@ -0,0 +1,67 @@
+/**
+ * Gemini request/response shapes shared by the server proxy (convex/gemini.ts)
+ * and the browser's local-key mode (lib/providers/gemini.ts).
+ */
+
+export const GEMINI_MODELS = {
+  image: "gemini-2.5-flash-image-preview",
+  text: "gemini-2.5-flash",
+} as const;
+
+export type InlineDataPart = { inlineData: { mimeType: string; data: string } };
+export type TextPart = { text: string };
+export type Part = InlineDataPart | TextPart;
+
+type Candidates = Array<{
+  content?: { parts?: unknown[] };
+  finishReason?: string;
+}>;
+type PromptFeedback = { blockReason?: string };
+export type GenerateResponse = {
+  candidates?: Candidates;
+  promptFeedback?: PromptFeedback;
+  response?: { candidates?: Candidates; promptFeedback?: PromptFeedback };
+};
+
+// Finish reasons that mean the safety system withheld the output
+const BLOCKED_FINISH_REASONS = [
+  "SAFETY",
+  "PROHIBITED_CONTENT",
+  "IMAGE_SAFETY",
+  "IMAGE_PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+];
+
+// Why the prompt or its output was blocked, or null if it was not
+export function blockReason(
+  res: GenerateResponse | null | undefined,
+): string | null {
+  const prompt =
+    res?.promptFeedback?.blockReason ??
+    res?.response?.promptFeedback?.blockReason;
+  if (prompt) return prompt;
+  const finish = (res?.candidates ?? res?.response?.candidates)?.[0]
+    ?.finishReason;
+  return finish && BLOCKED_FINISH_REASONS.includes(finish) ? finish : null;
+}
+
+// First candidate's parts, reduced to the text and inline image parts we use
+export function unwrapParts(res: GenerateResponse | null | undefined): Part[] {
+  const raw =
+    res?.candidates?.[0]?.content?.parts ||
+    res?.response?.candidates?.[0]?.content?.parts ||
+    [];
+  const parts: Part[] = [];
+  for (const p of raw as Array<Partial<InlineDataPart & TextPart>>) {
+    if (p.inlineData?.data)
+      parts.push({
+        inlineData: {
+          mimeType: p.inlineData.mimeType || "image/png",
+          data: p.inlineData.data,
+        },
+      });
+    else if (typeof p.text === "string") parts.push({ text: p.text });
+  }
+  return parts;
+}
@@ -0,0 +1,122 @@
+/**
+ * Generation failure classes shared by the server proxy (convex/gemini.ts)
+ * and the browser (lib/providers). The proxy sends `{ code, message,
+ * retryAfterMs }` in a ConvexError and the client rebuilds the error, so
+ * both sides agree on what is worth retrying.
+ */
+
+export type GenerationErrorKind =
+  | "auth"
+  | "quota"
+  | "rate_limit"
+  | "safety"
+  | "text_instead_of_image"
+  | "transient"
+  | "unsupported"
+  | "unknown";
+
+const KINDS: GenerationErrorKind[] = [
+  "auth",
+  "quota",
+  "rate_limit",
+  "safety",
+  "text_instead_of_image",
+  "transient",
+  "unsupported",
+  "unknown",
+];
+
+// Worth another attempt: the same request may well succeed shortly
+const RETRYABLE: GenerationErrorKind[] = [
+  "rate_limit",
+  "transient",
+  "text_instead_of_image",
+];
+
+export function isGenerationErrorKind(v: unknown): v is GenerationErrorKind {
+  return KINDS.includes(v as GenerationErrorKind);
+}
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  // Server-requested wait before retrying (Retry-After / RetryInfo)
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+/**
+ * Retry-After as milliseconds: delta seconds or an HTTP date (the header),
+ * or a protobuf duration like "12s" / "1.5s" (Gemini RetryInfo.retryDelay).
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const v = value.trim();
+  const duration = /^(\d+(?:\.\d+)?)s?$/.exec(v);
+  if (duration) return Math.round(Number(duration[1]) * 1000);
+  const at = Date.parse(v);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+const HTTP_KIND: Record<number, GenerationErrorKind> = {
+  401: "auth",
+  403: "auth",
+  408: "transient",
+  429: "rate_limit",
+  500: "transient",
+  502: "transient",
+  503: "transient",
+  504: "transient",
+};
+
+export function kindForStatus(status: number): GenerationErrorKind {
+  return HTTP_KIND[status] ?? (status >= 500 ? "transient" : "unknown");
+}
+
+/** Classify anything a provider or SDK threw. */
+export function classifyGenerationError(err: unknown): GenerationError {
+  if (err instanceof GenerationError) return err;
+  const e = err as { status?: unknown; code?: unknown; message?: unknown };
+  const message =
+    typeof e?.message === "string" && e.message ? e.message : String(err);
+  const status =
+    typeof e?.status === "number"
+      ? e.status
+      : typeof e?.code === "number"
+        ? e.code
+        : Number(/\bstatus:? (\d{3})\b/i.exec(message)?.[1]) || undefined;
+  const retryDelay = /"retryDelay":\s*"([\d.]+s)"/.exec(message)?.[1];
+
+  let kind: GenerationErrorKind = status ? kindForStatus(status) : "unknown";
+  if (kind === "unknown") {
+    if (/API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message))
+      kind = "auth";
+    else if (/RESOURCE_EXHAUSTED|rate limit|too many requests/i.test(message))
+      kind = "rate_limit";
+    else if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message))
+      kind = "safety";
+    else if (
+      /UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|overloaded|fetch failed|Failed to fetch|NetworkError|network|ECONNRESET|ETIMEDOUT|socket hang up/i.test(
+        message,
+      )
+    )
+      kind = "transient";
+  }
+  return new GenerationError(kind, message, parseRetryAfter(retryDelay));
+}
@@ -0,0 +1,213 @@
+import type { Infer } from "convex/values";
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { domain as domainValidator, child, page } from "../validators";
+import { sameValue } from "./values";
+
+/**
+ * Helpers that convert between project rows (projects/pages/children/edges)
+ * and the EditorDomain shape used by the editor store.
+ */
+
+export type Domain = Infer<typeof domainValidator>;
+type Page = Infer<typeof page>;
+type Child = Infer<typeof child>;
+
+export function pageFromRow(row: Doc<"pages">, children: Child[]): Page {
+  const { _id, _creationTime, projectId, position, ...fields } = row;
+  return { ...fields, children };
+}
+
+export function childFromRow(row: Doc<"children">): Child {
+  const { _id, _creationTime, projectId, pageId, position, ...fields } = row;
+  return fields;
+}
+
+export async function readDomain(
+  ctx: QueryCtx,
+  project: Doc<"projects">,
+): Promise<Domain> {
+  const projectId = project._id;
+  const [pageRows, childRows, edgeRows] = await Promise.all([
+    ctx.db
+      .query("pages")
+      .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+      .collect(),
+    ctx.db
+      .query("children")
+      .withIndex("by_projectId_and_pageId", (q) => q.eq("projectId", projectId))
+      .collect(),
+    ctx.db
+      .query("edges")
+      .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+      .collect(),
+  ]);
+
+  const childrenByPage = new Map<string, Doc<"children">[]>();
+  for (const c of childRows) {
+    const list = childrenByPage.get(c.pageId) ?? [];
+    list.push(c);
+    childrenByPage.set(c.pageId, list);
+  }
+
+  const pages: Record<string, Page> = {};
+  const nodePositions: Record<string, { x: number; y: number }> = {};
+  for (const row of pageRows) {
+    const children = (childrenByPage.get(row.id) ?? [])
+      .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id))
+      .map(childFromRow);
+    pages[row.id] = pageFromRow(row, children);
+    if (row.position) nodePositions[row.id] = row.position;
+  }
+  return {
+    pages,
+    order: project.order.filter((id) => !!pages[id]),
+    nodePositions,
+    // Concurrent deletes can leave an edge pointing at a missing page
+    edges: edgeRows
+      .filter((e) => !!pages[e.source] && !!pages[e.target])
+      .map(({ id, source, target }) => ({ id, source, target })),
+  };
+}
+
+/**
+ * Write a full domain snapshot into a project, touching only rows that
+ * actually changed and deleting rows that are no longer present.
+ */
+export async function writeDomain(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  domain: Domain,
+): Promise<void> {
+  const existingPages = await ctx.db
+    .query("pages")
+    .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+    .collect();
+  const pageRows = new Map(existingPages.map((r) => [r.id, r]));
+  for (const [id, p] of Object.entries(domain.pages)) {
+    const { children, ...fields } = p;
+    const next = {
+      ...fields,
+      id,
+      projectId,
+      position: domain.nodePositions[id],
+    };
+    const prev = pageRows.get(id);
+    pageRows.delete(id);
+    if (!prev) await ctx.db.insert("pages", next);
+    else if (!sameValue(prev, next)) await ctx.db.replace(prev._id, next);
+  }
+  for (const stale of pageRows.values()) await ctx.db.delete(stale._id);
+
+  const existingChildren = await ctx.db
+    .query("children")
+    .withIndex("by_projectId_and_pageId", (q) => q.eq("projectId", projectId))
+    .collect();
+  const childRows = new Map(
+    existingChildren.map((r) => [`${r.pageId}/${r.id}`, r]),
+  );
+  for (const [pageId, p] of Object.entries(domain.pages)) {
+    for (let i = 0; i < p.children.length; i++) {
+      const next = { ...p.children[i], projectId, pageId, position: i };
+      const key = `${pageId}/${next.id}`;
+      const prev = childRows.get(key);
+      childRows.delete(key);
+      if (!prev) await ctx.db.insert("children", next);
+      else if (!sameValue(prev, next)) await ctx.db.replace(prev._id, next);
+    }
+  }
+  for (const stale of childRows.values()) await ctx.db.delete(stale._id);
+
+  const existingEdges = await ctx.db
+    .query("edges")
+    .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+    .collect();
+  const edgeRows = new Map(existingEdges.map((r) => [r.id, r]));
+  for (const e of domain.edges) {
+    const next = { id: e.id, source: e.source, target: e.target, projectId };
+    const prev = edgeRows.get(e.id);
+    edgeRows.delete(e.id);
+    if (!prev) await ctx.db.insert("edges", next);
+    else if (!sameValue(prev, next)) await ctx.db.replace(prev._id, next);
+  }
+  for (const stale of edgeRows.values()) await ctx.db.delete(stale._id);
+
+  await ctx.db.patch(projectId, {
+    order: domain.order,
+    coverUrl: coverUrlOf(domain),
+    updatedAt: Date.now(),
+  });
+}
+
+// First page in order: its background, else its first placed image layer
+export function coverUrlOf(domain: Domain): string | undefined {
+  for (const id of domain.order) {
+    const p = domain.pages[id];
+    if (!p) continue;
+    if (p.imageUrl) return p.imageUrl;
+    const img = p.children.find((c) => c.type === "image" && c.src);
+    if (img && img.type === "image") return img.src;
+    return undefined;
+  }
+  return undefined;
+}
+
+// Remove every row that belongs to a project (content, presence,
+// checkpoints, members, prompt presets)
+export async function deleteProjectRows(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+): Promise<void> {
+  const [pages, children, edges, presence, checkpoints, members, presets] =
+    await Promise.all([
+      ctx.db
+        .query("pages")
+        .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+        .collect(),
+      ctx.db
+        .query("children")
+        .withIndex("by_projectId_and_pageId", (q) =>
+          q.eq("projectId", projectId),
+        )
+        .collect(),
+      ctx.db
+        .query("edges")
+        .withIndex("by_projectId_and_id", (q) => q.eq("projectId", projectId))
+        .collect(),
+      ctx.db
+        .query("presence")
+        .withIndex("by_projectId_and_sessionId", (q) =>
+          q.eq("projectId", projectId),
+        )
+        .collect(),
+      ctx.db
+        .query("checkpoints")
+        .withIndex("by_projectId_and_createdAt", (q) =>
+          q.eq("projectId", projectId),
+        )
+        .collect(),
+      ctx.db
+        .query("projectMembers")
+        .withIndex("by_projectId_and_email", (q) =>
+          q.eq("projectId", projectId),
+        )
+        .collect(),
+      ctx.db
+        .query("promptPresets")
+        .withIndex("by_projectId", (q) => q.eq("projectId", projectId))
+        .collect(),
+    ]);
+  for (const row of [
+    ...pages,
+    ...children,
+    ...edges,
+    ...presence,
+    ...checkpoints,
+    ...members,
+    ...presets,
+  ])
+    await ctx.db.delete(row._id);
+  for (const checkpoint of checkpoints)
+    if (checkpoint.snapshotStorageId)
+      await ctx.storage.delete(checkpoint.snapshotStorageId);
+}
@@ -0,0 +1,250 @@
+import type { Infer } from "convex/values";
+import type { Domain } from "./projectDomain";
+import { syncOp } from "../validators";
+import { sameValue } from "./values";
+
+/**
+ * Live collaboration ops. Clients diff their last server snapshot against
+ * the local domain (diffDomain) and send the ops; the server applies them to
+ * the stored project (applySyncOps) inside one mutation, and clients use the
+ * same function to fold remote changes into local edits that are not sent
+ * yet. Convex runs mutations one at a time, so every client converges on
+ * the server's order of ops.
+ *
+ * Conflicts resolve per field: two users editing different fields of one
+ * child both win; the same field goes to whichever op the server applied
+ * last. Edits to a record that was deleted concurrently are dropped, and
+ * children are keyed by id so the children array never gains duplicates.
+ */
+
+export type SyncOp = Infer<typeof syncOp>;
+type Page = Domain["pages"][string];
+type Child = Page["children"][number];
+
+// Field names (excluding children) whose values differ between a and b
+function changedKeys(a: object, b: object, skip: string[] = []): string[] {
+  const ao = a as Record<string, unknown>;
+  const bo = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ao), ...Object.keys(bo)]);
+  return [...keys].filter((k) => !skip.includes(k) && !sameValue(ao[k], bo[k]));
+}
+
+function mergeFields<T extends object>(prev: T, next: T, changed: string[]): T {
+  const out = { ...prev } as Record<string, unknown>;
+  const src = next as Record<string, unknown>;
+  for (const k of changed) {
+    if (src[k] === undefined) delete out[k];
+    else out[k] = src[k];
+  }
+  return out as T;
+}
+
+// Ids the sender listed come first in the sender's order; ids it did not
+// know about (added concurrently) keep their relative order after them.
+function mergeOrder(
+  current: string[],
+  wanted: string[],
+  exists: (id: string) => boolean,
+): string[] {
+  const listed = new Set<string>();
+  const out: string[] = [];
+  for (const id of wanted) {
+    if (!exists(id) || listed.has(id)) continue;
+    listed.add(id);
+    out.push(id);
+  }
+  for (const id of current) if (!listed.has(id) && exists(id)) out.push(id);
+  return out;
+}
+
+// What `order` looks like after deletes and creates alone: survivors keep
+// their places and created ids are appended. Anything else needs a set op.
+function impliedOrder(prev: string[], next: string[]): string[] {
+  const keep = new Set(next);
+  const had = new Set(prev);
+  return [
+    ...prev.filter((id) => keep.has(id)),
+    ...next.filter((id) => !had.has(id)),
+  ];
+}
+
+/** Ops that turn `base` into `next`. */
+export function diffDomain(base: Domain, next: Domain): SyncOp[] {
+  const ops: SyncOp[] = [];
+  const pageIds = [
+    ...next.order.filter((id) => next.pages[id]),
+    ...Object.keys(next.pages).filter((id) => !next.order.includes(id)),
+  ];
+
+  for (const id of pageIds) {
+    const { children, ...fields } = next.pages[id];
+    const prev = base.pages[id];
+    if (!prev) ops.push({ type: "putPage", page: fields });
+    else {
+      const changed = changedKeys(prev, next.pages[id], ["children"]);
+      if (changed.length) ops.push({ type: "putPage", page: fields, changed });
+    }
+
+    const prevChildren = prev?.children ?? [];
+    const prevById = new Map(prevChildren.map((c) => [c.id, c]));
+    const nextIds = new Set(children.map((c) => c.id));
+    for (const c of prevChildren)
+      if (!nextIds.has(c.id))
+        ops.push({ type: "deleteChild", pageId: id, id: c.id });
+    for (const c of children) {
+      const old = prevById.get(c.id);
+      if (!old || old.type !== c.type)
+        ops.push({ type: "putChild", pageId: id, child: c });
+      else {
+        const changed = changedKeys(old, c);
+        if (changed.length)
+          ops.push({ type: "putChild", pageId: id, child: c, changed });
+      }
+    }
+    const ids = children.map((c) => c.id);
+    const implied = impliedOrder(
+      prevChildren.map((c) => c.id),
+      ids,
+    );
+    if (!sameValue(implied, ids))
+      ops.push({ type: "setChildOrder", pageId: id, order: ids });
+  }
+
+  for (const id of Object.keys(base.pages))
+    if (!next.pages[id]) ops.push({ type: "deletePage", id });
+
+  for (const [id, position] of Object.entries(next.nodePositions))
+    if (next.pages[id] && !sameValue(base.nodePositions[id], position))
+      ops.push({ type: "movePage", id, position });
+
+  const baseOrder = base.order.filter((id) => next.pages[id]);
+  if (!sameValue(impliedOrder(baseOrder, pageIds), next.order))
+    ops.push({ type: "setOrder", order: next.order });
+
+  const nextEdges = new Map(next.edges.map((e) => [e.id, e]));
+  const baseEdges = new Map(base.edges.map((e) => [e.id, e]));
+  for (const e of base.edges)
+    if (!nextEdges.has(e.id)) ops.push({ type: "deleteEdge", id: e.id });
+  for (const e of next.edges)
+    if (!sameValue(baseEdges.get(e.id), e))
+      ops.push({ type: "putEdge", edge: e });
+
+  return ops;
+}
+
+/**
+ * Apply ops to a domain without mutating it. Untouched pages keep their
+ * object identity, and fields the ops do not mention (including any
+ * client-only UI fields on a page) are preserved.
+ */
+export function applySyncOps(domain: Domain, ops: SyncOp[]): Domain {
+  let { pages, order, nodePositions, edges } = domain;
+
+  const withChildren = (pageId: string, children: Child[]) => {
+    pages = { ...pages, [pageId]: { ...pages[pageId], children } };
+  };
+
+  for (const op of ops) {
+    switch (op.type) {
+      case "putPage": {
+        const id = op.page.id;
+        const prev = pages[id];
+        if (op.changed) {
+          if (!prev) break;
+          pages = {
+            ...pages,
+            [id]: mergeFields(prev, op.page as Page, op.changed),
+          };
+        } else {
+          pages = {
+            ...pages,
+            [id]: { ...op.page, children: prev?.children ?? [] },
+          };
+          if (!order.includes(id)) order = [...order, id];
+        }
+        break;
+      }
+      case "deletePage": {
+        const id = op.id;
+        if (pages[id]) {
+          const rest = { ...pages };
+          delete rest[id];
+          pages = rest;
+        }
+        if (nodePositions[id]) {
+          const rest = { ...nodePositions };
+          delete rest[id];
+          nodePositions = rest;
+        }
+        order = order.filter((x) => x !== id);
+        edges = edges.filter((e) => e.source !== id && e.target !== id);
+        break;
+      }
+      case "movePage":
+        if (pages[op.id])
+          nodePositions = { ...nodePositions, [op.id]: op.position };
+        break;
+      case "setOrder":
+        order = mergeOrder(order, op.order, (id) => !!pages[id]);
+        break;
+      case "putChild": {
+        const page = pages[op.pageId];
+        if (!page) break;
+        const idx = page.children.findIndex((c) => c.id === op.child.id);
+        if (idx < 0) {
+          if (op.changed) break;
+          withChildren(op.pageId, [...page.children, op.child]);
+          break;
+        }
+        const prev = page.children[idx];
+        const merged =
+          op.changed && prev.type === op.child.type
+            ? mergeFields<Child>(prev, op.child, op.changed)
+            : op.child;
+        const children = page.children.slice();
+        children[idx] = merged;
+        withChildren(op.pageId, children);
+        break;
+      }
+      case "deleteChild": {
+        const page = pages[op.pageId];
+        if (!page || !page.children.some((c) => c.id === op.id)) break;
+        withChildren(
+          op.pageId,
+          page.children.filter((c) => c.id !== op.id),
+        );
+        break;
+      }
+      case "setChildOrder": {
+        const page = pages[op.pageId];
+        if (!page) break;
+        const byId = new Map(page.children.map((c) => [c.id, c]));
+        const ids = mergeOrder(
+          page.children.map((c) => c.id),
+          op.order,
+          (id) => byId.has(id),
+        );
+        withChildren(
+          op.pageId,
+          ids.map((id) => byId.get(id)!),
+        );
+        break;
+      }
+      case "putEdge": {
+        const e = op.edge;
+        if (!pages[e.source] || !pages[e.target]) break;
+        const idx = edges.findIndex((x) => x.id === e.id);
+        if (idx < 0) edges = [...edges, e];
+        else {
+          edges = edges.slice();
+          edges[idx] = e;
+        }
+        break;
+      }
+      case "deleteEdge":
+        edges = edges.filter((e) => e.id !== op.id);
+        break;
+    }
+  }
+  return { pages, order, nodePositions, edges };
+}
@@ -0,0 +1,21 @@
+// Structural equality for Convex values, treating missing and undefined
+// fields the same. Used to skip no-op row writes and to diff domains.
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length)
+      return false;
+    return a.every((x, i) => sameValue(x, b[i]));
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const ao = a as Record<string, unknown>;
+    const bo = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(ao), ...Object.keys(bo)]);
+    for (const k of keys) {
+      if (k === "_id" || k === "_creationTime") continue;
+      if (!sameValue(ao[k], bo[k])) return false;
+    }
+    return true;
+  }
+  return false;
+}
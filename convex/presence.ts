@@ -0,0 +1,91 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { displayName, requireProject } from "./lib/auth";
+
+// Presence: who has a project open, which page they are on and which layer
+// they have selected. Tabs heartbeat every few seconds; rows that stop
+// updating age out of `list` and are swept by later heartbeats. Names come
+// from the signed-in identity.
+
+const STALE_MS = 30_000;
+const SWEEP_MS = 10 * 60_000;
+
+const peer = v.object({
+  sessionId: v.string(),
+  name: v.string(),
+  color: v.string(),
+  pageId: v.optional(v.string()),
+  childId: v.optional(v.string()),
+  updatedAt: v.number(),
+});
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  returns: v.array(peer),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_projectId_and_sessionId", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    const cutoff = Date.now() - STALE_MS;
+    return rows
+      .filter((r) => r.updatedAt > cutoff)
+      .map(({ sessionId, name, color, pageId, childId, updatedAt }) => ({
+        sessionId,
+        name,
+        color,
+        pageId,
+        childId,
+        updatedAt,
+      }));
+  },
+});
+
+export const heartbeat = mutation({
+  args: {
+    projectId: v.id("projects"),
+    sessionId: v.string(),
+    color: v.string(),
+    pageId: v.optional(v.string()),
+    childId: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { identity } = await requireProject(ctx, args.projectId);
+    const now = Date.now();
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_projectId_and_sessionId", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    let mine = null;
+    for (const r of rows) {
+      if (r.sessionId === args.sessionId) mine = r;
+      else if (r.updatedAt < now - SWEEP_MS) await ctx.db.delete(r._id);
+    }
+    const next = { ...args, name: displayName(identity), updatedAt: now };
+    if (mine) await ctx.db.replace(mine._id, next);
+    else await ctx.db.insert("presence", next);
+    return null;
+  },
+});
+
+export const leave = mutation({
+  args: { projectId: v.id("projects"), sessionId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const row = await ctx.db
+      .query("presence")
+      .withIndex("by_projectId_and_sessionId", (q) =>
+        q.eq("projectId", args.projectId).eq("sessionId", args.sessionId),
+      )
+      .unique();
+    if (row) await ctx.db.delete(row._id);
+    return null;
+  },
+});
@@ -0,0 +1,249 @@
+import { ConvexError, v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { domain } from "./validators";
+import {
+  readDomain,
+  writeDomain,
+  deleteProjectRows,
+} from "./lib/projectDomain";
+import {
+  normalizeEmail,
+  projectRole,
+  requireIdentity,
+  requireProject,
+} from "./lib/auth";
+
+// Projects: a named worksheet graph (pages, children, edges, nodePositions)
+// that mirrors the editor store's domain. Every project belongs to the user
+// who created it and can be shared with others by email.
+
+const role = v.union(v.literal("owner"), v.literal("member"));
+
+const projectSummary = v.object({
+  _id: v.id("projects"),
+  title: v.string(),
+  updatedAt: v.number(),
+  pageCount: v.number(),
+  coverUrl: v.optional(v.string()),
+  archived: v.boolean(),
+  role,
+});
+
+// Library listing: the user's own projects and the ones shared with them,
+// most recently edited first. Archived projects are only returned when
+// `archived` is true (and then exclusively).
+export const list = query({
+  args: { archived: v.optional(v.boolean()) },
+  returns: v.array(projectSummary),
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    const owned = await ctx.db
+      .query("projects")
+      .withIndex("by_ownerId_and_updatedAt", (q) =>
+        q.eq("ownerId", identity.subject),
+      )
+      .order("desc")
+      .collect();
+    const memberships = identity.email
+      ? await ctx.db
+          .query("projectMembers")
+          .withIndex("by_email", (q) =>
+            q.eq("email", normalizeEmail(identity.email!)),
+          )
+          .collect()
+      : [];
+    const shared = [];
+    for (const m of memberships) {
+      const p = await ctx.db.get(m.projectId);
+      if (p && p.ownerId !== identity.subject) shared.push(p);
+    }
+    const wantArchived = args.archived ?? false;
+    return [
+      ...owned.map((p) => ({ p, role: "owner" as const })),
+      ...shared.map((p) => ({ p, role: "member" as const })),
+    ]
+      .filter(({ p }) => !!p.archivedAt === wantArchived)
+      .sort((a, b) => b.p.updatedAt - a.p.updatedAt)
+      .map(({ p, role }) => ({
+        _id: p._id,
+        title: p.title,
+        updatedAt: p.updatedAt,
+        pageCount: p.order.length,
+        coverUrl: p.coverUrl,
+        archived: !!p.archivedAt,
+        role,
+      }));
+  },
+});
+
+export const create = mutation({
+  args: { title: v.optional(v.string()) },
+  returns: v.id("projects"),
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    return await ctx.db.insert("projects", {
+      title: args.title?.trim() || "Untitled project",
+      ownerId: identity.subject,
+      order: [],
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Load a whole project in the editor store's EditorDomain shape. Accepts a
+// raw route param and returns null for unknown or malformed ids, and for
+// projects the user cannot access.
+export const load = query({
+  args: { projectId: v.string() },
+  returns: v.union(
+    v.null(),
+    v.object({
+      _id: v.id("projects"),
+      title: v.string(),
+      updatedAt: v.number(),
+      role,
+      domain,
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    const projectId = ctx.db.normalizeId("projects", args.projectId);
+    const project = projectId ? await ctx.db.get(projectId) : null;
+    if (!project) return null;
+    const access = await projectRole(ctx, project, identity);
+    if (!access) return null;
+    return {
+      _id: project._id,
+      title: project.title,
+      updatedAt: project.updatedAt,
+      role: access,
+      domain: await readDomain(ctx, project),
+    };
+  },
+});
+
+// Save a full EditorDomain snapshot. Unchanged rows are left untouched.
+export const save = mutation({
+  args: { projectId: v.id("projects"), domain },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { project } = await requireProject(ctx, args.projectId);
+    await writeDomain(ctx, project._id, args.domain);
+    return null;
+  },
+});
+
+export const rename = mutation({
+  args: { projectId: v.id("projects"), title: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, "owner");
+    const title = args.title.trim();
+    if (!title) throw new ConvexError("Title cannot be empty");
+    await ctx.db.patch(args.projectId, { title, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+// Copy a project with all of its pages, children and edges. The copy
+// belongs to whoever made it, even when the source was shared with them.
+export const duplicate = mutation({
+  args: { projectId: v.id("projects") },
+  returns: v.id("projects"),
+  handler: async (ctx, args) => {
+    const { project: source, identity } = await requireProject(
+      ctx,
+      args.projectId,
+    );
+    const copyId = await ctx.db.insert("projects", {
+      title: `${source.title} copy`,
+      ownerId: identity.subject,
+      order: [],
+      updatedAt: Date.now(),
+    });
+    await writeDomain(ctx, copyId, await readDomain(ctx, source));
+    return copyId;
+  },
+});
+
+export const setArchived = mutation({
+  args: { projectId: v.id("projects"), archived: v.boolean() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, "owner");
+    await ctx.db.patch(args.projectId, {
+      archivedAt: args.archived ? Date.now() : undefined,
+    });
+    return null;
+  },
+});
+
+// Permanently delete a project and all of its rows.
+export const remove = mutation({
+  args: { projectId: v.id("projects") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { project } = await requireProject(ctx, args.projectId, "owner");
+    await deleteProjectRows(ctx, project._id);
+    await ctx.db.delete(project._id);
+    return null;
+  },
+});
+
+// Emails the project is shared with (owner only)
+export const members = query({
+  args: { projectId: v.id("projects") },
+  returns: v.array(v.object({ email: v.string(), addedAt: v.number() })),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, "owner");
+    const rows = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId_and_email", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    return rows.map(({ email, addedAt }) => ({ email, addedAt }));
+  },
+});
+
+export const share = mutation({
+  args: { projectId: v.id("projects"), email: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, "owner");
+    const email = normalizeEmail(args.email);
+    if (!/^[^@\s]+@[^@\s]+$/.test(email))
+      throw new ConvexError("Enter a valid email address");
+    const existing = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId_and_email", (q) =>
+        q.eq("projectId", args.projectId).eq("email", email),
+      )
+      .unique();
+    if (!existing)
+      await ctx.db.insert("projectMembers", {
+        projectId: args.projectId,
+        email,
+        addedAt: Date.now(),
+      });
+    return null;
+  },
+});
+
+export const unshare = mutation({
+  args: { projectId: v.id("projects"), email: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, "owner");
+    const row = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId_and_email", (q) =>
+        q
+          .eq("projectId", args.projectId)
+          .eq("email", normalizeEmail(args.email)),
+      )
+      .unique();
+    if (row) await ctx.db.delete(row._id);
+    return null;
+  },
+});
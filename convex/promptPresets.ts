@@ -0,0 +1,100 @@
+import { ConvexError, v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { requireProject } from "./lib/auth";
+import { promptPresetFields } from "./validators";
+
+// A project's prompt library: named presets (system prompt, page type,
+// style, standards, default prompt) in folders, shared by everyone who can
+// open the project. See lib/promptPresets.ts.
+
+const preset = v.object(promptPresetFields);
+
+const presetRow = v.object({
+  ...promptPresetFields,
+  _id: v.id("promptPresets"),
+  updatedAt: v.number(),
+});
+
+const clean = (p: typeof preset.type) => ({
+  ...p,
+  name: p.name.trim() || "Preset",
+  folder: p.folder.trim(),
+});
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  returns: v.array(presetRow),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const rows = await ctx.db
+      .query("promptPresets")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return rows.map((p) => ({
+      _id: p._id,
+      name: p.name,
+      folder: p.folder,
+      systemPrompt: p.systemPrompt,
+      pageType: p.pageType,
+      coloringStyle: p.coloringStyle,
+      standards: p.standards,
+      userPrompt: p.userPrompt,
+      variableRows: p.variableRows,
+      updatedAt: p.updatedAt,
+    }));
+  },
+});
+
+// Create a preset, or replace the one `presetId` names
+export const save = mutation({
+  args: {
+    projectId: v.id("projects"),
+    presetId: v.optional(v.id("promptPresets")),
+    preset,
+  },
+  returns: v.id("promptPresets"),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const fields = { ...clean(args.preset), updatedAt: Date.now() };
+    if (args.presetId) {
+      const row = await ctx.db.get(args.presetId);
+      if (!row || row.projectId !== args.projectId)
+        throw new ConvexError("Preset not found");
+      await ctx.db.replace(row._id, { ...fields, projectId: row.projectId });
+      return row._id;
+    }
+    return await ctx.db.insert("promptPresets", {
+      ...fields,
+      projectId: args.projectId,
+    });
+  },
+});
+
+// Add presets read from an exported library file
+export const importMany = mutation({
+  args: { projectId: v.id("projects"), presets: v.array(preset) },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    const now = Date.now();
+    for (const p of args.presets)
+      await ctx.db.insert("promptPresets", {
+        ...clean(p),
+        projectId: args.projectId,
+        updatedAt: now,
+      });
+    return args.presets.length;
+  },
+});
+
+export const remove = mutation({
+  args: { presetId: v.id("promptPresets") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.presetId);
+    if (!row) return null;
+    await requireProject(ctx, row.projectId);
+    await ctx.db.delete(row._id);
+    return null;
+  },
+});
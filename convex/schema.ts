@@ -1,12 +1,126 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  pageFields,
+  textChildFields,
+  imageChildFields,
+  edgeFields,
+  position,
+  promptPresetFields,
+  generationKind,
+  generationOutcome,
+} from "./validators";
+
+// Projects mirror the editor store: one row per project, one row per Page,
+// one row per child layer and one row per GraphEdge. Rows keep the client
+// ids (`id`, `pageId`) so edges and nodePositions resolve without mapping.
+const childRowFields = {
+  projectId: v.id("projects"),
+  pageId: v.string(),
+  // Index of the child in Page.children (z order)
+  position: v.number(),
+};
 
-// The schema is entirely optional.
-// You can delete this file (schema.ts) and the
-// app will continue to work.
-// The schema provides more precise TypeScript types.
 export default defineSchema({
-  numbers: defineTable({
-    value: v.number(),
-  }),
+  projects: defineTable({
+    title: v.string(),
+    // Clerk subject of the user who created the project
+    ownerId: v.string(),
+    // Top-level page ordering (EditorDomain.order)
+    order: v.array(v.string()),
+    // Thumbnail for the library: image of the first page in `order`
+    coverUrl: v.optional(v.string()),
+    // Set when the project is archived (hidden from the main library list)
+    archivedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_ownerId_and_updatedAt", ["ownerId", "updatedAt"]),
+
+  // People a project is shared with, by (lowercased) sign-in email. Members
+  // can open and edit the project; only the owner manages it.
+  projectMembers: defineTable({
+    projectId: v.id("projects"),
+    email: v.string(),
+    addedAt: v.number(),
+  })
+    .index("by_projectId_and_email", ["projectId", "email"])
+    .index("by_email", ["email"]),
+
+  pages: defineTable({
+    ...pageFields,
+    projectId: v.id("projects"),
+    // React Flow coordinates (EditorDomain.nodePositions[id])
+    position: v.optional(position),
+  }).index("by_projectId_and_id", ["projectId", "id"]),
+
+  children: defineTable(
+    v.union(
+      v.object({ ...textChildFields, ...childRowFields }),
+      v.object({ ...imageChildFields, ...childRowFields }),
+    ),
+  ).index("by_projectId_and_pageId", ["projectId", "pageId"]),
+
+  edges: defineTable({
+    ...edgeFields,
+    projectId: v.id("projects"),
+  }).index("by_projectId_and_id", ["projectId", "id"]),
+
+  // Who is looking at a project right now: one row per open editor tab,
+  // refreshed by heartbeat. pageId/childId mirror the tab's current page and
+  // selected layer.
+  presence: defineTable({
+    projectId: v.id("projects"),
+    sessionId: v.string(),
+    name: v.string(),
+    color: v.string(),
+    pageId: v.optional(v.string()),
+    childId: v.optional(v.string()),
+    updatedAt: v.number(),
+  }).index("by_projectId_and_sessionId", ["projectId", "sessionId"]),
+
+  // Named project snapshots. The domain JSON lives in asset storage
+  // (snapshotUrl) so large projects do not hit the document size limit.
+  checkpoints: defineTable({
+    projectId: v.id("projects"),
+    name: v.string(),
+    snapshotUrl: v.string(),
+    // The snapshot file, deleted with the checkpoint (unset on checkpoints
+    // whose snapshot was stored as a shared asset)
+    snapshotStorageId: v.optional(v.id("_storage")),
+    pageCount: v.number(),
+    createdAt: v.number(),
+  }).index("by_projectId_and_createdAt", ["projectId", "createdAt"]),
+
+  // The project's prompt library (lib/promptPresets.ts), shared by everyone
+  // who can open the project
+  promptPresets: defineTable({
+    ...promptPresetFields,
+    projectId: v.id("projects"),
+    updatedAt: v.number(),
+  }).index("by_projectId", ["projectId"]),
+
+  // One row per image/text generation request, for quotas and the usage
+  // view. userId is the Clerk subject.
+  generations: defineTable({
+    userId: v.string(),
+    userName: v.string(),
+    projectId: v.optional(v.id("projects")),
+    model: v.string(),
+    kind: generationKind,
+    outcome: generationOutcome,
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_userId_and_createdAt", ["userId", "createdAt"])
+    .index("by_createdAt", ["createdAt"]),
+
+  // Image bytes live in Convex file storage; pages and image children keep
+  // only the served URL. sha256 (of the stored file, computed by Convex)
+  // lets identical uploads share one file.
+  assets: defineTable({
+    storageId: v.id("_storage"),
+    url: v.string(),
+    contentType: v.string(),
+    sha256: v.string(),
+    createdAt: v.number(),
+  }).index("by_sha256", ["sha256"]),
 });
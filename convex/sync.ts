@@ -0,0 +1,21 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { syncOp } from "./validators";
+import { readDomain, writeDomain } from "./lib/projectDomain";
+import { applySyncOps } from "./lib/syncOps";
+import { requireProject } from "./lib/auth";
+
+// Live editing: clients send the ops for their local edits and pick up
+// everyone's changes through the projects.load subscription.
+
+export const applyOps = mutation({
+  args: { projectId: v.id("projects"), ops: v.array(syncOp) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { project } = await requireProject(ctx, args.projectId);
+    if (!args.ops.length) return null;
+    const current = await readDomain(ctx, project);
+    await writeDomain(ctx, project._id, applySyncOps(current, args.ops));
+    return null;
+  },
+});
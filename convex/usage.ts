@@ -0,0 +1,255 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { generationKind, generationOutcome } from "./validators";
+import { normalizeEmail, requireIdentity } from "./lib/auth";
+
+// Generation metering and quotas. The Gemini proxy calls `begin` before
+// each request (which enforces the quota and records a pending row) and
+// `finish` afterwards with the outcome.
+//
+// Limits come from the deployment environment:
+//   npx convex env set GENERATION_DAILY_QUOTA 50
+//   npx convex env set GENERATION_MONTHLY_QUOTA 500
+//
+// The usage view shows each user their own requests. Emails listed in
+// USAGE_ADMIN_EMAILS (comma separated) see everyone's.
+
+const DEFAULT_DAILY_QUOTA = 100;
+const DEFAULT_MONTHLY_QUOTA = 1000;
+
+function readLimit(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+function quotaLimits() {
+  return {
+    daily: readLimit("GENERATION_DAILY_QUOTA", DEFAULT_DAILY_QUOTA),
+    monthly: readLimit("GENERATION_MONTHLY_QUOTA", DEFAULT_MONTHLY_QUOTA),
+  };
+}
+
+function isUsageAdmin(email: string | undefined): boolean {
+  if (!email) return false;
+  const admins = (process.env.USAGE_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+  return admins.includes(normalizeEmail(email));
+}
+
+// Quota periods are calendar days and months in UTC
+function periodStarts(now: number) {
+  const d = new Date(now);
+  return {
+    day: Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()),
+    month: Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1),
+  };
+}
+
+// Requests that count against the quota: in flight or succeeded. Failed and
+// refused requests are metered but not charged.
+function counts(outcome: string): boolean {
+  return outcome === "pending" || outcome === "success";
+}
+
+async function userUsage(ctx: QueryCtx, userId: string, now: number) {
+  const { day, month } = periodStarts(now);
+  const rows = await ctx.db
+    .query("generations")
+    .withIndex("by_userId_and_createdAt", (q) =>
+      q.eq("userId", userId).gte("createdAt", month),
+    )
+    .collect();
+  const charged = rows.filter((r) => counts(r.outcome));
+  return {
+    today: charged.filter((r) => r.createdAt >= day).length,
+    month: charged.length,
+  };
+}
+
+export const begin = internalMutation({
+  args: {
+    userId: v.string(),
+    userName: v.string(),
+    projectId: v.optional(v.string()),
+    model: v.string(),
+    kind: generationKind,
+  },
+  returns: v.union(
+    v.object({ ok: v.literal(true), generationId: v.id("generations") }),
+    v.object({ ok: v.literal(false), message: v.string() }),
+  ),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const limits = quotaLimits();
+    const used = await userUsage(ctx, args.userId, now);
+    const projectId = args.projectId
+      ? (ctx.db.normalizeId("projects", args.projectId) ?? undefined)
+      : undefined;
+    const row = {
+      userId: args.userId,
+      userName: args.userName,
+      projectId,
+      model: args.model,
+      kind: args.kind,
+      createdAt: now,
+    };
+    let message: string | null = null;
+    if (used.today >= limits.daily)
+      message = `Daily generation limit reached (${limits.daily} per day). Try again tomorrow.`;
+    else if (used.month >= limits.monthly)
+      message = `Monthly generation limit reached (${limits.monthly} per month).`;
+    if (message) {
+      await ctx.db.insert("generations", {
+        ...row,
+        outcome: "quota_exceeded",
+      });
+      return { ok: false as const, message };
+    }
+    const generationId = await ctx.db.insert("generations", {
+      ...row,
+      outcome: "pending",
+    });
+    return { ok: true as const, generationId };
+  },
+});
+
+export const finish = internalMutation({
+  args: {
+    generationId: v.id("generations"),
+    outcome: v.union(v.literal("success"), v.literal("error")),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.generationId, {
+      outcome: args.outcome,
+      error: args.error?.slice(0, 500),
+    });
+    return null;
+  },
+});
+
+const periodTotals = v.object({
+  today: v.number(),
+  month: v.number(),
+  failed: v.number(),
+  refused: v.number(),
+});
+
+// This month's consumption per user and per project, plus recent requests.
+// `scope` says whether the rows cover everyone or only the caller.
+export const overview = query({
+  args: {},
+  returns: v.object({
+    scope: v.union(v.literal("all"), v.literal("mine")),
+    limits: v.object({ daily: v.number(), monthly: v.number() }),
+    users: v.array(
+      v.object({
+        userId: v.string(),
+        userName: v.string(),
+        ...periodTotals.fields,
+      }),
+    ),
+    projects: v.array(
+      v.object({
+        projectId: v.id("projects"),
+        title: v.string(),
+        ...periodTotals.fields,
+      }),
+    ),
+    recent: v.array(
+      v.object({
+        _id: v.id("generations"),
+        userName: v.string(),
+        projectTitle: v.optional(v.string()),
+        model: v.string(),
+        kind: generationKind,
+        outcome: generationOutcome,
+        error: v.optional(v.string()),
+        createdAt: v.number(),
+      }),
+    ),
+  }),
+  handler: async (ctx) => {
+    const identity = await requireIdentity(ctx);
+    const admin = isUsageAdmin(identity.email);
+    const now = Date.now();
+    const { day, month } = periodStarts(now);
+    const rows = admin
+      ? await ctx.db
+          .query("generations")
+          .withIndex("by_createdAt", (q) => q.gte("createdAt", month))
+          .order("desc")
+          .collect()
+      : await ctx.db
+          .query("generations")
+          .withIndex("by_userId_and_createdAt", (q) =>
+            q.eq("userId", identity.subject).gte("createdAt", month),
+          )
+          .order("desc")
+          .collect();
+
+    type Totals = {
+      today: number;
+      month: number;
+      failed: number;
+      refused: number;
+    };
+    const tally = (t: Totals, r: (typeof rows)[number]) => {
+      if (counts(r.outcome)) {
+        t.month++;
+        if (r.createdAt >= day) t.today++;
+      } else if (r.outcome === "error") t.failed++;
+      else t.refused++;
+    };
+    const empty = (): Totals => ({ today: 0, month: 0, failed: 0, refused: 0 });
+
+    const users = new Map<string, { userName: string } & Totals>();
+    const projects = new Map<string, Totals>();
+    for (const r of rows) {
+      const u = users.get(r.userId) ?? { userName: r.userName, ...empty() };
+      tally(u, r);
+      users.set(r.userId, u);
+      if (r.projectId) {
+        const p = projects.get(r.projectId) ?? empty();
+        tally(p, r);
+        projects.set(r.projectId, p);
+      }
+    }
+
+    const titles = new Map<string, string>();
+    for (const id of projects.keys()) {
+      const projectId = ctx.db.normalizeId("projects", id);
+      const project = projectId ? await ctx.db.get(projectId) : null;
+      titles.set(id, project?.title ?? "Deleted project");
+    }
+
+    return {
+      scope: admin ? ("all" as const) : ("mine" as const),
+      limits: quotaLimits(),
+      users: [...users.entries()]
+        .map(([userId, u]) => ({ userId, ...u }))
+        .sort((a, b) => b.month - a.month),
+      projects: [...projects.entries()]
+        .map(([id, p]) => ({
+          projectId: ctx.db.normalizeId("projects", id)!,
+          title: titles.get(id)!,
+          ...p,
+        }))
+        .sort((a, b) => b.month - a.month),
+      recent: rows.slice(0, 50).map((r) => ({
+        _id: r._id,
+        userName: r.userName,
+        projectTitle: r.projectId ? titles.get(r.projectId) : undefined,
+        model: r.model,
+        kind: r.kind,
+        outcome: r.outcome,
+        error: r.error,
+        createdAt: r.createdAt,
+      })),
+    };
+  },
+});
@@ -0,0 +1,226 @@
+import { v } from "convex/values";
+
+// Validators mirroring the editor domain types in store/useEditorStore.ts.
+// Keep these in sync when Page, TextChild, ImageChild or GraphEdge change.
+
+export const orientation = v.union(
+  v.literal("portrait"),
+  v.literal("landscape"),
+);
+
+const childBaseFields = {
+  id: v.string(),
+  x: v.number(),
+  y: v.number(),
+  width: v.number(),
+  height: v.number(),
+  angle: v.number(),
+  visible: v.optional(v.boolean()),
+  locked: v.optional(v.boolean()),
+  z: v.optional(v.number()),
+  taskId: v.optional(v.string()),
+};
+
+export const textChildFields = {
+  ...childBaseFields,
+  type: v.literal("text"),
+  text: v.string(),
+  fontFamily: v.string(),
+  fontSize: v.number(),
+  fontWeight: v.union(v.literal("normal"), v.literal("bold")),
+  italic: v.optional(v.boolean()),
+  align: v.optional(
+    v.union(v.literal("left"), v.literal("center"), v.literal("right")),
+  ),
+};
+
+// Provenance in store/useEditorStore.ts
+export const provenance = v.object({
+  operation: v.union(
+    v.literal("generate"),
+    v.literal("transform"),
+    v.literal("mask"),
+  ),
+  provider: v.string(),
+  model: v.string(),
+  instruction: v.string(),
+  parentPageId: v.optional(v.string()),
+  sourceImageUrl: v.optional(v.string()),
+  maskUrl: v.optional(v.string()),
+  createdAt: v.number(),
+  durationMs: v.number(),
+});
+
+export const imageChildFields = {
+  ...childBaseFields,
+  type: v.literal("image"),
+  src: v.optional(v.string()),
+  placeholder: v.optional(v.boolean()),
+  crop: v.optional(
+    v.union(
+      v.null(),
+      v.object({
+        left: v.number(),
+        top: v.number(),
+        width: v.number(),
+        height: v.number(),
+      }),
+    ),
+  ),
+  provenance: v.optional(provenance),
+};
+
+export const child = v.union(
+  v.object(textChildFields),
+  v.object(imageChildFields),
+);
+
+// WorksheetSpec in store/useEditorStore.ts
+export const worksheetSpec = v.object({
+  instruction: v.string(),
+  tasks: v.array(
+    v.object({
+      id: v.string(),
+      prompt: v.string(),
+      quantity: v.number(),
+      manipulative: v.string(),
+      answer: v.string(),
+    }),
+  ),
+});
+
+// PageQa in store/useEditorStore.ts
+export const pageQa = v.object({
+  checks: v.array(
+    v.object({
+      id: v.string(),
+      label: v.string(),
+      status: v.union(v.literal("pass"), v.literal("warn"), v.literal("fail")),
+      detail: v.optional(v.string()),
+    }),
+  ),
+  checkedAt: v.number(),
+});
+
+// PageReview in store/useEditorStore.ts
+export const pageReview = v.object({
+  reasons: v.array(v.string()),
+  createdAt: v.number(),
+  children: v.array(child),
+  imageUrl: v.optional(v.string()),
+  originalImageUrl: v.optional(v.string()),
+  provenance: v.optional(provenance),
+  worksheetSpec: v.optional(worksheetSpec),
+});
+
+export const pageType = v.union(v.literal("worksheet"), v.literal("coloring"));
+
+export const coloringStyle = v.union(
+  v.literal("classic"),
+  v.literal("anime"),
+  v.literal("retro"),
+);
+
+// Page fields stored on a pages row (children live in their own table)
+export const pageFields = {
+  id: v.string(),
+  title: v.string(),
+  orientation,
+  imageUrl: v.optional(v.string()),
+  originalImageUrl: v.optional(v.string()),
+  prompt: v.optional(v.string()),
+  systemPrompt: v.optional(v.string()),
+  systemPromptEdited: v.optional(v.boolean()),
+  promptPresetKey: v.optional(v.union(v.string(), v.null())),
+  bwThreshold: v.optional(v.number()),
+  pageType: v.optional(pageType),
+  coloringStyle: v.optional(coloringStyle),
+  standards: v.optional(v.array(v.string())),
+  variableRows: v.optional(v.array(v.record(v.string(), v.string()))),
+  worksheetSpec: v.optional(worksheetSpec),
+  answerKeyFor: v.optional(v.string()),
+  qa: v.optional(pageQa),
+  provenance: v.optional(provenance),
+  review: v.optional(pageReview),
+};
+
+export const page = v.object({ ...pageFields, children: v.array(child) });
+
+// PresetDraft in lib/promptPresets.ts
+export const promptPresetFields = {
+  name: v.string(),
+  folder: v.string(),
+  systemPrompt: v.string(),
+  pageType,
+  coloringStyle: v.optional(coloringStyle),
+  standards: v.array(v.string()),
+  userPrompt: v.string(),
+  variableRows: v.optional(v.array(v.record(v.string(), v.string()))),
+};
+
+export const edgeFields = {
+  id: v.string(),
+  source: v.string(),
+  target: v.string(),
+};
+
+export const edge = v.object(edgeFields);
+
+export const position = v.object({ x: v.number(), y: v.number() });
+
+// EditorDomain: the content-only slice of the editor store
+export const domain = v.object({
+  pages: v.record(v.string(), page),
+  order: v.array(v.string()),
+  nodePositions: v.record(v.string(), position),
+  edges: v.array(edge),
+});
+
+// Sync ops: the unit of live collaboration (see convex/lib/syncOps.ts).
+// Puts carry the whole record; `changed` lists the fields the sender
+// actually edited so concurrent edits to other fields are kept. Without
+// `changed` a put creates (or fully replaces) the record.
+export const syncOp = v.union(
+  v.object({
+    type: v.literal("putPage"),
+    page: v.object(pageFields),
+    changed: v.optional(v.array(v.string())),
+  }),
+  v.object({ type: v.literal("deletePage"), id: v.string() }),
+  v.object({ type: v.literal("movePage"), id: v.string(), position }),
+  v.object({ type: v.literal("setOrder"), order: v.array(v.string()) }),
+  v.object({
+    type: v.literal("putChild"),
+    pageId: v.string(),
+    child,
+    changed: v.optional(v.array(v.string())),
+  }),
+  v.object({
+    type: v.literal("deleteChild"),
+    pageId: v.string(),
+    id: v.string(),
+  }),
+  v.object({
+    type: v.literal("setChildOrder"),
+    pageId: v.string(),
+    order: v.array(v.string()),
+  }),
+  v.object({ type: v.literal("putEdge"), edge }),
+  v.object({ type: v.literal("deleteEdge"), id: v.string() }),
+);
+
+// Generation metering (convex/usage.ts). The kind is the editor operation;
+// the model id is recorded separately.
+export const generationKind = v.union(
+  v.literal("generate"),
+  v.literal("transform"),
+  v.literal("mask-edit"),
+  v.literal("text"),
+);
+
+export const generationOutcome = v.union(
+  v.literal("pending"),
+  v.literal("success"),
+  v.literal("error"),
+  v.literal("quota_exceeded"),
+);
@@ -1,3 +1,8 @@
 export { useEvent } from "./useEvent";
 export { useDropAndPasteImport } from "./useDropAndPasteImport";
 export { useKeyboardShortcuts } from "./useKeyboardShortcuts";
+export { useWorkspacePersistence } from "./useWorkspacePersistence";
+export { useProjectPersistence } from "./useProjectPersistence";
+export { usePresence } from "./usePresence";
+export { useCheckpoints } from "./useCheckpoints";
+export { usePromptPresets } from "./usePromptPresets";
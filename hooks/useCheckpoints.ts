@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  useEditorStore,
+  selectDomain,
+  type EditorDomain,
+} from "@/store/useEditorStore";
+import {
+  parseSnapshot,
+  serializeSnapshot,
+  type CheckpointSummary,
+} from "@/lib/checkpoints";
+import { mapDomainImages } from "@/lib/persist/images";
+import { toStoredImages } from "@/lib/persist/workspace";
+import {
+  deleteLocalCheckpoint,
+  listLocalCheckpoints,
+  loadLocalCheckpoint,
+  saveLocalCheckpoint,
+} from "@/lib/persist/checkpoints";
+import { persistImage } from "@/lib/assets";
+
+/**
+ * Named checkpoints for whatever the editor has open: the Convex project
+ * when `projectId` is set, otherwise the local IndexedDB workspace
+ * `workspaceKey`. `checkpoints` is undefined while loading.
+ *
+ * `stable` maps a domain's images to durable references (asset URLs or
+ * stored blob refs) so the current state and a checkpoint can be diffed by
+ * image content.
+ */
+export function useCheckpoints(
+  projectId: Id<"projects"> | null,
+  workspaceKey: string | null,
+) {
+  const remote = useQuery(
+    api.checkpoints.list,
+    projectId ? { projectId } : "skip",
+  );
+  const createRemote = useAction(api.checkpoints.create);
+  const removeRemote = useMutation(api.checkpoints.remove);
+  const [local, setLocal] = useState<CheckpointSummary[] | undefined>();
+
+  const refreshLocal = useCallback(async () => {
+    if (!workspaceKey || projectId) return;
+    try {
+      setLocal(await listLocalCheckpoints(workspaceKey));
+    } catch {
+      setLocal([]);
+    }
+  }, [workspaceKey, projectId]);
+
+  useEffect(() => {
+    void refreshLocal();
+  }, [refreshLocal]);
+
+  const checkpoints: CheckpointSummary[] | undefined = projectId
+    ? remote?.map((c) => ({
+        id: c._id,
+        name: c.name,
+        createdAt: c.createdAt,
+        pageCount: c.pageCount,
+      }))
+    : local;
+
+  const stable = useCallback(
+    (domain: EditorDomain) =>
+      projectId
+        ? mapDomainImages(domain, persistImage)
+        : toStoredImages(domain),
+    [projectId],
+  );
+
+  const create = useCallback(
+    async (name: string) => {
+      const domain = selectDomain(useEditorStore.getState());
+      if (projectId) {
+        const stored = await mapDomainImages(domain, persistImage);
+        const snapshot = await serializeSnapshot(stored).arrayBuffer();
+        await createRemote({
+          projectId,
+          name,
+          snapshot,
+          pageCount: stored.order.length,
+        });
+      } else if (workspaceKey) {
+        await saveLocalCheckpoint(workspaceKey, name, domain);
+        await refreshLocal();
+      }
+    },
+    [projectId, workspaceKey, createRemote, refreshLocal],
+  );
+
+  const load = useCallback(
+    async (id: string): Promise<EditorDomain> => {
+      if (projectId) {
+        const row = remote?.find((c) => c._id === id);
+        if (!row) throw new Error("Checkpoint not found");
+        const res = await fetch(row.snapshotUrl);
+        if (!res.ok)
+          throw new Error(`Could not load checkpoint (${res.status})`);
+        return parseSnapshot(await res.json());
+      }
+      const domain = workspaceKey
+        ? await loadLocalCheckpoint(workspaceKey, id)
+        : null;
+      if (!domain) throw new Error("Checkpoint not found");
+      return domain;
+    },
+    [projectId, workspaceKey, remote],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (projectId)
+        await removeRemote({ checkpointId: id as Id<"checkpoints"> });
+      else if (workspaceKey) {
+        await deleteLocalCheckpoint(workspaceKey, id);
+        await refreshLocal();
+      }
+    },
+    [projectId, workspaceKey, removeRemote, refreshLocal],
+  );
+
+  return { checkpoints, create, load, remove, stable };
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { newId } from "@/lib/ids";
+import { useEditorStore, useCurrentPageId } from "@/store/useEditorStore";
+import { usePresenceStore, type Peer } from "@/store/usePresenceStore";
+
+const HEARTBEAT_MS = 10_000;
+const COLORS = [
+  "#e11d48",
+  "#d97706",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#c026d3",
+];
+
+function colorFor(sessionId: string): string {
+  let h = 0;
+  for (let i = 0; i < sessionId.length; i++)
+    h = (h * 31 + sessionId.charCodeAt(i)) | 0;
+  return COLORS[Math.abs(h) % COLORS.length];
+}
+
+/**
+ * Announce this tab in a project's presence list (current page and selected
+ * layer) and mirror everyone else into usePresenceStore. The server names
+ * each tab after its signed-in user. Pass null to stay offline, e.g. before
+ * the project has loaded.
+ */
+export function usePresence(projectId: Id<"projects"> | null) {
+  const heartbeat = useMutation(api.presence.heartbeat);
+  const leave = useMutation(api.presence.leave);
+  const [me] = useState(() => {
+    const sessionId = newId("s");
+    return { sessionId, color: colorFor(sessionId) };
+  });
+  const pageId = useCurrentPageId();
+  const childId = useEditorStore((s) =>
+    s.currentPageId
+      ? (s.pages[s.currentPageId]?.selectedChildId ?? null)
+      : null,
+  );
+  const rows = useQuery(api.presence.list, projectId ? { projectId } : "skip");
+
+  useEffect(() => {
+    const peers: Peer[] = (rows ?? [])
+      .filter((r) => r.sessionId !== me.sessionId)
+      .map(({ sessionId, name, color, pageId, childId }) => ({
+        sessionId,
+        name,
+        color,
+        pageId,
+        childId,
+      }));
+    usePresenceStore.getState().setPeers(peers);
+  }, [rows, me.sessionId]);
+
+  // Beat immediately on every page/selection change, then on an interval
+  useEffect(() => {
+    if (!projectId) return;
+    const beat = () =>
+      void heartbeat({
+        projectId,
+        ...me,
+        pageId: pageId ?? undefined,
+        childId: childId ?? undefined,
+      }).catch(() => {});
+    beat();
+    const timer = window.setInterval(beat, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [projectId, pageId, childId, heartbeat, me]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    const bye = () =>
+      void leave({ projectId, sessionId: me.sessionId }).catch(() => {});
+    window.addEventListener("pagehide", bye);
+    return () => {
+      window.removeEventListener("pagehide", bye);
+      bye();
+      usePresenceStore.getState().setPeers([]);
+    };
+  }, [projectId, leave, me.sessionId]);
+
+  return me;
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { useEvent } from "@/hooks/useEvent";
+import {
+  useEditorStore,
+  selectDomain,
+  clearHistory,
+  emptyDomain,
+  writeUI,
+  type EditorDomain,
+} from "@/store/useEditorStore";
+import { mapDomainImages } from "@/lib/persist/images";
+import { persistImage } from "@/lib/assets";
+import { applySyncOps, diffDomain } from "@/convex/lib/syncOps";
+
+// Short enough that collaborators see edits almost live, long enough to
+// coalesce a burst of canvas events into one mutation
+const SYNC_DEBOUNCE_MS = 250;
+
+/**
+ * Bind the editor store to a Convex project and keep it in live sync.
+ *
+ * - The project is loaded once into the store (resetting whatever was there).
+ * - Local edits are diffed against the last server snapshot (`base`) and sent
+ *   as sync ops (convex/sync.ts), debounced. Local images are uploaded to
+ *   asset storage first so collaborators can load them.
+ * - Every server update (our own ops echoing back, or someone else's) is
+ *   diffed against `base` and the resulting ops are applied to the local
+ *   state, then local edits not confirmed yet are replayed on top. They are
+ *   sent after the remote ones, so the server (and so every client) ends up
+ *   with the same result. Remote changes are written outside undo history.
+ *
+ * Returns the loaded project (undefined while loading, null if missing) and
+ * whether the store now holds this project's pages.
+ */
+export function useProjectPersistence(
+  projectId: string | null,
+  onError?: (msg: string) => void,
+) {
+  const project = useQuery(
+    api.projects.load,
+    projectId ? { projectId } : "skip",
+  );
+  const sendOps = useMutation(api.sync.applyOps);
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const errorLatest = useEvent(onError ?? (() => {}));
+  // Last domain the server confirmed; local changes are measured against it
+  const baseRef = useRef<EditorDomain | null>(null);
+
+  // Each project gets its own store state: clear on switch
+  useEffect(() => {
+    if (!projectId) return;
+    baseRef.current = null;
+    useEditorStore.getState().actions.loadDomain(emptyDomain());
+    clearHistory();
+    setLoadedId(null);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!projectId || !project) return;
+    const remote: EditorDomain = project.domain;
+    const base = baseRef.current;
+    baseRef.current = remote;
+    if (!base) {
+      useEditorStore.getState().actions.loadDomain(remote);
+      clearHistory();
+      setLoadedId(projectId);
+      return;
+    }
+    const ops = diffDomain(base, remote);
+    if (!ops.length) return;
+    const s = useEditorStore.getState();
+    // Re-assert edits that have not reached the server yet (including ones
+    // still in flight) so an echo never rolls back newer local changes
+    const pending = diffDomain(base, selectDomain(s));
+    const merged = applySyncOps(applySyncOps(s, ops), pending) as EditorDomain;
+    writeUI(() => s.actions.syncDomain(merged));
+  }, [projectId, project]);
+
+  useEffect(() => {
+    if (!projectId || loadedId !== projectId) return;
+    let dirty = false;
+    let timer: number | null = null;
+    let sending: Promise<void> = Promise.resolve();
+    let reportedError = false;
+
+    // Sends are chained so ops always reach the server in edit order
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (!dirty) return;
+      dirty = false;
+      sending = sending
+        .then(async () => {
+          const local = await mapDomainImages(
+            selectDomain(useEditorStore.getState()),
+            persistImage,
+          );
+          if (!baseRef.current) return;
+          const ops = diffDomain(baseRef.current, local);
+          if (!ops.length) return;
+          await sendOps({ projectId: projectId as Id<"projects">, ops });
+          if (baseRef.current)
+            baseRef.current = applySyncOps(
+              baseRef.current,
+              ops,
+            ) as EditorDomain;
+          reportedError = false;
+        })
+        .catch(() => {
+          // Keep the edits pending; the next change sends them again
+          dirty = true;
+          if (reportedError) return;
+          reportedError = true;
+          errorLatest("Could not sync the project");
+        });
+    };
+
+    const unsubscribe = useEditorStore.subscribe((s, prev) => {
+      if (
+        s.pages === prev.pages &&
+        s.order === prev.order &&
+        s.edges === prev.edges &&
+        s.nodePositions === prev.nodePositions
+      )
+        return;
+      dirty = true;
+      if (timer) clearTimeout(timer);
+      timer = window.setTimeout(flush, SYNC_DEBOUNCE_MS);
+    });
+    window.addEventListener("pagehide", flush);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [projectId, loadedId, sendOps, errorLatest]);
+
+  return { project, ready: !!projectId && loadedId === projectId };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { newId } from "@/lib/ids";
+import {
+  BUILT_IN_PRESETS,
+  readLocalPresets,
+  writeLocalPresets,
+  type PresetDraft,
+  type PromptPreset,
+} from "@/lib/promptPresets";
+
+/**
+ * The prompt library of whatever the editor has open: the Convex project's
+ * presets when `projectId` is set, otherwise this browser's. `presets`
+ * always starts with the built-in presets; saved ones follow once loaded.
+ */
+export function usePromptPresets(projectId: Id<"projects"> | null) {
+  const remote = useQuery(
+    api.promptPresets.list,
+    projectId ? { projectId } : "skip",
+  );
+  const saveRemote = useMutation(api.promptPresets.save);
+  const importRemote = useMutation(api.promptPresets.importMany);
+  const removeRemote = useMutation(api.promptPresets.remove);
+  const [local, setLocal] = useState<PromptPreset[]>([]);
+
+  useEffect(() => {
+    if (!projectId) setLocal(readLocalPresets());
+  }, [projectId]);
+
+  const updateLocal = useCallback(
+    (next: (prev: PromptPreset[]) => PromptPreset[]) => {
+      const presets = next(readLocalPresets());
+      writeLocalPresets(presets);
+      setLocal(presets);
+    },
+    [],
+  );
+
+  const presets: PromptPreset[] = useMemo(
+    () => [
+      ...BUILT_IN_PRESETS,
+      ...(projectId
+        ? (remote || []).map(({ _id, ...p }) => ({ ...p, id: _id }))
+        : local),
+    ],
+    [projectId, remote, local],
+  );
+
+  // Save a new preset, or replace the saved preset `id`; returns its id
+  const save = useCallback(
+    async (draft: PresetDraft, id?: string): Promise<string> => {
+      if (projectId)
+        return await saveRemote({
+          projectId,
+          presetId: id as Id<"promptPresets"> | undefined,
+          preset: draft,
+        });
+      const presetId = id || newId("preset");
+      updateLocal((prev) => [
+        ...prev.filter((p) => p.id !== presetId),
+        { ...draft, id: presetId, updatedAt: Date.now() },
+      ]);
+      return presetId;
+    },
+    [projectId, saveRemote, updateLocal],
+  );
+
+  const importPresets = useCallback(
+    async (drafts: PresetDraft[]) => {
+      if (projectId) await importRemote({ projectId, presets: drafts });
+      else
+        updateLocal((prev) => [
+          ...prev,
+          ...drafts.map((d) => ({
+            ...d,
+            id: newId("preset"),
+            updatedAt: Date.now(),
+          })),
+        ]);
+    },
+    [projectId, importRemote, updateLocal],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (projectId)
+        await removeRemote({ presetId: id as Id<"promptPresets"> });
+      else updateLocal((prev) => prev.filter((p) => p.id !== id));
+    },
+    [projectId, removeRemote, updateLocal],
+  );
+
+  return {
+    presets,
+    loading: !!projectId && remote === undefined,
+    save,
+    importPresets,
+    remove,
+  };
+}
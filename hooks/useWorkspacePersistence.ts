@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useEvent } from "@/hooks/useEvent";
+import {
+  useEditorStore,
+  selectDomain,
+  clearHistory,
+  emptyDomain,
+} from "@/store/useEditorStore";
+import { isIndexedDbAvailable } from "@/lib/persist/idb";
+import {
+  loadWorkspace,
+  saveWorkspace,
+  collectUnusedBlobs,
+} from "@/lib/persist/workspace";
+
+const SAVE_DEBOUNCE_MS = 800;
+
+/**
+ * Restore the editor domain from IndexedDB on mount, then save it back
+ * (debounced) whenever pages, order, edges or nodePositions change.
+ *
+ * Returns true once the restore attempt has finished, so callers can avoid
+ * acting on the empty pre-restore store. Pass a null key to disable (e.g.
+ * when the editor is bound to a Convex project instead).
+ */
+export function useWorkspacePersistence(
+  key: string | null,
+  onError?: (msg: string) => void,
+) {
+  const [restored, setRestored] = useState(false);
+  const errorLatest = useEvent(onError ?? (() => {}));
+
+  useEffect(() => {
+    if (!key) return;
+    // The store is global: drop whatever another workspace left behind
+    useEditorStore.getState().actions.loadDomain(emptyDomain());
+    clearHistory();
+    if (!isIndexedDbAvailable()) {
+      setRestored(true);
+      return;
+    }
+    let cancelled = false;
+    let dirty = false;
+    let timer: number | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let saving: Promise<void> = Promise.resolve();
+    let reportedSaveError = false;
+
+    // Saves are chained so an older snapshot never lands after a newer one
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (!dirty) return;
+      dirty = false;
+      const domain = selectDomain(useEditorStore.getState());
+      saving = saving
+        .then(() => saveWorkspace(key, domain))
+        .catch(() => {
+          if (reportedSaveError) return;
+          reportedSaveError = true;
+          errorLatest("Could not save your work in this browser");
+        });
+    };
+
+    (async () => {
+      try {
+        const saved = await loadWorkspace(key);
+        if (cancelled) return;
+        // Never clobber pages the user created while the restore was running
+        const s = useEditorStore.getState();
+        if (saved && saved.order.length && !s.order.length) {
+          s.actions.loadDomain(saved);
+          clearHistory();
+        }
+        void collectUnusedBlobs().catch(() => {});
+      } catch {
+        errorLatest("Could not restore saved work");
+      }
+      if (cancelled) return;
+      setRestored(true);
+      unsubscribe = useEditorStore.subscribe((s, prev) => {
+        if (
+          s.pages === prev.pages &&
+          s.order === prev.order &&
+          s.edges === prev.edges &&
+          s.nodePositions === prev.nodePositions
+        )
+          return;
+        dirty = true;
+        if (timer) clearTimeout(timer);
+        timer = window.setTimeout(flush, SAVE_DEBOUNCE_MS);
+      });
+    })();
+
+    const onHidden = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", onHidden);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      document.removeEventListener("visibilitychange", onHidden);
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [key, errorLatest]);
+
+  return restored;
+}
@@ -0,0 +1,123 @@
+import { pagePx } from "@/lib/image/pageMetrics";
+import {
+  generateTextFromImage,
+  type GenerationOptions,
+} from "@/lib/nanoBanana";
+import {
+  ANSWER_LINE,
+  retext,
+  specMatchesLayers,
+  textLayer,
+} from "@/lib/worksheetSpec";
+import { newId } from "@/lib/ids";
+import type {
+  ImageChild,
+  Orientation,
+  Page,
+  TextChild,
+} from "@/store/useEditorStore";
+
+/**
+ * Answer keys for worksheet pages. A key is its own page (Page.answerKeyFor
+ * names the worksheet), joined to the worksheet by a graph edge. When the
+ * worksheet was laid out from a task spec (lib/worksheetSpec.ts) the key is
+ * the worksheet with each answer line filled in; otherwise the text model
+ * solves the flattened page and the key shows a small copy of the
+ * worksheet next to the numbered answers.
+ */
+
+const MARGIN = 48;
+const GAP = 16;
+
+// Whether a key can be built from the page's spec without the model: only
+// while the spec still describes the layers
+export const hasSpecAnswers = (page: Page) => specMatchesLayers(page);
+
+// The worksheet's layers with every task's answer written in
+export function answerKeyFromSpec(page: Page): Page["children"] {
+  const tasks = page.worksheetSpec?.tasks || [];
+  const children = [...page.children];
+  for (const task of tasks) {
+    const answer = `Answer: ${task.answer || "?"}`;
+    const line = children.findIndex(
+      (c) =>
+        c.type === "text" && c.taskId === task.id && c.text === ANSWER_LINE,
+    );
+    if (line >= 0) {
+      children[line] = retext(children[line] as TextChild, answer);
+      continue;
+    }
+    // The answer line was edited or removed: write over the picture's foot
+    const picture = children.find(
+      (c) => c.type === "image" && c.taskId === task.id,
+    );
+    if (!picture) continue;
+    const label = textLayer(answer, picture.x, 0, picture.width, 22);
+    label.y = picture.y + picture.height - label.height;
+    children.push({ ...label, taskId: task.id });
+  }
+  const { pxH } = pagePx(page.orientation);
+  children.push(textLayer("Answer Key", MARGIN, pxH - MARGIN + 8, 300, 16));
+  return children;
+}
+
+/**
+ * Ask the text model to solve a worksheet from its image (base64 PNG).
+ * Returns one answer per task, in reading order.
+ */
+export async function solveWorksheetImage(
+  image: string,
+  opts: GenerationOptions = {},
+): Promise<string[]> {
+  const reply = await generateTextFromImage(
+    [
+      "This is a kindergarten math worksheet. Solve every task on it.",
+      "Reply with one line per task in reading order (left to right, top to bottom): the task number, a period, and the answer only, such as 1. 7",
+      "No other text.",
+    ].join("\n"),
+    image,
+    opts,
+  );
+  const answers = reply
+    .split(/\r?\n/)
+    .map((l) => /^\s*\d+\s*[.):]\s*(.+?)\s*$/.exec(l)?.[1])
+    .filter((a): a is string => !!a);
+  if (!answers.length)
+    throw new Error("The model did not return any answers. Try again.");
+  return answers;
+}
+
+/**
+ * Key layout for a worksheet without a spec: a title, a reduced copy of
+ * the worksheet (`worksheetUrl`, the flattened page) and the numbered
+ * answers beside it.
+ */
+export function answerKeyFromAnswers(
+  worksheetUrl: string,
+  answers: string[],
+  orientation: Orientation,
+): Page["children"] {
+  const { pxW, pxH } = pagePx(orientation);
+  const title = textLayer("Answer Key", MARGIN, MARGIN, pxW, 28, true);
+  const top = MARGIN + title.height + GAP;
+  const copyW = Math.round((pxW - 2 * MARGIN) * 0.55);
+  const copy: ImageChild = {
+    id: newId("img"),
+    type: "image",
+    x: MARGIN,
+    y: top,
+    width: copyW,
+    height: Math.round((copyW * pxH) / pxW),
+    angle: 0,
+    src: worksheetUrl,
+  };
+  const listX = MARGIN + copyW + 2 * GAP;
+  const listW = pxW - MARGIN - listX;
+  let y = top;
+  const lines = answers.map((a, i) => {
+    const line = textLayer(`${i + 1}. ${a}`, listX, y, listW, 22);
+    y += line.height + GAP / 2;
+    return line;
+  });
+  return [title, copy, ...lines];
+}
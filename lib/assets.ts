@@ -0,0 +1,77 @@
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { convex } from "@/lib/convexClient";
+import { hashBlob, urlToBlob } from "@/lib/persist/images";
+
+/**
+ * Asset layer: move image bytes out of the domain and into Convex storage.
+ *
+ * Generation and import paths produce blob: or data: URLs. Committing those
+ * into Page.imageUrl / ImageChild.src bloats every history snapshot and dies
+ * on reload, so callers pass results through persistImage() first and store
+ * the returned asset URL instead.
+ */
+
+// Content hash -> asset URL, so repeat uploads in a session are free
+const uploadedByHash = new Map<string, string>();
+// Local URL -> asset URL for URLs we have already uploaded
+const uploadedByUrl = new Map<string, string>();
+// Off in the anonymous "try it" editor, whose images stay in the browser
+let uploadsEnabled = true;
+
+export function setAssetUploadsEnabled(enabled: boolean) {
+  uploadsEnabled = enabled;
+}
+
+// Served (http/https) URLs are already stable and need no upload
+export function isAssetUrl(url?: string | null): boolean {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+// Upload bytes as a content-addressed asset and return its served URL
+export async function uploadBlob(blob: Blob): Promise<string> {
+  const sha256 = await hashBlob(blob);
+  const known = uploadedByHash.get(sha256);
+  if (known) return known;
+  const uploadUrl = await convex.mutation(api.assets.generateUploadUrl, {});
+  const res = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": blob.type || "image/png" },
+    body: blob,
+  });
+  if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+  const { storageId } = (await res.json()) as { storageId: Id<"_storage"> };
+  const { url } = await convex.mutation(api.assets.create, {
+    storageId,
+    contentType: blob.type || "image/png",
+  });
+  uploadedByHash.set(sha256, url);
+  return url;
+}
+
+/**
+ * Upload a local image (blob: or data: URL) and return its stable asset URL.
+ * Remote URLs are returned unchanged. If the upload fails the local URL is
+ * returned so editing keeps working offline; workspace persistence still
+ * saves its bytes to IndexedDB. With uploads disabled local URLs are
+ * returned as they are.
+ */
+export async function persistImage(url: string): Promise<string> {
+  if (isAssetUrl(url) || !uploadsEnabled) return url;
+  const known = uploadedByUrl.get(url);
+  if (known) return known;
+  try {
+    const assetUrl = await uploadBlob(await urlToBlob(url));
+    uploadedByUrl.set(url, assetUrl);
+    return assetUrl;
+  } catch (err) {
+    console.warn("Image upload failed; keeping local image", err);
+    return url;
+  }
+}
+
+export async function persistOptionalImage(
+  url: string | undefined,
+): Promise<string | undefined> {
+  return url ? persistImage(url) : url;
+}
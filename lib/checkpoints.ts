@@ -0,0 +1,66 @@
+import type { EditorDomain, Page } from "@/store/useEditorStore";
+import { sameValue } from "@/convex/lib/values";
+
+/**
+ * Checkpoints: named snapshots of the editor domain (the same content-only
+ * slice that undo history records, see selectDomain). Convex projects keep
+ * them in the checkpoints table; the local workspace keeps them in
+ * IndexedDB (lib/persist/checkpoints.ts).
+ */
+
+export type CheckpointSummary = {
+  id: string;
+  name: string;
+  createdAt: number;
+  pageCount: number;
+};
+
+const SNAPSHOT_FORMAT = "checkfu-checkpoint";
+
+type Snapshot = {
+  format: typeof SNAPSHOT_FORMAT;
+  version: 1;
+  domain: EditorDomain;
+};
+
+export function serializeSnapshot(domain: EditorDomain): Blob {
+  const snapshot: Snapshot = { format: SNAPSHOT_FORMAT, version: 1, domain };
+  return new Blob([JSON.stringify(snapshot)], { type: "application/json" });
+}
+
+export function parseSnapshot(raw: unknown): EditorDomain {
+  const s = raw as Partial<Snapshot> | null;
+  if (!s || s.format !== SNAPSHOT_FORMAT || !s.domain)
+    throw new Error("Not a Checkfu checkpoint");
+  return s.domain;
+}
+
+export type PageRef = { id: string; title: string };
+
+export type DomainDiff = {
+  added: PageRef[];
+  removed: PageRef[];
+  changed: PageRef[];
+};
+
+const pageRef = (p: Page): PageRef => ({ id: p.id, title: p.title });
+
+// Compare two snapshots page by page (content, layers and layout position)
+export function diffDomains(from: EditorDomain, to: EditorDomain): DomainDiff {
+  const diff: DomainDiff = { added: [], removed: [], changed: [] };
+  for (const id of to.order) {
+    const next = to.pages[id];
+    const prev = from.pages[id];
+    if (!next) continue;
+    if (!prev) diff.added.push(pageRef(next));
+    else if (
+      !sameValue(prev, next) ||
+      !sameValue(from.nodePositions[id], to.nodePositions[id])
+    )
+      diff.changed.push(pageRef(next));
+  }
+  for (const id of from.order)
+    if (from.pages[id] && !to.pages[id])
+      diff.removed.push(pageRef(from.pages[id]));
+  return diff;
+}
@@ -0,0 +1,7 @@
+import { ConvexReactClient } from "convex/react";
+
+// Shared Convex client: used by the React provider and by non-React modules
+// (asset uploads) that need to call Convex directly.
+export const convex = new ConvexReactClient(
+  process.env.NEXT_PUBLIC_CONVEX_URL!,
+);
@@ -1,23 +1,49 @@
 import { pagePx } from "@/lib/image/pageMetrics";
 import type { Page } from "@/store/useEditorStore";
 
-async function loadImage(src: string): Promise<HTMLImageElement> {
+// Aborting `signal` stops the load (and the remote fetch behind it)
+async function loadImage(
+  src: string,
+  signal?: AbortSignal,
+): Promise<HTMLImageElement> {
+  signal?.throwIfAborted();
   const img = new Image();
   img.crossOrigin = "anonymous";
   await new Promise<void>((res, rej) => {
-    img.onload = () => res();
-    img.onerror = () => rej(new Error("load failed"));
+    const onAbort = () => {
+      img.src = "";
+      rej(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    img.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      res();
+    };
+    img.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      rej(new Error("load failed"));
+    };
     img.src = src;
   });
   return img;
 }
 
-export async function blobUrlToPngBase64(url: string): Promise<string> {
-  const img = await loadImage(url);
-  const max = 1650; // ~150dpi letter bound
+// Size an image is sent to a model at (~150dpi letter bound)
+function uploadSize(img: HTMLImageElement): { w: number; h: number } {
+  const max = 1650;
   const scale = Math.min(1, max / Math.max(img.width, img.height));
-  const w = Math.max(1, Math.round(img.width * scale));
-  const h = Math.max(1, Math.round(img.height * scale));
+  return {
+    w: Math.max(1, Math.round(img.width * scale)),
+    h: Math.max(1, Math.round(img.height * scale)),
+  };
+}
+
+export async function blobUrlToPngBase64(
+  url: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const img = await loadImage(url, signal);
+  const { w, h } = uploadSize(img);
   const c = document.createElement("canvas");
   c.width = w;
   c.height = h;
@@ -31,9 +57,10 @@ export async function blobUrlToPngBase64(url: string): Promise<string> {
 export async function fitImageToPrintableArea(
   url: string,
   p: Page,
+  signal?: AbortSignal,
 ): Promise<string> {
   const { pxW, pxH } = pagePx(p.orientation);
-  const img = await loadImage(url);
+  const img = await loadImage(url, signal);
 
   const srcCanvas = document.createElement("canvas");
   srcCanvas.width = img.width;
@@ -134,8 +161,9 @@ export async function fitImageToRect(
   url: string,
   targetW: number,
   targetH: number,
+  signal?: AbortSignal,
 ): Promise<string> {
-  const img = await loadImage(url);
+  const img = await loadImage(url, signal);
   const srcCanvas = document.createElement("canvas");
   srcCanvas.width = img.width;
   srcCanvas.height = img.height;
@@ -254,3 +282,140 @@ export async function thresholdToDataUrl(
   ctx.putImageData(imageData, 0, 0);
   return canvas.toDataURL("image/png");
 }
+
+export function base64ToBlob(b64: string, mimeType = "image/png"): Blob {
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+// Where a masked edit applies, in page pixels: an image layer's box, or
+// the whole page for the background
+export type MaskRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle?: number;
+};
+
+/**
+ * Cut the part of a page-sized mask (white = edit, black = keep) that lies
+ * under `region` and size it like `baseUrl` as sent by blobUrlToPngBase64,
+ * so the model gets an image and a mask that line up. Returns PNG base64.
+ */
+export async function maskToPngBase64(
+  maskUrl: string,
+  region: MaskRegion,
+  baseUrl: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const [mask, base] = await Promise.all([
+    loadImage(maskUrl, signal),
+    loadImage(baseUrl, signal),
+  ]);
+  const { w, h } = uploadSize(base);
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) throw new Error("no ctx");
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, w, h);
+  // Undo the layer's placement: page → layer box → base image pixels
+  ctx.scale(w / region.width, h / region.height);
+  ctx.rotate((-(region.angle || 0) * Math.PI) / 180);
+  ctx.translate(-region.x, -region.y);
+  ctx.drawImage(mask, 0, 0);
+  return c.toDataURL("image/png").replace(/^data:image\/png;base64,/, "");
+}
+
+/**
+ * Paste a masked edit back onto the original: `editedUrl` shows through
+ * where the mask is white and the original is kept everywhere else, so
+ * unmasked pixels stay identical whatever the model changed. The result
+ * has the original's size.
+ */
+export async function compositeMasked(
+  baseUrl: string,
+  editedUrl: string,
+  maskPngB64: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const [base, edited, mask] = await Promise.all([
+    loadImage(baseUrl, signal),
+    loadImage(editedUrl, signal),
+    loadImage(`data:image/png;base64,${maskPngB64}`, signal),
+  ]);
+  const w = base.width;
+  const h = base.height;
+  // The mask's brightness becomes the edit layer's opacity
+  const layer = document.createElement("canvas");
+  layer.width = w;
+  layer.height = h;
+  const lctx = layer.getContext("2d");
+  if (!lctx) throw new Error("no ctx");
+  lctx.drawImage(mask, 0, 0, w, h);
+  const alpha = lctx.getImageData(0, 0, w, h);
+  lctx.clearRect(0, 0, w, h);
+  lctx.drawImage(edited, 0, 0, w, h);
+  const px = lctx.getImageData(0, 0, w, h);
+  for (let i = 0; i < px.data.length; i += 4) px.data[i + 3] = alpha.data[i];
+  lctx.putImageData(px, 0, 0);
+
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) throw new Error("no ctx");
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return c.toDataURL("image/png");
+}
+
+/**
+ * Share of an image covered by gray fill: mid-gray pixels whose four
+ * neighbours are mid-gray too, so antialiased line edges do not count.
+ * Measured at a reduced size.
+ */
+export async function grayFillRatio(
+  url: string,
+  signal?: AbortSignal,
+): Promise<number> {
+  const img = await loadImage(url, signal);
+  const scale = Math.min(1, 600 / Math.max(img.width, img.height));
+  const w = Math.max(1, Math.round(img.width * scale));
+  const h = Math.max(1, Math.round(img.height * scale));
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) throw new Error("no ctx");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, w, h);
+  ctx.drawImage(img, 0, 0, w, h);
+  const d = ctx.getImageData(0, 0, w, h).data;
+  const gray = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    const y = 0.2126 * d[i * 4] + 0.7152 * d[i * 4 + 1] + 0.0722 * d[i * 4 + 2];
+    gray[i] = y > 60 && y < 200 ? 1 : 0;
+  }
+  let filled = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      if (gray[i] && gray[i - 1] && gray[i + 1] && gray[i - w] && gray[i + w])
+        filled++;
+    }
+  }
+  return filled / (w * h);
+}
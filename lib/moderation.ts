@@ -0,0 +1,167 @@
+import {
+  activeProvider,
+  classifyForKids,
+  isAbortError,
+  type GenerationOptions,
+} from "@/lib/nanoBanana";
+import { blobUrlToPngBase64 } from "@/lib/image/bitmap";
+import type {
+  ImageChild,
+  Page,
+  PageContent,
+  TextChild,
+} from "@/store/useEditorStore";
+
+/**
+ * Kid-safety moderation of generated content. Before a generation is
+ * applied to a page, its new labels are checked against a word blocklist
+ * and, optionally, new labels and images are classified by the model.
+ * Anything flagged is held on the page for teacher review (Page.review)
+ * instead of being applied. Settings are per browser, like provider
+ * settings.
+ */
+
+export const MODERATION_SETTINGS_KEY = "CHECKFU_MODERATION";
+
+export type ModerationSettings = {
+  enabled: boolean;
+  // Words and phrases a label may not contain (case-insensitive)
+  blocklist: string[];
+  // Also ask the model about every new label and image (one extra text
+  // request each); skipped when the provider has no text model
+  modelCheck: boolean;
+};
+
+export const DEFAULT_BLOCKLIST = [
+  "kill",
+  "killed",
+  "murder",
+  "blood",
+  "bloody",
+  "gun",
+  "guns",
+  "knife",
+  "weapon",
+  "bomb",
+  "dead",
+  "death",
+  "hate",
+  "stupid",
+  "idiot",
+  "dumb",
+  "ugly",
+  "shut up",
+  "sexy",
+  "beer",
+  "wine",
+  "drunk",
+  "cigarette",
+  "drugs",
+];
+
+const DEFAULT_SETTINGS: ModerationSettings = {
+  enabled: true,
+  blocklist: DEFAULT_BLOCKLIST,
+  modelCheck: true,
+};
+
+export function readModerationSettings(): ModerationSettings {
+  try {
+    if (typeof window === "undefined") return DEFAULT_SETTINGS;
+    const saved = JSON.parse(
+      localStorage.getItem(MODERATION_SETTINGS_KEY) || "{}",
+    ) as Partial<ModerationSettings>;
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function writeModerationSettings(settings: ModerationSettings) {
+  localStorage.setItem(MODERATION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Blocklist entries found in `text` as whole words
+export function blockedWords(text: string, blocklist: string[]): string[] {
+  return blocklist
+    .map((w) => w.trim())
+    .filter(
+      (w) =>
+        w &&
+        new RegExp(`(^|[^a-z0-9])${escapeRegExp(w)}($|[^a-z0-9])`, "i").test(
+          text,
+        ),
+    );
+}
+
+const quote = (s: string) => `"${s.length > 40 ? `${s.slice(0, 40)}…` : s}"`;
+
+/**
+ * Why a generated result should be held for review, if at all: checks the
+ * labels and images that differ from `before`. A failed model check holds
+ * the result too (it could not be cleared); cancellation rejects.
+ */
+export async function moderationReasons(
+  before: Page,
+  after: PageContent,
+  opts: GenerationOptions = {},
+): Promise<string[]> {
+  const settings = readModerationSettings();
+  if (!settings.enabled) return [];
+  const prev = new Map(before.children.map((c) => [c.id, c] as const));
+  const texts = after.children.filter(
+    (c): c is TextChild =>
+      c.type === "text" &&
+      !!c.text.trim() &&
+      (prev.get(c.id) as TextChild | undefined)?.text !== c.text,
+  );
+  const images: { label: string; url: string }[] = after.children
+    .filter(
+      (c): c is ImageChild =>
+        c.type === "image" &&
+        !!c.src &&
+        (prev.get(c.id) as ImageChild | undefined)?.src !== c.src,
+    )
+    .map((c) => ({ label: "Image layer", url: c.src! }));
+  if (after.imageUrl && after.imageUrl !== before.imageUrl)
+    images.push({ label: "Page image", url: after.imageUrl });
+
+  const reasons: string[] = [];
+  for (const c of texts) {
+    const words = blockedWords(c.text, settings.blocklist);
+    if (words.length)
+      reasons.push(`Label ${quote(c.text)} contains ${words.join(", ")}`);
+  }
+
+  if (settings.modelCheck && activeProvider().capabilities.text) {
+    const check = async (label: string, run: () => Promise<string | null>) => {
+      try {
+        const reason = await run();
+        if (reason) reasons.push(`${label}: ${reason}`);
+      } catch (err) {
+        if (isAbortError(err) || opts.signal?.aborted) throw err;
+        reasons.push(
+          `${label} could not be checked: ${(err as Error).message || err}`,
+        );
+      }
+    };
+    await Promise.all([
+      ...texts.map((c) =>
+        check(`Label ${quote(c.text)}`, () =>
+          classifyForKids({ text: c.text }, opts),
+        ),
+      ),
+      ...images.map(({ label, url }) =>
+        check(label, async () =>
+          classifyForKids(
+            { image: await blobUrlToPngBase64(url, opts.signal) },
+            opts,
+          ),
+        ),
+      ),
+    ]);
+  }
+  return reasons;
+}
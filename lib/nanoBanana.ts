@@ -1,7 +1,43 @@
-import { GoogleGenAI as GenAI } from "@google/genai";
+import {
+  resolveProvider,
+  withRetry,
+  LOCAL_PROJECT_KEY,
+  UnsupportedOperationError,
+  type GenerationContext,
+  type GenerationProvider,
+  type ProviderCapabilities,
+  type RetryState,
+} from "@/lib/providers";
+
+export {
+  GenerationError,
+  isAbortError,
+  failureStatus,
+  retryStatus,
+  type RetryState,
+} from "@/lib/providers";
+export {
+  isLocalKeyMode,
+  LOCAL_API_KEY_KEY,
+  LOCAL_KEY_MODE_KEY,
+} from "@/lib/providers/gemini";
+import type { Provenance } from "@/store/useEditorStore";
+
+/**
+ * Worksheet generation. Builds the prompts for each editor operation and
+ * hands them to the provider chosen for the open project in Settings
+ * (lib/providers; Gemini unless changed), recording or replaying requests
+ * when fixtures are on. Retryable failures are retried (lib/providers/
+ * retry.ts); pass `onRetry` to show the wait, e.g. in the page status.
+ * Whatever still fails is thrown as a classified GenerationError. Aborting
+ * `signal` cancels the request and any pending retry.
+ */
+
+export type GenerationOptions = {
+  onRetry?: (state: RetryState) => void;
+  signal?: AbortSignal;
+};
 
-const IMAGE_MODEL_ID = "gemini-2.5-flash-image-preview";
-const TEXT_MODEL_ID = "gemini-2.5-flash";
 const STYLE_BLOCK = [
   "Black ink line art only.",
   "Thick outlines.",
@@ -10,134 +46,164 @@ const STYLE_BLOCK = [
   "Ample open white space.",
 ].join(" ");
 
-function getApiKey(): string {
-  const key =
-    typeof window !== "undefined"
-      ? localStorage.getItem("CHECKFU_GEMINI_API_KEY") || ""
-      : "";
-  if (!key) {
-    throw new Error(
-      "Missing API key. Add it by clicking API Key in top right corner of the app. It is used only on the client side.",
-    );
-  }
-  return key;
+// Project the editor has open: picks the provider and lets usage be
+// reported per project
+let generationContext: GenerationContext = {};
+export function setGenerationContext(ctx: GenerationContext) {
+  generationContext = ctx;
 }
 
-function getClient() {
-  const apiKey = getApiKey();
-  return new GenAI({ apiKey });
+export function activeProvider(): GenerationProvider {
+  return resolveProvider(generationContext.projectId ?? LOCAL_PROJECT_KEY);
 }
 
-type InlineDataPart = { inlineData: { mimeType: string; data: string } };
-type TextPart = { text: string };
-type Part = InlineDataPart | TextPart;
-type GenerateRequest = {
-  model: string;
-  contents: Part[];
-  generationConfig?: { responseMimeType?: string; [k: string]: unknown };
-};
-type GenerateResponse = {
-  candidates?: Array<{ content?: { parts?: Part[] } }>;
-  response?: { candidates?: Array<{ content?: { parts?: Part[] } }> };
-};
+export function generationCapabilities(): ProviderCapabilities {
+  return activeProvider().capabilities;
+}
 
-type GenAIClient = {
-  models?: {
-    generateContent: (req: GenerateRequest) => Promise<GenerateResponse>;
+/**
+ * Start the provenance record of an image generation: call before the
+ * request and call the returned function once it has succeeded.
+ */
+export function trackProvenance(
+  operation: Provenance["operation"],
+  instruction: string,
+  source: Pick<Provenance, "parentPageId" | "sourceImageUrl" | "maskUrl"> = {},
+): () => Provenance {
+  const provider = activeProvider();
+  const model = provider.model("image");
+  const startedAt = Date.now();
+  return () => {
+    const createdAt = Date.now();
+    return {
+      operation,
+      provider: provider.id,
+      model,
+      instruction,
+      ...source,
+      createdAt,
+      durationMs: createdAt - startedAt,
+    };
   };
-  generateContent?: (req: GenerateRequest) => Promise<GenerateResponse>;
-};
-
-async function generateContent(
-  client: GenAIClient,
-  payload: GenerateRequest,
-): Promise<GenerateResponse | null> {
-  if (client?.models?.generateContent)
-    return client.models.generateContent(payload);
-  if (client?.generateContent) return client.generateContent(payload);
-  return null;
 }
 
-function unwrapParts(res: GenerateResponse | null): Part[] {
-  const parts =
-    res?.candidates?.[0]?.content?.parts ||
-    res?.response?.candidates?.[0]?.content?.parts ||
-    [];
-  return parts as Part[];
+function contextFor(opts: GenerationOptions): GenerationContext {
+  return { ...generationContext, signal: opts.signal };
 }
 
-async function generateImageObjectUrl(contents: Part[]): Promise<string> {
-  const client = getClient();
-  const res = await generateContent(client, {
-    model: IMAGE_MODEL_ID,
-    contents,
-    generationConfig: { responseMimeType: "image/png" },
-  });
-  const parts = unwrapParts(res);
-  const part = parts.find((p) => (p as InlineDataPart).inlineData?.data) as
-    | InlineDataPart
-    | undefined;
-  const b64 = part?.inlineData?.data as string | undefined;
-  if (!b64) {
-    const asText = (
-      parts.find((p) => (p as TextPart).text) as TextPart | undefined
-    )?.text;
-    throw new Error(
-      asText
-        ? `Model returned text instead of image: ${asText}`
-        : "No image in response",
-    );
-  }
-  const blob = await (await fetch(`data:image/png;base64,${b64}`)).blob();
-  return URL.createObjectURL(blob);
+function providerFor(operation: keyof ProviderCapabilities) {
+  const provider = activeProvider();
+  if (!provider.capabilities[operation])
+    throw new UnsupportedOperationError(provider.label, operation);
+  return provider;
 }
 
 export async function generateColoringBookImage(
   prompt: string,
+  opts: GenerationOptions = {},
 ): Promise<string> {
-  const contents: Part[] = [{ text: `${prompt} ${STYLE_BLOCK}` }];
-  return generateImageObjectUrl(contents);
+  const provider = providerFor("generate");
+  const blob = await withRetry(
+    () =>
+      provider.generate(
+        { prompt: `${prompt} ${STYLE_BLOCK}` },
+        contextFor(opts),
+      ),
+    opts,
+  );
+  return URL.createObjectURL(blob);
 }
 
 export async function transformImageWithPrompt(
   basePngB64: string,
   instruction: string,
+  opts: GenerationOptions = {},
 ): Promise<string> {
-  // Keep original ordering used previously (text then image)
-  const contents: Part[] = [
-    { text: `${instruction} ${STYLE_BLOCK}` },
-    { inlineData: { mimeType: "image/png", data: basePngB64 } },
-  ];
-  return generateImageObjectUrl(contents);
+  const provider = providerFor("transform");
+  const blob = await withRetry(
+    () =>
+      provider.transform(
+        { image: basePngB64, prompt: `${instruction} ${STYLE_BLOCK}` },
+        contextFor(opts),
+      ),
+    opts,
+  );
+  return URL.createObjectURL(blob);
 }
 
 export async function editImageWithMaskGuidance(
   basePngB64: string,
   maskPngB64: string,
   instruction: string,
+  opts: GenerationOptions = {},
+): Promise<string> {
+  const provider = providerFor("maskEdit");
+  const blob = await withRetry(
+    () =>
+      provider.maskEdit(
+        { image: basePngB64, mask: maskPngB64, prompt: instruction },
+        contextFor(opts),
+      ),
+    opts,
+  );
+  return URL.createObjectURL(blob);
+}
+
+export async function generateTextContent(
+  prompt: string,
+  opts: GenerationOptions = {},
 ): Promise<string> {
-  const contents: Part[] = [
-    {
-      text: `${instruction} Edit strictly inside the white region in the next mask image. Keep composition style and aspect ratio the same. Do not alter pixels where the mask is black.`,
-    },
-    { inlineData: { mimeType: "image/png", data: basePngB64 } },
-    { inlineData: { mimeType: "image/png", data: maskPngB64 } },
-  ];
-  return generateImageObjectUrl(contents);
+  const provider = providerFor("text");
+  const text = await withRetry(
+    () => provider.text({ prompt }, contextFor(opts)),
+    opts,
+  );
+  if (!text) throw new Error("No text in response");
+  return text.trim();
 }
 
-export async function generateTextContent(prompt: string): Promise<string> {
-  const client = getClient();
-  const res = await generateContent(client, {
-    model: TEXT_MODEL_ID,
-    contents: [{ text: prompt }],
-  });
-  const parts =
-    res?.candidates?.[0]?.content?.parts ||
-    res?.response?.candidates?.[0]?.content?.parts;
-  const text =
-    (parts?.find((p) => (p as TextPart).text) as TextPart | undefined)?.text ||
-    "";
+// A text answer about an image (base64 PNG), e.g. solving a worksheet
+export async function generateTextFromImage(
+  prompt: string,
+  image: string,
+  opts: GenerationOptions = {},
+): Promise<string> {
+  const provider = providerFor("text");
+  const text = await withRetry(
+    () => provider.text({ prompt, image }, contextFor(opts)),
+    opts,
+  );
   if (!text) throw new Error("No text in response");
   return text.trim();
 }
+
+/**
+ * Ask the model whether a label or an image (base64 PNG) is fit for a
+ * page in front of five-year-olds. Returns the reason when it is not,
+ * null when it is.
+ */
+export async function classifyForKids(
+  subject: { text: string } | { image: string },
+  opts: GenerationOptions = {},
+): Promise<string | null> {
+  const provider = providerFor("text");
+  const what = "text" in subject ? "label" : "image";
+  const prompt = [
+    `You review a ${what} for a printable activity page for five-year-olds.`,
+    "It is not appropriate if it is violent, scary, sexual, hateful, rude, or shows or mentions weapons, drugs, alcohol or smoking.",
+    `Reply with exactly SAFE if the ${what} is appropriate. Otherwise reply UNSAFE: followed by a short reason.`,
+    "text" in subject ? `Label: "${subject.text}"` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const answer = await withRetry(
+    () =>
+      provider.text(
+        { prompt, image: "image" in subject ? subject.image : undefined },
+        contextFor(opts),
+      ),
+    opts,
+  );
+  const unsafe = /^\s*UNSAFE\b[\s:.-]*(.*)/i.exec(answer || "");
+  return unsafe ? unsafe[1].trim() || "Flagged by the model" : null;
+}
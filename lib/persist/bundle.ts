@@ -0,0 +1,165 @@
+import type { EditorDomain, Page } from "@/store/useEditorStore";
+import { hashBlob, mapDomainImages, urlToBlob } from "@/lib/persist/images";
+
+/**
+ * Portable project files (.checkfu)
+ *
+ * A bundle is a single JSON document holding the domain (pages with their
+ * children, edges, order, nodePositions) plus every referenced image embedded
+ * as a data URL. Image URLs inside the domain are replaced by `asset:<hash>`
+ * references into `assets`, so an image shared by several pages is stored once.
+ *
+ * `schemaVersion` is bumped whenever the stored shape changes; older bundles
+ * are upgraded step by step through BUNDLE_MIGRATIONS before loading.
+ */
+
+export const BUNDLE_FORMAT = "checkfu-project";
+export const BUNDLE_SCHEMA_VERSION = 1;
+export const BUNDLE_EXTENSION = ".checkfu";
+
+const ASSET_REF = "asset:";
+
+export type ProjectBundle = {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  title: string;
+  domain: EditorDomain;
+  assets: Record<string, string>;
+};
+
+type AnyBundle = { schemaVersion: number } & Record<string, unknown>;
+
+// BUNDLE_MIGRATIONS[n] upgrades a bundle from schemaVersion n to n + 1.
+// Add an entry here (and bump BUNDLE_SCHEMA_VERSION) when Page changes shape.
+const BUNDLE_MIGRATIONS: Record<number, (b: AnyBundle) => AnyBundle> = {};
+
+export function migrateBundle(raw: unknown): ProjectBundle {
+  const b = raw as Partial<AnyBundle> | null;
+  if (!b || typeof b !== "object" || b.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a Checkfu project file");
+  }
+  let bundle = b as AnyBundle;
+  if (typeof bundle.schemaVersion !== "number") {
+    throw new Error("Project file is missing its schema version");
+  }
+  if (bundle.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      "This project was saved by a newer version of Checkfu. Please update and try again.",
+    );
+  }
+  while (bundle.schemaVersion < BUNDLE_SCHEMA_VERSION) {
+    const step = BUNDLE_MIGRATIONS[bundle.schemaVersion];
+    if (!step) {
+      throw new Error(
+        `Cannot upgrade project file from version ${bundle.schemaVersion}`,
+      );
+    }
+    bundle = step(bundle);
+  }
+  return bundle as unknown as ProjectBundle;
+}
+
+// Fill defaults so pages written before a field existed still render.
+function normalizePage(p: Page): Page {
+  return {
+    ...p,
+    orientation: p.orientation || "portrait",
+    title: p.title ?? "Page",
+    standards: p.standards || [],
+    children: Array.isArray(p.children) ? p.children : [],
+  };
+}
+
+function normalizeDomain(d: Partial<EditorDomain>): EditorDomain {
+  const pages: Record<string, Page> = {};
+  for (const [id, p] of Object.entries(d.pages || {})) {
+    pages[id] = normalizePage({ ...p, id });
+  }
+  const order = (d.order || []).filter((id) => !!pages[id]);
+  const edges = (d.edges || []).filter(
+    (e) => !!pages[e.source] && !!pages[e.target],
+  );
+  return { pages, order, edges, nodePositions: d.nodePositions || {} };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error("read failed"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function buildProjectBundle(
+  domain: EditorDomain,
+  title: string,
+): Promise<ProjectBundle> {
+  const assets: Record<string, string> = {};
+  const embedded = await mapDomainImages(domain, async (url) => {
+    try {
+      const blob = await urlToBlob(url);
+      const key = await hashBlob(blob);
+      if (!assets[key]) assets[key] = await blobToDataUrl(blob);
+      return ASSET_REF + key;
+    } catch {
+      // Unreadable images (revoked or blocked by CORS) are left out
+      return undefined;
+    }
+  });
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    domain: embedded,
+    assets,
+  };
+}
+
+export async function exportProjectFile(
+  domain: EditorDomain,
+  title: string,
+): Promise<Blob> {
+  const bundle = await buildProjectBundle(domain, title);
+  return new Blob([JSON.stringify(bundle)], { type: "application/json" });
+}
+
+/**
+ * Parse a .checkfu file into a domain ready for loadDomain. Embedded images
+ * come back as fresh object URLs.
+ */
+export async function importProjectFile(file: Blob): Promise<EditorDomain> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Not a Checkfu project file");
+  }
+  const bundle = migrateBundle(raw);
+  const urlByKey = new Map<string, string>();
+  const domain = await mapDomainImages(
+    normalizeDomain(bundle.domain),
+    async (ref) => {
+      if (!ref.startsWith(ASSET_REF)) return ref;
+      const key = ref.slice(ASSET_REF.length);
+      const existing = urlByKey.get(key);
+      if (existing) return existing;
+      const dataUrl = bundle.assets?.[key];
+      if (!dataUrl) return undefined;
+      const url = URL.createObjectURL(await urlToBlob(dataUrl));
+      urlByKey.set(key, url);
+      return url;
+    },
+  );
+  return domain;
+}
+
+export function bundleFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "checkfu-project"}${BUNDLE_EXTENSION}`;
+}
@@ -0,0 +1,59 @@
+import type { EditorDomain } from "@/store/useEditorStore";
+import type { CheckpointSummary } from "@/lib/checkpoints";
+import { WORKSPACES, idbKeys } from "@/lib/persist/idb";
+import {
+  deleteWorkspace,
+  loadWorkspace,
+  readWorkspaceInfo,
+  saveWorkspace,
+} from "@/lib/persist/workspace";
+import { newId } from "@/lib/ids";
+
+/**
+ * Checkpoints for a local (IndexedDB) workspace. Each one is a workspace
+ * record under `checkpoint:<workspace>:<id>`, so it shares the image blob
+ * store and is kept alive by collectUnusedBlobs.
+ */
+
+const keyPrefix = (workspaceKey: string) => `checkpoint:${workspaceKey}:`;
+
+export async function listLocalCheckpoints(
+  workspaceKey: string,
+): Promise<CheckpointSummary[]> {
+  const prefix = keyPrefix(workspaceKey);
+  const keys = (await idbKeys(WORKSPACES)).filter((k) => k.startsWith(prefix));
+  const out: CheckpointSummary[] = [];
+  for (const key of keys) {
+    const info = await readWorkspaceInfo(key);
+    if (!info) continue;
+    out.push({
+      id: key.slice(prefix.length),
+      name: info.name || "Checkpoint",
+      createdAt: info.savedAt,
+      pageCount: info.pageCount,
+    });
+  }
+  return out.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveLocalCheckpoint(
+  workspaceKey: string,
+  name: string,
+  domain: EditorDomain,
+): Promise<void> {
+  await saveWorkspace(keyPrefix(workspaceKey) + newId("cp"), domain, name);
+}
+
+export async function loadLocalCheckpoint(
+  workspaceKey: string,
+  id: string,
+): Promise<EditorDomain | null> {
+  return loadWorkspace(keyPrefix(workspaceKey) + id);
+}
+
+export async function deleteLocalCheckpoint(
+  workspaceKey: string,
+  id: string,
+): Promise<void> {
+  await deleteWorkspace(keyPrefix(workspaceKey) + id);
+}
@@ -0,0 +1,85 @@
+/**
+ * Minimal promise wrapper around IndexedDB for the editor's local storage.
+ *
+ * Two object stores:
+ * - workspaces: one serialized domain record per workspace key
+ * - blobs: image bytes keyed by content hash (shared across workspaces)
+ */
+
+const DB_NAME = "checkfu";
+const DB_VERSION = 1;
+
+export const WORKSPACES = "workspaces" as const;
+export const BLOBS = "blobs" as const;
+type StoreName = typeof WORKSPACES | typeof BLOBS;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(WORKSPACES))
+        db.createObjectStore(WORKSPACES);
+      if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB open failed"));
+  });
+  // Allow a later retry if opening failed (e.g. private mode quirks)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB failed"));
+  });
+}
+
+export async function idbGet<T>(
+  store: StoreName,
+  key: string,
+): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readonly");
+  return promisify(tx.objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+export async function idbPut(
+  store: StoreName,
+  key: string,
+  value: unknown,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  await promisify(tx.objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  await promisify(tx.objectStore(store).delete(key));
+}
+
+export async function idbKeys(store: StoreName): Promise<string[]> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readonly");
+  const keys = await promisify(tx.objectStore(store).getAllKeys());
+  return keys.map(String);
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readonly");
+  return promisify(tx.objectStore(store).getAll()) as Promise<T[]>;
+}
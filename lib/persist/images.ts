@@ -0,0 +1,96 @@
+import type {
+  EditorDomain,
+  Page,
+  PageContent,
+  Provenance,
+} from "@/store/useEditorStore";
+
+/**
+ * Image URL helpers shared by persistence paths.
+ *
+ * A domain references images in Page.imageUrl, Page.originalImageUrl and
+ * ImageChild.src, plus the source image and mask in the provenance of pages
+ * and image children, and the same again in a result held for review
+ * (Page.review). These helpers walk all of them so storage code can swap
+ * URLs for stored references (and back) in one pass.
+ */
+
+const provenanceUrls = (p?: Provenance) =>
+  p ? [p.sourceImageUrl, p.maskUrl] : [];
+
+function contentUrls(p: PageContent): (string | undefined)[] {
+  return [
+    p.imageUrl,
+    p.originalImageUrl,
+    ...provenanceUrls(p.provenance),
+    ...(p.children || []).flatMap((c) =>
+      c.type === "image" ? [c.src, ...provenanceUrls(c.provenance)] : [],
+    ),
+  ];
+}
+
+export function collectImageUrls(domain: EditorDomain): string[] {
+  const urls = new Set<string>();
+  for (const p of Object.values(domain.pages)) {
+    const all = [...contentUrls(p), ...(p.review ? contentUrls(p.review) : [])];
+    all.forEach((u) => u && urls.add(u));
+  }
+  return Array.from(urls);
+}
+
+/**
+ * Return a copy of the domain with every image URL rewritten by `map`.
+ * `map` is called once per distinct URL; pages are shallow-copied.
+ */
+export async function mapDomainImages(
+  domain: EditorDomain,
+  map: (url: string) => Promise<string | undefined>,
+): Promise<EditorDomain> {
+  const mapped = new Map<string, string | undefined>();
+  for (const url of collectImageUrls(domain)) mapped.set(url, await map(url));
+  const swap = (url?: string) => (url ? mapped.get(url) : undefined);
+  const swapProvenance = (p?: Provenance) =>
+    p && {
+      ...p,
+      sourceImageUrl: swap(p.sourceImageUrl),
+      maskUrl: swap(p.maskUrl),
+    };
+  const swapContent = <T extends PageContent>(p: T): T => ({
+    ...p,
+    imageUrl: swap(p.imageUrl),
+    originalImageUrl: swap(p.originalImageUrl),
+    provenance: swapProvenance(p.provenance),
+    children: (p.children || []).map((c) =>
+      c.type === "image"
+        ? { ...c, src: swap(c.src), provenance: swapProvenance(c.provenance) }
+        : c,
+    ),
+  });
+
+  const pages: Record<string, Page> = {};
+  for (const [id, p] of Object.entries(domain.pages)) {
+    pages[id] = {
+      ...swapContent(p),
+      review: p.review && swapContent(p.review),
+    };
+  }
+  return { ...domain, pages };
+}
+
+export async function urlToBlob(url: string): Promise<Blob> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to read image (${res.status})`);
+  return res.blob();
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    // Non-secure contexts lack SubtleCrypto; fall back to a size+time key
+    return `b_${blob.size}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+  const digest = await subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
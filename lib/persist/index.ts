@@ -0,0 +1,5 @@
+export * from "./idb";
+export * from "./images";
+export * from "./workspace";
+export * from "./bundle";
+export * from "./checkpoints";
@@ -0,0 +1,157 @@
+import type { EditorDomain } from "@/store/useEditorStore";
+import {
+  BLOBS,
+  WORKSPACES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbKeys,
+  idbPut,
+} from "@/lib/persist/idb";
+import {
+  collectImageUrls,
+  hashBlob,
+  mapDomainImages,
+  urlToBlob,
+} from "@/lib/persist/images";
+
+/**
+ * Workspace persistence (IndexedDB)
+ *
+ * The domain snapshot is saved as plain data, except that image URLs
+ * (blob: object URLs and data: URLs) are replaced by `idb-blob:<hash>`
+ * references whose bytes live in the blobs store. On load the references are
+ * turned back into fresh object URLs. Remote http(s) URLs are kept as-is.
+ */
+
+const BLOB_REF = "idb-blob:";
+
+type WorkspaceRecord = {
+  version: 1;
+  savedAt: number;
+  domain: EditorDomain;
+  // Label for named snapshots (checkpoints); unset for live workspaces
+  name?: string;
+};
+
+// Live object URL -> key of its stored blob, so repeated saves do not
+// re-read and re-hash images that are already stored. Only holds keys whose
+// bytes are in the blobs store (collectUnusedBlobs drops the others).
+const storedKeyByUrl = new Map<string, string>();
+
+// The reference an image is stored under, with its bytes when they still
+// need storing. Undefined for a revoked object URL, which cannot be read.
+async function blobRef(
+  url: string,
+): Promise<{ ref: string; key?: string; blob?: Blob } | undefined> {
+  if (/^https?:\/\//i.test(url)) return { ref: url };
+  const known = storedKeyByUrl.get(url);
+  if (known) return { ref: BLOB_REF + known };
+  try {
+    const blob = await urlToBlob(url);
+    const key = await hashBlob(blob);
+    return { ref: BLOB_REF + key, key, blob };
+  } catch {
+    return undefined;
+  }
+}
+
+async function storeImage(url: string): Promise<string | undefined> {
+  const stored = await blobRef(url);
+  if (stored?.key && stored.blob) {
+    try {
+      await idbPut(BLOBS, stored.key, stored.blob);
+    } catch {
+      // Without its bytes the image is dropped from the record
+      return undefined;
+    }
+    storedKeyByUrl.set(url, stored.key);
+  }
+  return stored?.ref;
+}
+
+// Replace local image URLs with the blob references they are (or would be)
+// stored under, without storing anything, e.g. to compare two domains by
+// image content rather than by object URL
+export function toStoredImages(domain: EditorDomain): Promise<EditorDomain> {
+  return mapDomainImages(domain, async (url) => (await blobRef(url))?.ref);
+}
+
+export async function saveWorkspace(
+  key: string,
+  domain: EditorDomain,
+  name?: string,
+): Promise<void> {
+  const stored = await mapDomainImages(domain, storeImage);
+  const record: WorkspaceRecord = {
+    version: 1,
+    savedAt: Date.now(),
+    domain: stored,
+    ...(name ? { name } : {}),
+  };
+  await idbPut(WORKSPACES, key, record);
+}
+
+/**
+ * Load a saved workspace, rehydrating image references into object URLs.
+ * Returns null when nothing has been saved under `key` yet.
+ */
+export async function loadWorkspace(key: string): Promise<EditorDomain | null> {
+  const record = await idbGet<WorkspaceRecord>(WORKSPACES, key);
+  if (!record?.domain) return null;
+  const urlByKey = new Map<string, string>();
+  const domain = await mapDomainImages(record.domain, async (ref) => {
+    if (!ref.startsWith(BLOB_REF)) return ref;
+    const blobKey = ref.slice(BLOB_REF.length);
+    const existing = urlByKey.get(blobKey);
+    if (existing) return existing;
+    const blob = await idbGet<Blob>(BLOBS, blobKey);
+    if (!blob) return undefined;
+    const url = URL.createObjectURL(blob);
+    urlByKey.set(blobKey, url);
+    storedKeyByUrl.set(url, blobKey);
+    return url;
+  });
+  return domain;
+}
+
+// Saved-at time and name of a stored record, without loading its images
+export async function readWorkspaceInfo(
+  key: string,
+): Promise<{ savedAt: number; name?: string; pageCount: number } | null> {
+  const record = await idbGet<WorkspaceRecord>(WORKSPACES, key);
+  if (!record?.domain) return null;
+  return {
+    savedAt: record.savedAt,
+    name: record.name,
+    pageCount: record.domain.order.length,
+  };
+}
+
+export async function deleteWorkspace(key: string): Promise<void> {
+  await idbDelete(WORKSPACES, key);
+}
+
+/**
+ * Delete stored image bytes that no saved workspace references anymore.
+ * Cheap enough to run once per session after the initial load.
+ */
+export async function collectUnusedBlobs(): Promise<void> {
+  const records = await idbGetAll<WorkspaceRecord>(WORKSPACES);
+  const referenced = new Set<string>();
+  for (const r of records) {
+    if (!r?.domain) continue;
+    for (const url of collectImageUrls(r.domain)) {
+      if (url.startsWith(BLOB_REF)) referenced.add(url.slice(BLOB_REF.length));
+    }
+  }
+  const deleted = new Set<string>();
+  for (const k of await idbKeys(BLOBS)) {
+    if (referenced.has(k)) continue;
+    await idbDelete(BLOBS, k);
+    deleted.add(k);
+  }
+  // The next save must store those bytes again
+  for (const [url, k] of storedKeyByUrl)
+    if (deleted.has(k)) storedKeyByUrl.delete(url);
+}
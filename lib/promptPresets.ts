@@ -0,0 +1,230 @@
+import type { Page, VariableRow } from "@/store/useEditorStore";
+
+/**
+ * Prompt library. A preset is a named page setup (system prompt, page type,
+ * coloring style, standards and a default user prompt) filed in a folder.
+ * Built-in presets are always listed; saved presets belong to the project
+ * (Convex `promptPresets`, shared with everyone on the project) or, in try
+ * mode, to this browser (localStorage). Pages remember the preset they were
+ * set up from in Page.promptPresetKey. Prompts may hold `{{name}}`
+ * placeholders, and a preset may bring the variable table to fill them
+ * (lib/promptTemplate.ts). Libraries move between projects as JSON files.
+ */
+
+export type PresetDraft = {
+  name: string;
+  // Folder path shown in the library, "" for none
+  folder: string;
+  // Empty: the system prompt is computed from type, style and standards
+  systemPrompt: string;
+  pageType: NonNullable<Page["pageType"]>;
+  coloringStyle?: NonNullable<Page["coloringStyle"]>;
+  standards: string[];
+  // Filled into the page's prompt when the preset is applied
+  userPrompt: string;
+  variableRows?: VariableRow[];
+};
+
+export type PromptPreset = PresetDraft & {
+  id: string;
+  updatedAt: number;
+  builtIn?: boolean;
+};
+
+export const BUILT_IN_FOLDER = "Built-in";
+
+const builtIn = (
+  key: string,
+  name: string,
+  pageType: PresetDraft["pageType"],
+  coloringStyle?: PresetDraft["coloringStyle"],
+): PromptPreset => ({
+  id: `builtin:${key}`,
+  name,
+  folder: BUILT_IN_FOLDER,
+  systemPrompt: "",
+  pageType,
+  ...(coloringStyle ? { coloringStyle } : {}),
+  standards: [],
+  userPrompt: "",
+  updatedAt: 0,
+  builtIn: true,
+});
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  builtIn("coloring:classic", "Coloring Book — Classic", "coloring", "classic"),
+  builtIn("coloring:anime", "Coloring Book — Anime", "coloring", "anime"),
+  builtIn("coloring:retro", "Coloring Book — Retro", "coloring", "retro"),
+  builtIn("worksheet", "Worksheet — K Math", "worksheet"),
+];
+
+// Just the saved fields of a preset
+export function draftOf(p: PresetDraft): PresetDraft {
+  return {
+    name: p.name,
+    folder: p.folder,
+    systemPrompt: p.systemPrompt,
+    pageType: p.pageType,
+    ...(p.coloringStyle ? { coloringStyle: p.coloringStyle } : {}),
+    standards: p.standards,
+    userPrompt: p.userPrompt,
+    ...(p.variableRows?.length ? { variableRows: p.variableRows } : {}),
+  };
+}
+
+// A preset capturing how a page is set up now
+export function presetFromPage(
+  page: Page,
+  name: string,
+  folder: string,
+): PresetDraft {
+  return {
+    name,
+    folder,
+    systemPrompt: page.systemPromptEdited ? page.systemPrompt || "" : "",
+    pageType: page.pageType || "coloring",
+    ...(page.coloringStyle ? { coloringStyle: page.coloringStyle } : {}),
+    standards: [...(page.standards || [])],
+    userPrompt: page.prompt || "",
+    ...(page.variableRows?.length
+      ? { variableRows: page.variableRows.map((r) => ({ ...r })) }
+      : {}),
+  };
+}
+
+// The page patch that sets a page up from a preset
+export function applyPreset(preset: PromptPreset): Partial<Page> {
+  const systemPrompt = preset.systemPrompt.trim();
+  return {
+    promptPresetKey: preset.id,
+    pageType: preset.pageType,
+    ...(preset.coloringStyle ? { coloringStyle: preset.coloringStyle } : {}),
+    // Built-in presets keep the page's standards
+    ...(preset.builtIn ? {} : { standards: [...preset.standards] }),
+    systemPrompt,
+    systemPromptEdited: !!systemPrompt,
+    ...(preset.userPrompt.trim() ? { prompt: preset.userPrompt } : {}),
+    ...(preset.variableRows?.length
+      ? { variableRows: preset.variableRows.map((r) => ({ ...r })) }
+      : {}),
+  };
+}
+
+// Presets by folder, folders and names in alphabetical order
+export function groupByFolder(
+  presets: PromptPreset[],
+): { folder: string; presets: PromptPreset[] }[] {
+  const folders = new Map<string, PromptPreset[]>();
+  for (const p of presets) {
+    const list = folders.get(p.folder) || [];
+    list.push(p);
+    folders.set(p.folder, list);
+  }
+  return [...folders.entries()]
+    .sort(([a], [b]) =>
+      a === BUILT_IN_FOLDER
+        ? -1
+        : b === BUILT_IN_FOLDER
+          ? 1
+          : a.localeCompare(b),
+    )
+    .map(([folder, list]) => ({
+      folder,
+      presets: list.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+// Library files (.json)
+
+export const LIBRARY_FORMAT = "checkfu-prompt-library";
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+export function serializeLibrary(presets: PromptPreset[]): Blob {
+  const drafts = presets.filter((p) => !p.builtIn).map(draftOf);
+  return new Blob(
+    [
+      JSON.stringify(
+        {
+          format: LIBRARY_FORMAT,
+          schemaVersion: LIBRARY_SCHEMA_VERSION,
+          exportedAt: new Date().toISOString(),
+          presets: drafts,
+        },
+        null,
+        2,
+      ),
+    ],
+    { type: "application/json" },
+  );
+}
+
+const STYLES = ["classic", "anime", "retro"];
+
+// A variable row, keeping only names a placeholder can use
+function toRow(raw: unknown): VariableRow {
+  const row: VariableRow = {};
+  for (const [k, v] of Object.entries((raw || {}) as object))
+    if (/^[A-Za-z][A-Za-z0-9_]*$/.test(k) && typeof v === "string") row[k] = v;
+  return row;
+}
+
+function toDraft(raw: unknown): PresetDraft {
+  const p = (raw || {}) as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  if (!str(p.name).trim()) throw new Error("A preset in the file has no name");
+  return {
+    name: str(p.name).trim(),
+    folder: str(p.folder).trim(),
+    systemPrompt: str(p.systemPrompt),
+    pageType: p.pageType === "worksheet" ? "worksheet" : "coloring",
+    ...(STYLES.includes(str(p.coloringStyle))
+      ? { coloringStyle: p.coloringStyle as PresetDraft["coloringStyle"] }
+      : {}),
+    standards: Array.isArray(p.standards)
+      ? p.standards.filter((s): s is string => typeof s === "string")
+      : [],
+    userPrompt: str(p.userPrompt),
+    ...(Array.isArray(p.variableRows)
+      ? { variableRows: p.variableRows.map(toRow) }
+      : {}),
+  };
+}
+
+export function parseLibrary(raw: unknown): PresetDraft[] {
+  const file = raw as Record<string, unknown> | null;
+  if (!file || typeof file !== "object" || file.format !== LIBRARY_FORMAT)
+    throw new Error("Not a Checkfu prompt library file");
+  if (Number(file.schemaVersion) > LIBRARY_SCHEMA_VERSION)
+    throw new Error(
+      "This library was saved by a newer version of Checkfu. Please update and try again.",
+    );
+  if (!Array.isArray(file.presets))
+    throw new Error("The library file has no presets");
+  return file.presets.map(toDraft);
+}
+
+// Try mode: the library of this browser
+
+export const LOCAL_PRESETS_KEY = "CHECKFU_PROMPT_PRESETS";
+
+export function readLocalPresets(): PromptPreset[] {
+  try {
+    const saved = JSON.parse(
+      localStorage.getItem(LOCAL_PRESETS_KEY) || "[]",
+    ) as unknown[];
+    return saved.map((p) => {
+      const { id, updatedAt } = p as PromptPreset;
+      return {
+        ...toDraft(p),
+        id: String(id),
+        updatedAt: Number(updatedAt) || 0,
+      };
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function writeLocalPresets(presets: PromptPreset[]): void {
+  localStorage.setItem(LOCAL_PRESETS_KEY, JSON.stringify(presets));
+}
@@ -0,0 +1,35 @@
+import type { VariableRow } from "@/store/useEditorStore";
+
+/**
+ * Prompt templates. A page's prompt (and system prompt, and the prompts of
+ * a saved preset) may contain `{{name}}` placeholders; the page's variable
+ * table (Page.variableRows) holds one value per variable in each row.
+ * "Generate batch" fills the templates once per row and branches a child
+ * page for each.
+ */
+
+const VARIABLE = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Variable names used in the texts, in order of first use
+export function templateVariables(...texts: (string | undefined)[]): string[] {
+  const names: string[] = [];
+  for (const text of texts)
+    for (const m of (text || "").matchAll(VARIABLE))
+      if (!names.includes(m[1])) names.push(m[1]);
+  return names;
+}
+
+// The text with every placeholder the row has a value for filled in
+export function fillTemplate(text: string, row: VariableRow): string {
+  return text.replace(VARIABLE, (whole, name: string) =>
+    Object.prototype.hasOwnProperty.call(row, name) ? row[name] : whole,
+  );
+}
+
+// Whether the row has a value for every variable
+export const rowComplete = (variables: string[], row: VariableRow) =>
+  variables.every((v) => (row[v] ?? "").trim() !== "");
+
+// Short description of a row, e.g. for the title of its page
+export const rowLabel = (variables: string[], row: VariableRow) =>
+  variables.map((v) => (row[v] ?? "").trim()).join(", ");
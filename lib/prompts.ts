@@ -1,5 +1,36 @@
 import { letterSize } from "@/lib/image/pageMetrics";
-import type { Page, TextChild, ImageChild } from "@/store/useEditorStore";
+import type {
+  Page,
+  TextChild,
+  ImageChild,
+  WorksheetSpec,
+  WorksheetTask,
+} from "@/store/useEditorStore";
+
+// The Common Core focus of a worksheet page, from its selected standards
+function standardsFocus(
+  p: Page,
+  standardsCatalog: { code: string; description: string }[],
+): string {
+  const selected = p.standards || [];
+  const codes = selected.join(", ");
+  const lookup = new Map(
+    standardsCatalog.map((s) => [s.code, s.description] as const),
+  );
+  const descs = selected
+    .map((code) => {
+      const d = lookup.get(code) || "";
+      return d ? `${code}: ${d}` : "";
+    })
+    .filter(Boolean);
+  const ccSummary = codes
+    ? `Common Core Kindergarten focus: ${codes}. `
+    : "Common Core Kindergarten math practices. ";
+  const ccDetail = descs.length
+    ? `Target standards: ${descs.join("; ")}. `
+    : "";
+  return `${ccSummary}${ccDetail}`;
+}
 
 export function computeSystemPrompt(
   p: Page,
@@ -18,23 +49,6 @@ export function computeSystemPrompt(
     "If a mask is provided, change only masked regions and keep all unmasked regions identical.",
   ].join(" ");
   if (isWorksheet) {
-    const selected = p.standards || [];
-    const codes = selected.join(", ");
-    const lookup = new Map(
-      standardsCatalog.map((s) => [s.code, s.description] as const),
-    );
-    const descs = selected
-      .map((code) => {
-        const d = lookup.get(code) || "";
-        return d ? `${code}: ${d}` : "";
-      })
-      .filter(Boolean);
-    const ccSummary = codes
-      ? `Common Core Kindergarten focus: ${codes}. `
-      : "Common Core Kindergarten math practices. ";
-    const ccDetail = descs.length
-      ? `Target standards: ${descs.join("; ")}. `
-      : "";
     const wk = [
       "Purpose: a solvable worksheet that a kindergarten student can complete independently.",
       "1) Provide exactly one short instruction line at the top in simple English.",
@@ -51,7 +65,7 @@ export function computeSystemPrompt(
       "",
       "Do not include stickers, emojis, photographs, or gray fills.",
     ].join(" ");
-    return `${ccSummary}${ccDetail}${wk} ${printRules} ${wkNegatives}`.trim();
+    return `${standardsFocus(p, standardsCatalog)}${wk} ${printRules} ${wkNegatives}`.trim();
   }
   const styleName = p.coloringStyle || "classic";
   const styleText =
@@ -136,3 +150,69 @@ export function buildInstruction(
   }
   return parts.join("\n");
 }
+
+const TASK_SHAPE =
+  '{"prompt": string, "quantity": number, "manipulative": string, "answer": string}';
+
+const TASK_RULES = [
+  "prompt: what the student does, at most eight simple words, no numbering.",
+  "quantity: how many objects the task's picture shows, from 0 to 10.",
+  "manipulative: what the picture shows, a concrete visual math tool such as apples, dots, a ten frame or a number line.",
+  "answer: the correct answer, written the way the student would write it.",
+].join("\n");
+
+/**
+ * Ask the text model to plan a worksheet as data (WorksheetSpec, parsed by
+ * lib/worksheetSpec.ts) rather than draw it; the editor lays it out and
+ * draws each task's picture as its own layer.
+ */
+export function buildWorksheetSpecInstruction(
+  page: Page,
+  userPrompt: string,
+  standardsCatalog: { code: string; description: string }[],
+): string {
+  const user = (userPrompt || "").trim();
+  return [
+    standardsFocus(page, standardsCatalog).trim(),
+    "You plan a solvable kindergarten math worksheet that a student can complete independently. The editor lays it out and draws one picture per task.",
+    `Return only JSON, no markdown, in this shape: {"instruction": string, "tasks": [${TASK_SHAPE}]}`,
+    "instruction: exactly one short instruction line in simple English.",
+    "tasks: three to six tasks.",
+    TASK_RULES,
+    user ? `Teacher request: ${user}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Ask for one new task to replace task `index` of a worksheet
+export function buildWorksheetTaskInstruction(
+  page: Page,
+  spec: WorksheetSpec,
+  index: number,
+  standardsCatalog: { code: string; description: string }[],
+): string {
+  const others = spec.tasks
+    .filter((_, i) => i !== index)
+    .map((t) => `- ${t.prompt} (${t.quantity} ${t.manipulative})`);
+  return [
+    standardsFocus(page, standardsCatalog).trim(),
+    `You write one new task for a kindergarten math worksheet with the instruction "${spec.instruction}".`,
+    `It replaces the task "${spec.tasks[index]?.prompt ?? ""}" and must differ from the other tasks:`,
+    ...others,
+    `Return only JSON, no markdown, in this shape: ${TASK_SHAPE}`,
+    TASK_RULES,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Image instruction for the picture of one worksheet task
+export function buildTaskImageInstruction(task: WorksheetTask): string {
+  return [
+    `Picture for the kindergarten worksheet task "${task.prompt}".`,
+    `Show ${task.manipulative} for the quantity ${task.quantity}: a five-year-old must be able to count exactly ${task.quantity}, so keep every object separate and whole.`,
+    "Do not write the answer, numbers, letters or any other text.",
+    "Output: one black and white line art image for print. Thick uniform outlines, high contrast, large closed shapes. No gray tones, shading or textures. White background. No frames or borders.",
+  ].join("\n");
+}
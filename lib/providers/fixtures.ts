@@ -0,0 +1,170 @@
+import { base64ToBlob, blobToBase64 } from "@/lib/image/bitmap";
+import type {
+  GenerationContext,
+  GenerationProvider,
+  ProviderCapabilities,
+} from "./types";
+
+/**
+ * Record/replay for generation requests. In record mode every request goes
+ * to the real provider and the request/response pair is written to disk
+ * through the dev-only /api/fixtures route (fixtures/generations/<hash>.json).
+ * In replay mode requests are answered from those files by request hash
+ * and no provider is called, so the editor runs offline and
+ * deterministically.
+ *
+ * The hash covers the operation and its inputs (prompt and images), not
+ * the provider, so fixtures recorded with one provider replay under any.
+ */
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export const FIXTURE_MODE_KEY = "CHECKFU_FIXTURE_MODE";
+
+type Operation = keyof ProviderCapabilities;
+
+type FixtureResult =
+  | { type: "image"; mimeType: string; data: string }
+  | { type: "text"; text: string };
+
+type Fixture = {
+  hash: string;
+  operation: Operation;
+  prompt: string;
+  provider: string;
+  recordedAt: string;
+  result: FixtureResult;
+};
+
+function isFixtureMode(v: unknown): v is FixtureMode {
+  return v === "off" || v === "record" || v === "replay";
+}
+
+// A choice saved in Settings wins over NEXT_PUBLIC_CHECKFU_FIXTURES
+export function readFixtureMode(): FixtureMode {
+  try {
+    const saved =
+      typeof window !== "undefined"
+        ? localStorage.getItem(FIXTURE_MODE_KEY)
+        : null;
+    if (isFixtureMode(saved)) return saved;
+  } catch {}
+  const env = process.env.NEXT_PUBLIC_CHECKFU_FIXTURES;
+  return isFixtureMode(env) ? env : "off";
+}
+
+export function writeFixtureMode(mode: FixtureMode) {
+  localStorage.setItem(FIXTURE_MODE_KEY, mode);
+  window.dispatchEvent(new StorageEvent("storage", { key: FIXTURE_MODE_KEY }));
+}
+
+async function requestHash(
+  operation: Operation,
+  req: { prompt: string; image?: string; mask?: string },
+): Promise<string> {
+  const key = JSON.stringify([
+    operation,
+    req.prompt,
+    req.image ?? null,
+    req.mask ?? null,
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function loadFixture(
+  hash: string,
+  signal?: AbortSignal,
+): Promise<Fixture> {
+  const res = await fetch(`/api/fixtures/${hash}`, { signal });
+  if (res.status === 404)
+    throw new Error(
+      `No recorded fixture for this request (${hash.slice(0, 12)}). Record it first or turn replay off in Settings.`,
+    );
+  if (!res.ok) throw new Error(`Could not load fixture (${res.status})`);
+  return (await res.json()) as Fixture;
+}
+
+async function saveFixture(fixture: Fixture): Promise<void> {
+  const res = await fetch(`/api/fixtures/${fixture.hash}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(fixture),
+  });
+  if (!res.ok) console.warn(`Could not record fixture (${res.status})`);
+}
+
+/** Wrap a provider so its requests are recorded or replayed. */
+export function withFixtures(
+  provider: GenerationProvider,
+  mode: FixtureMode,
+): GenerationProvider {
+  if (mode === "off") return provider;
+
+  async function image(
+    operation: Operation,
+    req: { prompt: string; image?: string; mask?: string },
+    ctx: GenerationContext,
+    call: () => Promise<Blob>,
+  ): Promise<Blob> {
+    const hash = await requestHash(operation, req);
+    if (mode === "replay") {
+      const { result } = await loadFixture(hash, ctx.signal);
+      if (result.type !== "image") throw new Error("Fixture is not an image");
+      return base64ToBlob(result.data, result.mimeType);
+    }
+    const blob = await call();
+    await saveFixture({
+      hash,
+      operation,
+      prompt: req.prompt,
+      provider: provider.id,
+      recordedAt: new Date().toISOString(),
+      result: {
+        type: "image",
+        mimeType: blob.type || "image/png",
+        data: await blobToBase64(blob),
+      },
+    });
+    return blob;
+  }
+
+  return {
+    ...provider,
+    // Replay never calls the provider, so nothing has to be set up
+    capabilities:
+      mode === "replay"
+        ? { generate: true, transform: true, maskEdit: true, text: true }
+        : provider.capabilities,
+    setupHint: (env) => (mode === "replay" ? null : provider.setupHint(env)),
+    generate: (req, ctx) =>
+      image("generate", req, ctx, () => provider.generate(req, ctx)),
+    transform: (req, ctx) =>
+      image("transform", req, ctx, () => provider.transform(req, ctx)),
+    maskEdit: (req, ctx) =>
+      image("maskEdit", req, ctx, () => provider.maskEdit(req, ctx)),
+    text: async (req, ctx) => {
+      const hash = await requestHash("text", req);
+      if (mode === "replay") {
+        const { result } = await loadFixture(hash, ctx.signal);
+        if (result.type !== "text") throw new Error("Fixture is not text");
+        return result.text;
+      }
+      const text = await provider.text(req, ctx);
+      await saveFixture({
+        hash,
+        operation: "text",
+        prompt: req.prompt,
+        provider: provider.id,
+        recordedAt: new Date().toISOString(),
+        result: { type: "text", text },
+      });
+      return text;
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { GoogleGenAI as GenAI } from "@google/genai";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api";
+import { convex } from "@/lib/convexClient";
+import {
+  GEMINI_MODELS,
+  blockReason,
+  unwrapParts,
+  type GenerateResponse,
+  type InlineDataPart,
+  type Part,
+  type TextPart,
+} from "@/convex/lib/gemini";
+import { base64ToBlob } from "@/lib/image/bitmap";
+import {
+  GenerationError,
+  classifyGenerationError,
+  isGenerationErrorKind,
+  type GenerationContext,
+  type GenerationProvider,
+} from "@/lib/providers/types";
+import { abortable, isAbortError } from "@/lib/providers/retry";
+
+/**
+ * Gemini. By default requests go through the Convex proxy
+ * (convex/gemini.ts), which holds the API key server-side and meters usage.
+ * Local-key mode is an explicit opt-in for running without a backend key:
+ * the browser keeps the key in localStorage and calls Gemini directly.
+ */
+
+export const LOCAL_KEY_MODE_KEY = "CHECKFU_GEMINI_KEY_MODE";
+export const LOCAL_API_KEY_KEY = "CHECKFU_GEMINI_API_KEY";
+
+// Editor operation behind a request; metered per kind on the server
+type GenerationKind = "generate" | "transform" | "mask-edit" | "text";
+
+export function isLocalKeyMode(): boolean {
+  try {
+    return (
+      typeof window !== "undefined" &&
+      localStorage.getItem(LOCAL_KEY_MODE_KEY) === "local"
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getApiKey(): string {
+  const key =
+    typeof window !== "undefined"
+      ? localStorage.getItem(LOCAL_API_KEY_KEY) || ""
+      : "";
+  if (!key) {
+    throw new Error(
+      "Missing API key. Local-key mode is on: add your key in Settings (top right corner), or turn local-key mode off to use the server.",
+    );
+  }
+  return key;
+}
+
+type GenerateRequest = {
+  model: string;
+  contents: Part[];
+  generationConfig?: { responseMimeType?: string; [k: string]: unknown };
+  config?: { abortSignal?: AbortSignal };
+};
+
+type GenAIClient = {
+  models?: {
+    generateContent: (req: GenerateRequest) => Promise<GenerateResponse>;
+  };
+  generateContent?: (req: GenerateRequest) => Promise<GenerateResponse>;
+};
+
+async function generateLocally(
+  kind: GenerationKind,
+  contents: Part[],
+  signal?: AbortSignal,
+): Promise<Part[]> {
+  const client: GenAIClient = new GenAI({ apiKey: getApiKey() });
+  const payload: GenerateRequest = {
+    model: kind === "text" ? GEMINI_MODELS.text : GEMINI_MODELS.image,
+    contents,
+    ...(kind !== "text"
+      ? { generationConfig: { responseMimeType: "image/png" } }
+      : {}),
+    ...(signal ? { config: { abortSignal: signal } } : {}),
+  };
+  let res: GenerateResponse | null = null;
+  if (client?.models?.generateContent)
+    res = await client.models.generateContent(payload);
+  else if (client?.generateContent) res = await client.generateContent(payload);
+  const blocked = blockReason(res);
+  if (blocked)
+    throw new GenerationError(
+      "safety",
+      `Blocked by the safety filter (${blocked})`,
+    );
+  return unwrapParts(res);
+}
+
+async function generateContent(
+  kind: GenerationKind,
+  contents: Part[],
+  ctx: GenerationContext,
+): Promise<Part[]> {
+  if (isLocalKeyMode()) {
+    try {
+      return await generateLocally(kind, contents, ctx.signal);
+    } catch (err) {
+      if (isAbortError(err) || ctx.signal?.aborted) throw err;
+      throw classifyGenerationError(err);
+    }
+  }
+  try {
+    // Actions cannot be cancelled: an aborted request still completes (and
+    // is metered) on the server, the editor just stops waiting for it
+    return await abortable(
+      convex.action(api.gemini.generateContent, {
+        kind,
+        contents,
+        projectId: ctx.projectId,
+      }),
+      ctx.signal,
+    );
+  } catch (err) {
+    if (isAbortError(err) || ctx.signal?.aborted) throw err;
+    // Rebuild the server's classified failure rather than a generic
+    // "Server Error"
+    if (err instanceof ConvexError) {
+      const data = err.data as
+        string | { code?: string; message?: string; retryAfterMs?: number };
+      if (typeof data === "string") throw new GenerationError("unknown", data);
+      const message = data?.message || "Generation failed";
+      throw new GenerationError(
+        isGenerationErrorKind(data?.code) ? data.code : "unknown",
+        message,
+        data?.retryAfterMs,
+      );
+    }
+    // Lost connection to the backend and the like
+    throw classifyGenerationError(err);
+  }
+}
+
+async function generateImage(
+  kind: GenerationKind,
+  contents: Part[],
+  ctx: GenerationContext,
+): Promise<Blob> {
+  const parts = await generateContent(kind, contents, ctx);
+  const part = parts.find((p) => (p as InlineDataPart).inlineData?.data) as
+    InlineDataPart | undefined;
+  const b64 = part?.inlineData?.data as string | undefined;
+  if (!b64) {
+    const asText = (
+      parts.find((p) => (p as TextPart).text) as TextPart | undefined
+    )?.text;
+    throw new GenerationError(
+      "text_instead_of_image",
+      asText
+        ? `Model returned text instead of image: ${asText}`
+        : "No image in response",
+    );
+  }
+  return base64ToBlob(b64, part?.inlineData.mimeType);
+}
+
+export const geminiProvider: GenerationProvider = {
+  id: "gemini",
+  label: "Gemini",
+  description:
+    "Google Gemini image and text models, through the Checkfu server or your own key.",
+  capabilities: { generate: true, transform: true, maskEdit: true, text: true },
+  settings: [],
+  model: (kind) => GEMINI_MODELS[kind],
+  setupHint: ({ signedIn }) => {
+    if (isLocalKeyMode())
+      return localStorage.getItem(LOCAL_API_KEY_KEY)
+        ? null
+        : "Add your Gemini API key to generate images";
+    return signedIn
+      ? null
+      : "Sign in, or use your own Gemini API key, to generate images";
+  },
+
+  generate: ({ prompt }, ctx) =>
+    generateImage("generate", [{ text: prompt }], ctx),
+
+  // Keep original ordering used previously (text then image)
+  transform: ({ image, prompt }, ctx) =>
+    generateImage(
+      "transform",
+      [
+        { text: prompt },
+        { inlineData: { mimeType: "image/png", data: image } },
+      ],
+      ctx,
+    ),
+
+  // Gemini has no mask input: describe the mask and send it as a second image
+  maskEdit: ({ image, mask, prompt }, ctx) =>
+    generateImage(
+      "mask-edit",
+      [
+        {
+          text: `${prompt} Edit strictly inside the white region in the next mask image. Keep composition style and aspect ratio the same. Do not alter pixels where the mask is black.`,
+        },
+        { inlineData: { mimeType: "image/png", data: image } },
+        { inlineData: { mimeType: "image/png", data: mask } },
+      ],
+      ctx,
+    ),
+
+  text: async ({ prompt, image }, ctx) => {
+    const parts = await generateContent(
+      "text",
+      image
+        ? [
+            { text: prompt },
+            { inlineData: { mimeType: "image/png", data: image } },
+          ]
+        : [{ text: prompt }],
+      ctx,
+    );
+    return (
+      (parts.find((p) => (p as TextPart).text) as TextPart | undefined)?.text ||
+      ""
+    );
+  },
+};
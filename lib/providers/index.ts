@@ -0,0 +1,32 @@
+import { geminiProvider } from "./gemini";
+import { openaiCompatibleProvider } from "./openaiCompatible";
+import { localHttpProvider } from "./localHttp";
+import { mockProvider } from "./mock";
+import { readProjectProvider } from "./settings";
+import { readFixtureMode, withFixtures } from "./fixtures";
+import type { GenerationProvider, ProviderId } from "./types";
+
+export * from "./types";
+export * from "./settings";
+export * from "./fixtures";
+export * from "./retry";
+
+// In the order they appear in Settings
+export const PROVIDERS: GenerationProvider[] = [
+  geminiProvider,
+  openaiCompatibleProvider,
+  localHttpProvider,
+  mockProvider,
+];
+
+export function getProvider(id: ProviderId): GenerationProvider {
+  return PROVIDERS.find((p) => p.id === id) ?? geminiProvider;
+}
+
+// The provider a project generates with, including record/replay
+export function resolveProvider(projectKey: string): GenerationProvider {
+  return withFixtures(
+    getProvider(readProjectProvider(projectKey)),
+    readFixtureMode(),
+  );
+}
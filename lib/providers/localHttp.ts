@@ -0,0 +1,118 @@
+import { base64ToBlob } from "@/lib/image/bitmap";
+import { readProviderSettings } from "@/lib/providers/settings";
+import {
+  GenerationError,
+  UnsupportedOperationError,
+  kindForStatus,
+  type GenerationProvider,
+} from "@/lib/providers/types";
+
+/**
+ * Local HTTP stand-in: a Stable Diffusion server on this machine speaking
+ * the AUTOMATIC1111 web UI API (start it with `--api --cors-allow-origins`
+ * for this site). Image-only; there is no text model.
+ */
+
+// Close to US Letter (8.5×11) in multiples of 64
+const WIDTH = 768;
+const HEIGHT = 1024;
+
+type SdResponse = { images?: string[] };
+
+async function post(
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const s = readProviderSettings(localHttpProvider);
+  const base = s.baseUrl.replace(/\/+$/, "");
+  let res: Response;
+  try {
+    res = await fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        steps: Number(s.steps) || 25,
+        negative_prompt: s.negativePrompt,
+        width: WIDTH,
+        height: HEIGHT,
+        ...(body as object),
+      }),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new GenerationError(
+      "transient",
+      `Could not reach the local image server at ${base}`,
+    );
+  }
+  if (!res.ok)
+    throw new GenerationError(
+      kindForStatus(res.status),
+      `Local image server request failed (${res.status})`,
+    );
+  const json = (await res.json()) as SdResponse;
+  const b64 = json.images?.[0];
+  if (!b64) throw new Error("No image in response");
+  return base64ToBlob(b64);
+}
+
+export const localHttpProvider: GenerationProvider = {
+  id: "local",
+  label: "Local server",
+  description:
+    "A Stable Diffusion server on this machine (AUTOMATIC1111-compatible API).",
+  capabilities: {
+    generate: true,
+    transform: true,
+    maskEdit: true,
+    text: false,
+  },
+  settings: [
+    {
+      key: "baseUrl",
+      label: "Server URL",
+      type: "url",
+      defaultValue: "http://127.0.0.1:7860",
+    },
+    { key: "steps", label: "Steps", type: "text", defaultValue: "25" },
+    {
+      key: "negativePrompt",
+      label: "Negative prompt",
+      type: "text",
+      defaultValue: "color, shading, gray, photo, text, watermark",
+    },
+  ],
+  // The checkpoint is whatever the server has loaded
+  model: () => "sd-webui",
+  setupHint: () => null,
+
+  generate: ({ prompt }, { signal }) =>
+    post("/sdapi/v1/txt2img", { prompt }, signal),
+
+  transform: ({ image, prompt }, { signal }) =>
+    post(
+      "/sdapi/v1/img2img",
+      { prompt, init_images: [image], denoising_strength: 0.6 },
+      signal,
+    ),
+
+  // A1111 masks use the same convention as ours: white is repainted
+  maskEdit: ({ image, mask, prompt }, { signal }) =>
+    post(
+      "/sdapi/v1/img2img",
+      {
+        prompt,
+        init_images: [image],
+        mask,
+        denoising_strength: 0.75,
+        inpainting_fill: 1,
+      },
+      signal,
+    ),
+
+  text: async () => {
+    throw new UnsupportedOperationError("Local server", "text");
+  },
+};
@@ -0,0 +1,164 @@
+import { base64ToBlob } from "@/lib/image/bitmap";
+import type { GenerationProvider } from "@/lib/providers/types";
+
+/**
+ * Offline mock: procedurally drawn black-and-white line art and canned
+ * labels, with no network and no key. Output depends only on the request,
+ * so the same prompt always draws the same page. Meant for demos, CI and
+ * exercising the editor's generation, refine and PDF flows.
+ */
+
+// Portrait US Letter at 72 dpi
+const WIDTH = 612;
+const HEIGHT = 792;
+
+const LABELS = [
+  "Count the apples",
+  "Trace the letter A",
+  "Color the big circle",
+  "Circle the shapes with 4 sides",
+  "How many stars?",
+  "Match the pairs",
+  "Draw a line to the cat",
+  "Find the number 5",
+];
+
+// FNV-1a: a stable 32-bit seed from any string
+function seedOf(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function random(seed: number) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function canvas(w = WIDTH, h = HEIGHT) {
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) throw new Error("no ctx");
+  return { c, ctx };
+}
+
+function drawShapes(
+  ctx: CanvasRenderingContext2D,
+  prompt: string,
+  w: number,
+  h: number,
+) {
+  const rand = random(seedOf(prompt));
+  ctx.strokeStyle = "#000";
+  ctx.lineWidth = Math.max(4, Math.round(w / 100));
+  ctx.lineJoin = "round";
+  const count = 3 + Math.floor(rand() * 5);
+  for (let i = 0; i < count; i++) {
+    const size = (0.08 + rand() * 0.14) * w;
+    const x = size + rand() * (w - 2 * size);
+    const y = size + rand() * (h - 2 * size);
+    ctx.beginPath();
+    switch (Math.floor(rand() * 4)) {
+      case 0:
+        ctx.arc(x, y, size, 0, Math.PI * 2);
+        break;
+      case 1:
+        ctx.rect(x - size, y - size, size * 2, size * 2);
+        break;
+      case 2:
+        ctx.moveTo(x, y - size);
+        ctx.lineTo(x + size, y + size);
+        ctx.lineTo(x - size, y + size);
+        ctx.closePath();
+        break;
+      default:
+        for (let k = 0; k < 10; k++) {
+          const r = k % 2 ? size * 0.45 : size;
+          const a = (Math.PI / 5) * k - Math.PI / 2;
+          ctx.lineTo(x + r * Math.cos(a), y + r * Math.sin(a));
+        }
+        ctx.closePath();
+    }
+    ctx.stroke();
+  }
+}
+
+function toBlob(c: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    c.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error("Could not encode image"))),
+      "image/png",
+    ),
+  );
+}
+
+async function loadBase64(b64: string): Promise<ImageBitmap> {
+  return createImageBitmap(base64ToBlob(b64));
+}
+
+export const mockProvider: GenerationProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  description:
+    "Draws deterministic placeholder line art and canned labels without any network. For demos and tests.",
+  capabilities: { generate: true, transform: true, maskEdit: true, text: true },
+  settings: [],
+  model: () => "mock",
+  setupHint: () => null,
+
+  generate: async ({ prompt }) => {
+    const { c, ctx } = canvas();
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    drawShapes(ctx, prompt, WIDTH, HEIGHT);
+    return toBlob(c);
+  },
+
+  // The source image plus a few shapes seeded by the instruction
+  transform: async ({ image, prompt }) => {
+    const base = await loadBase64(image);
+    const { c, ctx } = canvas(base.width, base.height);
+    ctx.drawImage(base, 0, 0);
+    drawShapes(ctx, prompt, base.width, base.height);
+    return toBlob(c);
+  },
+
+  // Shapes drawn only where the mask is white
+  maskEdit: async ({ image, mask, prompt }) => {
+    const [base, maskImg] = await Promise.all([
+      loadBase64(image),
+      loadBase64(mask),
+    ]);
+    const w = base.width;
+    const h = base.height;
+    const layer = canvas(w, h);
+    layer.ctx.fillStyle = "#fff";
+    layer.ctx.fillRect(0, 0, w, h);
+    drawShapes(layer.ctx, prompt, w, h);
+    // Turn the mask's white into opacity for the new layer
+    const m = canvas(w, h);
+    m.ctx.drawImage(maskImg, 0, 0, w, h);
+    const md = m.ctx.getImageData(0, 0, w, h);
+    const ld = layer.ctx.getImageData(0, 0, w, h);
+    for (let i = 0; i < md.data.length; i += 4) ld.data[i + 3] = md.data[i];
+    layer.ctx.putImageData(ld, 0, 0);
+
+    const { c, ctx } = canvas(w, h);
+    ctx.drawImage(base, 0, 0);
+    ctx.drawImage(layer.c, 0, 0);
+    return toBlob(c);
+  },
+
+  text: async ({ prompt }) => LABELS[seedOf(prompt) % LABELS.length],
+};
@@ -0,0 +1,208 @@
+import { base64ToBlob } from "@/lib/image/bitmap";
+import { readProviderSettings } from "@/lib/providers/settings";
+import {
+  GenerationError,
+  kindForStatus,
+  parseRetryAfter,
+  type GenerationProvider,
+} from "@/lib/providers/types";
+
+/**
+ * OpenAI-compatible endpoints (OpenAI itself or any server exposing
+ * /images/generations, /images/edits and /chat/completions). Called from
+ * the browser with the user's own key, so usage is not metered by Checkfu.
+ */
+
+type ImagesResponse = { data?: { b64_json?: string; url?: string }[] };
+
+function config() {
+  const s = readProviderSettings(openaiCompatibleProvider);
+  if (!s.apiKey)
+    throw new GenerationError(
+      "auth",
+      "Missing API key for the OpenAI-compatible provider: add it in Settings.",
+    );
+  return {
+    baseUrl: s.baseUrl.replace(/\/+$/, ""),
+    apiKey: s.apiKey,
+    imageModel: s.imageModel,
+    textModel: s.textModel,
+    size: s.size,
+  };
+}
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new GenerationError(
+      /content_policy|moderation_blocked|safety/i.test(body)
+        ? "safety"
+        : kindForStatus(res.status),
+      `OpenAI-compatible request failed (${res.status})${body ? `: ${body.slice(0, 300)}` : ""}`,
+      parseRetryAfter(res.headers.get("retry-after")),
+    );
+  }
+  return (await res.json()) as T;
+}
+
+async function imageFrom(
+  res: ImagesResponse,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const first = res.data?.[0];
+  if (first?.b64_json) return base64ToBlob(first.b64_json);
+  if (first?.url) return (await fetch(first.url, { signal })).blob();
+  throw new GenerationError("text_instead_of_image", "No image in response");
+}
+
+// The edits endpoint expects a mask that is transparent where the image may
+// change; ours is white there and black elsewhere
+async function maskToAlpha(maskB64: string): Promise<Blob> {
+  const bitmap = await createImageBitmap(base64ToBlob(maskB64));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("no ctx");
+  ctx.drawImage(bitmap, 0, 0);
+  const img = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const d = img.data;
+  for (let i = 0; i < d.length; i += 4) {
+    const editable = d[i] + d[i + 1] + d[i + 2] > 384;
+    d[i] = d[i + 1] = d[i + 2] = 0;
+    d[i + 3] = editable ? 0 : 255;
+  }
+  ctx.putImageData(img, 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error("Mask conversion failed"))),
+      "image/png",
+    ),
+  );
+}
+
+async function edit(
+  image: string,
+  prompt: string,
+  signal?: AbortSignal,
+  mask?: string,
+): Promise<Blob> {
+  const c = config();
+  const form = new FormData();
+  form.append("model", c.imageModel);
+  form.append("prompt", prompt);
+  form.append("size", c.size);
+  form.append("image", base64ToBlob(image), "image.png");
+  if (mask) form.append("mask", await maskToAlpha(mask), "mask.png");
+  return imageFrom(
+    await request<ImagesResponse>(`${c.baseUrl}/images/edits`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${c.apiKey}` },
+      body: form,
+      signal,
+    }),
+    signal,
+  );
+}
+
+export const openaiCompatibleProvider: GenerationProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+  description:
+    "Any endpoint that speaks the OpenAI images and chat API, called from this browser with your key.",
+  capabilities: { generate: true, transform: true, maskEdit: true, text: true },
+  settings: [
+    {
+      key: "baseUrl",
+      label: "Base URL",
+      type: "url",
+      defaultValue: "https://api.openai.com/v1",
+    },
+    { key: "apiKey", label: "API key", type: "password" },
+    {
+      key: "imageModel",
+      label: "Image model",
+      type: "text",
+      defaultValue: "gpt-image-1",
+    },
+    {
+      key: "textModel",
+      label: "Text model",
+      type: "text",
+      defaultValue: "gpt-4o-mini",
+    },
+    {
+      key: "size",
+      label: "Image size",
+      type: "text",
+      defaultValue: "1024x1536",
+    },
+  ],
+  model: (kind) => {
+    const s = readProviderSettings(openaiCompatibleProvider);
+    return kind === "text" ? s.textModel : s.imageModel;
+  },
+  setupHint: () =>
+    readProviderSettings(openaiCompatibleProvider).apiKey
+      ? null
+      : "Add an API key for the OpenAI-compatible provider",
+
+  generate: async ({ prompt }, { signal }) => {
+    const c = config();
+    return imageFrom(
+      await request<ImagesResponse>(`${c.baseUrl}/images/generations`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${c.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: c.imageModel,
+          prompt,
+          size: c.size,
+          n: 1,
+        }),
+        signal,
+      }),
+      signal,
+    );
+  },
+
+  transform: ({ image, prompt }, { signal }) => edit(image, prompt, signal),
+
+  maskEdit: ({ image, mask, prompt }, { signal }) =>
+    edit(image, prompt, signal, mask),
+
+  text: async ({ prompt, image }, { signal }) => {
+    const c = config();
+    const res = await request<{
+      choices?: { message?: { content?: string } }[];
+    }>(`${c.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${c.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: c.textModel,
+        messages: [
+          {
+            role: "user",
+            content: image
+              ? [
+                  { type: "text", text: prompt },
+                  {
+                    type: "image_url",
+                    image_url: { url: `data:image/png;base64,${image}` },
+                  },
+                ]
+              : prompt,
+          },
+        ],
+      }),
+      signal,
+    });
+    return res.choices?.[0]?.message?.content ?? "";
+  },
+};
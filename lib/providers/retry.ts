@@ -0,0 +1,130 @@
+import { classifyGenerationError, type GenerationError } from "./types";
+
+/**
+ * Retries for generation requests. Rate limits, transient server/network
+ * failures and image requests answered with text are retried with jittered
+ * exponential backoff; a server-requested wait (Retry-After) is honoured
+ * when it is longer. Everything else fails on the first attempt.
+ * Cancellation (an aborted `signal`) is never retried and ends any wait.
+ */
+
+export type RetryState = {
+  // The attempt that is about to run (2 = first retry)
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: GenerationError;
+};
+
+export type RetryOptions = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (state: RetryState) => void;
+  signal?: AbortSignal;
+};
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20_000;
+// Asked to wait longer than this: give up and surface the error instead
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// "Equal jitter": half the exponential step, plus a random half
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs = BASE_DELAY_MS,
+  maxDelayMs = MAX_DELAY_MS,
+): number {
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as Error | null)?.name === "AbortError";
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Stop waiting for `promise` once `signal` aborts. For requests that cannot
+ * be cancelled themselves (the Convex action): the work still finishes on
+ * the other side, but its result is dropped.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  opts: RetryOptions = {},
+): Promise<T> {
+  const maxAttempts = opts.maxAttempts ?? MAX_ATTEMPTS;
+  for (let attempt = 1; ; attempt++) {
+    opts.signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (err) {
+      if (opts.signal?.aborted || isAbortError(err)) throw err;
+      const error = classifyGenerationError(err);
+      if (
+        !error.retryable ||
+        attempt >= maxAttempts ||
+        (error.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS
+      )
+        throw error;
+      const delayMs = Math.max(
+        error.retryAfterMs ?? 0,
+        backoffDelay(attempt, opts.baseDelayMs, opts.maxDelayMs),
+      );
+      opts.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+      await sleep(delayMs, opts.signal);
+    }
+  }
+}
+
+const KIND_LABELS: Record<GenerationError["kind"], string> = {
+  auth: "Not authorized",
+  quota: "Quota used up",
+  rate_limit: "Rate limited",
+  safety: "Blocked by safety filter",
+  text_instead_of_image: "No image returned",
+  transient: "Service unavailable",
+  unsupported: "Not supported",
+  unknown: "Failed",
+};
+
+/** Short page status for a pending retry. */
+export function retryStatus(state: RetryState): string {
+  const secs = Math.max(1, Math.round(state.delayMs / 1000));
+  return `${KIND_LABELS[state.error.kind]}, retrying in ${secs}s (attempt ${state.attempt}/${state.maxAttempts})…`;
+}
+
+/** Short page status for a failure that will not be retried. */
+export function failureStatus(err: unknown): string {
+  const error = classifyGenerationError(err);
+  return error.kind === "unknown"
+    ? error.message || KIND_LABELS.unknown
+    : KIND_LABELS[error.kind];
+}
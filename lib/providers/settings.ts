@@ -0,0 +1,67 @@
+import type {
+  GenerationProvider,
+  ProviderId,
+  ProviderSettings,
+} from "@/lib/providers/types";
+
+/**
+ * Browser-side provider choices. Which provider a project uses and each
+ * provider's endpoint/key settings live in localStorage, so keys for
+ * third-party endpoints never reach the Checkfu backend.
+ */
+
+export const PROVIDER_SETTINGS_KEY = "CHECKFU_PROVIDER_SETTINGS";
+export const PROJECT_PROVIDERS_KEY = "CHECKFU_PROJECT_PROVIDERS";
+// Project key of the anonymous "try it" workspace
+export const LOCAL_PROJECT_KEY = "local";
+
+function readJson<T>(key: string): Partial<T> {
+  try {
+    if (typeof window === "undefined") return {};
+    return JSON.parse(localStorage.getItem(key) || "{}") as Partial<T>;
+  } catch {
+    return {};
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+  // Same-tab listeners (e.g. the API key hint) pick changes up too
+  window.dispatchEvent(new StorageEvent("storage", { key }));
+}
+
+export function readProviderSettings(
+  provider: GenerationProvider,
+): ProviderSettings {
+  const saved =
+    readJson<Record<string, ProviderSettings>>(PROVIDER_SETTINGS_KEY)[
+      provider.id
+    ] ?? {};
+  const out: ProviderSettings = {};
+  for (const f of provider.settings)
+    out[f.key] = saved[f.key] || f.defaultValue || "";
+  return out;
+}
+
+export function writeProviderSettings(
+  id: ProviderId,
+  values: ProviderSettings,
+) {
+  const all = readJson<Record<string, ProviderSettings>>(PROVIDER_SETTINGS_KEY);
+  writeJson(PROVIDER_SETTINGS_KEY, { ...all, [id]: values });
+}
+
+// Projects without a choice use NEXT_PUBLIC_CHECKFU_PROVIDER (e.g. "mock"
+// for offline demos and CI), else Gemini
+export function readProjectProvider(projectKey: string): ProviderId {
+  return (
+    readJson<Record<string, ProviderId>>(PROJECT_PROVIDERS_KEY)[projectKey] ??
+    (process.env.NEXT_PUBLIC_CHECKFU_PROVIDER as ProviderId | undefined) ??
+    "gemini"
+  );
+}
+
+export function writeProjectProvider(projectKey: string, id: ProviderId) {
+  const all = readJson<Record<string, ProviderId>>(PROJECT_PROVIDERS_KEY);
+  writeJson(PROJECT_PROVIDERS_KEY, { ...all, [projectKey]: id });
+}
@@ -0,0 +1,87 @@
+/**
+ * Generation provider contract. lib/nanoBanana.ts builds the prompts and
+ * calls whichever provider the open project uses; adapters only translate
+ * the four operations to their backend.
+ *
+ * Images go in as base64 PNG (no data: prefix) and come back as a Blob.
+ * Masks are white where the image may change and black elsewhere.
+ * Failures are GenerationErrors (convex/lib/generationErrors.ts); adapters
+ * throw them with a kind where they know it, anything else is classified.
+ * Adapters pass `ctx.signal` to their requests so a cancelled operation
+ * stops its network call too.
+ */
+
+import { GenerationError } from "@/convex/lib/generationErrors";
+
+export {
+  GenerationError,
+  classifyGenerationError,
+  isGenerationErrorKind,
+  kindForStatus,
+  parseRetryAfter,
+  type GenerationErrorKind,
+} from "@/convex/lib/generationErrors";
+
+export type ProviderId = "gemini" | "openai" | "local" | "mock";
+
+export type ProviderCapabilities = {
+  generate: boolean;
+  transform: boolean;
+  maskEdit: boolean;
+  text: boolean;
+};
+
+// Editor state a request was made from (usage is reported per project) and
+// the signal that cancels it
+export type GenerationContext = { projectId?: string; signal?: AbortSignal };
+
+// A per-browser setting shown in the Settings dialog
+export type ProviderSettingField = {
+  key: string;
+  label: string;
+  type: "text" | "url" | "password";
+  placeholder?: string;
+  defaultValue?: string;
+};
+
+export type ProviderSettings = Record<string, string>;
+
+export type GenerationProvider = {
+  id: ProviderId;
+  label: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  settings: ProviderSettingField[];
+  // Model id image or text requests go to (recorded in page provenance)
+  model(kind: "image" | "text"): string;
+  // What the user still has to set up before generating, or null if ready
+  setupHint(env: { signedIn: boolean }): string | null;
+  generate(req: { prompt: string }, ctx: GenerationContext): Promise<Blob>;
+  transform(
+    req: { image: string; prompt: string },
+    ctx: GenerationContext,
+  ): Promise<Blob>;
+  maskEdit(
+    req: { image: string; mask: string; prompt: string },
+    ctx: GenerationContext,
+  ): Promise<Blob>;
+  // `image` (base64 PNG) is something to ask about, e.g. for moderation
+  text(
+    req: { prompt: string; image?: string },
+    ctx: GenerationContext,
+  ): Promise<string>;
+};
+
+/** Thrown when the chosen provider cannot perform an operation. */
+export class UnsupportedOperationError extends GenerationError {
+  constructor(provider: string, operation: keyof ProviderCapabilities) {
+    const names: Record<keyof ProviderCapabilities, string> = {
+      generate: "image generation",
+      transform: "image refinement",
+      maskEdit: "masked edits",
+      text: "text generation",
+    };
+    super("unsupported", `${provider} does not support ${names[operation]}.`);
+    this.name = "UnsupportedOperationError";
+  }
+}
@@ -0,0 +1,196 @@
+import { blobUrlToPngBase64, grayFillRatio } from "@/lib/image/bitmap";
+import {
+  activeProvider,
+  generateTextFromImage,
+  isAbortError,
+  type GenerationOptions,
+} from "@/lib/nanoBanana";
+import { flattenPageToPng } from "@/lib/pdf";
+import { specMatchesLayers } from "@/lib/worksheetSpec";
+import type { Page, PageQa, QaCheck } from "@/store/useEditorStore";
+
+/**
+ * Quality checks of a generated page against the rules computeSystemPrompt
+ * (lib/prompts.ts) gives the model. Worksheets: one instruction line, three
+ * to six tasks, quantities up to 10, no gray fills. Coloring pages: no
+ * text, no gray fills. Counts come from the layers when the page is still
+ * laid out as its task spec (lib/worksheetSpec.ts), otherwise from a vision
+ * check of the flattened page; gray fills from the pixels. A check that
+ * cannot run is a warning.
+ */
+
+// Share of the page in gray fill that warns, and that fails
+const GRAY_WARN = 0.005;
+const GRAY_FAIL = 0.02;
+
+type Vision = {
+  instructionLines?: number;
+  tasks?: number;
+  maxQuantity?: number;
+  text?: boolean;
+};
+
+async function lookAtPage(
+  image: string,
+  worksheet: boolean,
+  opts: GenerationOptions,
+): Promise<Vision> {
+  const fields = worksheet
+    ? '{"instructionLines": number of instruction lines at the top, "tasks": number of separate tasks, "maxQuantity": the largest number or count of objects any task uses}'
+    : '{"text": true if any letters, words or numbers appear, otherwise false}';
+  const reply = await generateTextFromImage(
+    [
+      `This is a printable ${worksheet ? "kindergarten math worksheet" : "coloring page"}.`,
+      `Reply with only JSON, no markdown: ${fields}`,
+    ].join("\n"),
+    image,
+    opts,
+  );
+  const json = reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+  try {
+    return JSON.parse(json) as Vision;
+  } catch {
+    throw new Error("The model's answer could not be read");
+  }
+}
+
+const check = (
+  id: string,
+  label: string,
+  status: QaCheck["status"],
+  detail?: string,
+): QaCheck => ({ id, label, status, ...(detail ? { detail } : {}) });
+
+// A check the model could not answer
+const unchecked = (id: string, label: string, why: string) =>
+  check(id, label, "warn", `Could not check: ${why}`);
+
+const countCheck = (
+  id: string,
+  label: string,
+  n: number | undefined,
+  ok: (n: number) => boolean,
+  what: string,
+  why: string,
+) =>
+  typeof n !== "number"
+    ? unchecked(id, label, why)
+    : check(id, label, ok(n) ? "pass" : "fail", `${n} ${what}`);
+
+export async function checkPageQuality(
+  page: Page,
+  opts: GenerationOptions = {},
+): Promise<PageQa> {
+  const worksheet = page.pageType === "worksheet";
+  const flattened = await flattenPageToPng(page);
+  if (!flattened)
+    return {
+      checks: [check("empty", "Page has content", "fail", "Nothing on it")],
+      checkedAt: Date.now(),
+    };
+
+  // What the page shows: from its layers while they follow the task spec
+  // (each task's picture is drawn from its quantity), else from the model
+  let vision: Vision = {};
+  let why = "";
+  if (worksheet && page.worksheetSpec && specMatchesLayers(page)) {
+    const tasks = new Set(page.children.map((c) => c.taskId).filter(Boolean));
+    vision = {
+      instructionLines: page.children.filter(
+        (c) => c.type === "text" && !c.taskId && c.text.trim(),
+      ).length,
+      tasks: tasks.size,
+      maxQuantity: Math.max(
+        0,
+        ...page.worksheetSpec.tasks.map((t) => t.quantity),
+      ),
+    };
+  } else if (!activeProvider().capabilities.text) {
+    why = `${activeProvider().label} has no text model`;
+  } else {
+    try {
+      vision = await lookAtPage(
+        await blobUrlToPngBase64(flattened, opts.signal),
+        worksheet,
+        opts,
+      );
+    } catch (err) {
+      if (isAbortError(err) || opts.signal?.aborted) throw err;
+      why = (err as Error).message || String(err);
+    }
+  }
+
+  let gray: QaCheck;
+  try {
+    const ratio = await grayFillRatio(flattened, opts.signal);
+    gray = check(
+      "gray",
+      "No gray fills",
+      ratio >= GRAY_FAIL ? "fail" : ratio >= GRAY_WARN ? "warn" : "pass",
+      `${(ratio * 100).toFixed(1)}% of the page is gray fill`,
+    );
+  } catch (err) {
+    if (isAbortError(err) || opts.signal?.aborted) throw err;
+    gray = unchecked("gray", "No gray fills", (err as Error).message);
+  }
+
+  const checks: QaCheck[] = worksheet
+    ? [
+        countCheck(
+          "instruction",
+          "One instruction line",
+          vision.instructionLines,
+          (n) => n === 1,
+          "instruction lines",
+          why,
+        ),
+        countCheck(
+          "tasks",
+          "Three to six tasks",
+          vision.tasks,
+          (n) => n >= 3 && n <= 6,
+          "tasks",
+          why,
+        ),
+        countCheck(
+          "quantities",
+          "Quantities up to 10",
+          vision.maxQuantity,
+          (n) => n <= 10,
+          "is the largest quantity",
+          why,
+        ),
+        gray,
+      ]
+    : [
+        page.children.some((c) => c.type === "text")
+          ? check("text", "No text", "warn", "The page has text layers")
+          : typeof vision.text !== "boolean"
+            ? unchecked("text", "No text", why)
+            : check(
+                "text",
+                "No text",
+                vision.text ? "fail" : "pass",
+                vision.text ? "Text in the picture" : undefined,
+              ),
+        gray,
+      ];
+  return { checks, checkedAt: Date.now() };
+}
+
+/**
+ * The failed and doubtful checks as an addition to the prompt, for
+ * regenerating the page with them fixed. Empty when everything passed.
+ */
+export function qaFeedback(qa: PageQa): string {
+  const problems = qa.checks.filter(
+    (c) => c.status !== "pass" && !c.detail?.startsWith("Could not check"),
+  );
+  if (!problems.length) return "";
+  return [
+    "The previous attempt broke these rules; fix them:",
+    ...problems.map(
+      (c) => `- ${c.label}${c.detail ? ` (it had: ${c.detail})` : ""}`,
+    ),
+  ].join("\n");
+}
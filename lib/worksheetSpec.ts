@@ -0,0 +1,300 @@
+import { newId } from "@/lib/ids";
+import { pagePx } from "@/lib/image/pageMetrics";
+import { generateTextContent, type GenerationOptions } from "@/lib/nanoBanana";
+import type {
+  ImageChild,
+  Orientation,
+  TextChild,
+  WorksheetSpec,
+  WorksheetTask,
+} from "@/store/useEditorStore";
+
+/**
+ * Structured worksheets. Instead of drawing a whole worksheet as one image,
+ * the text model returns a WorksheetSpec (instruction line, and tasks with
+ * quantity, manipulative and answer; prompts in lib/prompts.ts). The spec
+ * is laid out as layers: the instruction and each task's prompt and answer
+ * line as text, each task's picture as an image placeholder to generate.
+ * Layers carry their task's id (ChildBase.taskId) so a task can be edited
+ * and regenerated on its own.
+ */
+
+const MIN_TASKS = 3;
+const MAX_TASKS = 6;
+const MAX_QUANTITY = 10;
+const MARGIN = 48;
+const GAP = 16;
+const FONT = "Inter";
+
+const invalid = () =>
+  new Error("The model did not return a valid worksheet. Try again.");
+
+// The JSON object in a model reply, tolerating code fences and chatter
+function parseJsonObject(text: string): Record<string, unknown> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end < start) throw invalid();
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    if (!parsed || typeof parsed !== "object") throw invalid();
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw invalid();
+  }
+}
+
+const oneLine = (v: unknown) =>
+  String(v ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+function toTask(raw: unknown): WorksheetTask {
+  if (!raw || typeof raw !== "object") throw invalid();
+  const t = raw as Record<string, unknown>;
+  const prompt = oneLine(t.prompt);
+  const quantity = Number(t.quantity);
+  const manipulative = oneLine(t.manipulative);
+  // A quantity out of range is not capped: the answer counts the objects
+  if (
+    !prompt ||
+    !manipulative ||
+    !Number.isInteger(quantity) ||
+    quantity < 0 ||
+    quantity > MAX_QUANTITY
+  )
+    throw invalid();
+  return {
+    id: newId("task"),
+    prompt,
+    quantity,
+    manipulative,
+    answer: oneLine(t.answer),
+  };
+}
+
+export function parseWorksheetSpec(text: string): WorksheetSpec {
+  const raw = parseJsonObject(text);
+  const instruction = oneLine(raw.instruction);
+  if (!instruction || !Array.isArray(raw.tasks)) throw invalid();
+  // Unusable tasks are left out, as long as enough remain
+  const tasks = raw.tasks
+    .flatMap((t): WorksheetTask[] => {
+      try {
+        return [toTask(t)];
+      } catch {
+        return [];
+      }
+    })
+    .slice(0, MAX_TASKS);
+  if (tasks.length < MIN_TASKS)
+    throw new Error(
+      `The model returned ${tasks.length} usable ${tasks.length === 1 ? "task" : "tasks"}; a worksheet needs at least ${MIN_TASKS}. Try again.`,
+    );
+  return { instruction, tasks };
+}
+
+export function parseWorksheetTask(text: string): WorksheetTask {
+  return toTask(parseJsonObject(text));
+}
+
+export async function generateWorksheetSpec(
+  instruction: string,
+  opts: GenerationOptions = {},
+): Promise<WorksheetSpec> {
+  return parseWorksheetSpec(await generateTextContent(instruction, opts));
+}
+
+export async function generateWorksheetTask(
+  instruction: string,
+  opts: GenerationOptions = {},
+): Promise<WorksheetTask> {
+  return parseWorksheetTask(await generateTextContent(instruction, opts));
+}
+
+// The text of a task's prompt layer
+export const taskLabel = (task: WorksheetTask, index: number) =>
+  `${index + 1}. ${task.prompt}`;
+
+export const ANSWER_LINE = "Answer: ________";
+
+let measureCtx: CanvasRenderingContext2D | null | undefined;
+
+// Rendered size of one line of text (Fabric draws lines 1.16 em tall)
+function measure(text: string, fontSize: number, bold: boolean) {
+  if (measureCtx === undefined)
+    measureCtx =
+      typeof document === "undefined"
+        ? null
+        : document.createElement("canvas").getContext("2d");
+  let width = text.length * fontSize * 0.55;
+  if (measureCtx) {
+    measureCtx.font = `${bold ? "bold " : ""}${fontSize}px ${FONT}`;
+    width = measureCtx.measureText(text).width;
+  }
+  return { width: Math.ceil(width), height: Math.ceil(fontSize * 1.16) };
+}
+
+// A single-line text layer, its font shrunk until it fits `maxWidth`
+export function textLayer(
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  fontSize: number,
+  bold = false,
+  taskId?: string,
+): TextChild {
+  let size = fontSize;
+  let box = measure(text, size, bold);
+  while (box.width > maxWidth && size > 12) box = measure(text, --size, bold);
+  return {
+    id: newId("t"),
+    type: "text",
+    x,
+    y,
+    width: box.width,
+    height: box.height,
+    angle: 0,
+    text,
+    fontFamily: FONT,
+    fontSize: size,
+    fontWeight: bold ? "bold" : "normal",
+    align: "left",
+    ...(taskId ? { taskId } : {}),
+  };
+}
+
+/**
+ * Lay a spec out on a page: the instruction across the top, then the tasks
+ * in a grid (left to right, top to bottom), each with its prompt, a picture
+ * placeholder and an answer line.
+ */
+export function layoutWorksheet(
+  spec: WorksheetSpec,
+  orientation: Orientation,
+): (TextChild | ImageChild)[] {
+  const { pxW, pxH } = pagePx(orientation);
+  const contentW = pxW - 2 * MARGIN;
+  const instruction = textLayer(
+    spec.instruction,
+    MARGIN,
+    MARGIN,
+    contentW,
+    28,
+    true,
+  );
+  const top = MARGIN + instruction.height + 2 * GAP;
+  const n = spec.tasks.length;
+  const cols =
+    orientation === "landscape"
+      ? n <= 3
+        ? n
+        : n === 4
+          ? 2
+          : 3
+      : n > 3
+        ? 2
+        : 1;
+  const rows = Math.ceil(n / cols);
+  const cellW = (contentW - (cols - 1) * GAP) / cols;
+  const cellH = (pxH - MARGIN - top - (rows - 1) * GAP) / rows;
+
+  const children: (TextChild | ImageChild)[] = [instruction];
+  spec.tasks.forEach((task, i) => {
+    const x = Math.round(MARGIN + (i % cols) * (cellW + GAP));
+    const y = Math.round(top + Math.floor(i / cols) * (cellH + GAP));
+    const prompt = textLayer(
+      taskLabel(task, i),
+      x,
+      y,
+      cellW,
+      22,
+      false,
+      task.id,
+    );
+    const answer = textLayer(ANSWER_LINE, x, 0, cellW, 22, false, task.id);
+    answer.y = Math.round(y + cellH - answer.height);
+    const pictureTop = y + prompt.height + GAP / 2;
+    children.push(prompt, {
+      id: newId("img"),
+      type: "image",
+      x,
+      y: Math.round(pictureTop),
+      width: Math.round(cellW),
+      height: Math.max(40, Math.round(answer.y - GAP / 2 - pictureTop)),
+      angle: 0,
+      placeholder: true,
+      taskId: task.id,
+    });
+    children.push(answer);
+  });
+  return children;
+}
+
+/**
+ * Whether the page is still laid out as its spec describes: every task
+ * shows its prompt and picture, and no layer belongs to a task outside the
+ * spec (e.g. a spec carried over from another page, or layers deleted).
+ */
+export function specMatchesLayers(page: {
+  children: (TextChild | ImageChild)[];
+  worksheetSpec?: WorksheetSpec;
+}): boolean {
+  const tasks = page.worksheetSpec?.tasks || [];
+  if (!tasks.length) return false;
+  const ids = new Set(tasks.map((t) => t.id));
+  return (
+    page.children.every((c) => !c.taskId || ids.has(c.taskId)) &&
+    tasks.every(
+      (t, i) =>
+        page.children.some((c) => c.type === "image" && c.taskId === t.id) &&
+        page.children.some(
+          (c) =>
+            c.type === "text" &&
+            c.taskId === t.id &&
+            c.text === taskLabel(t, i),
+        ),
+    )
+  );
+}
+
+// A text layer showing new text at its font size
+export function retext(layer: TextChild, text: string): TextChild {
+  const { width, height } = measure(
+    text,
+    layer.fontSize,
+    layer.fontWeight === "bold",
+  );
+  return { ...layer, text, width, height };
+}
+
+/**
+ * Change one task of a page's spec. A new prompt is also shown in the
+ * task's prompt layer, unless that layer was edited by hand.
+ */
+export function patchTask(
+  page: { children: (TextChild | ImageChild)[]; worksheetSpec?: WorksheetSpec },
+  taskId: string,
+  patch: Partial<Omit<WorksheetTask, "id">>,
+): { children: (TextChild | ImageChild)[]; worksheetSpec?: WorksheetSpec } {
+  const spec = page.worksheetSpec;
+  const index = spec?.tasks.findIndex((t) => t.id === taskId) ?? -1;
+  if (!spec || index < 0) return page;
+  const prev = spec.tasks[index];
+  const next = { ...prev, ...patch, id: prev.id };
+  const label = taskLabel(prev, index);
+  return {
+    children:
+      next.prompt === prev.prompt
+        ? page.children
+        : page.children.map((c) =>
+            c.type === "text" && c.taskId === taskId && c.text === label
+              ? retext(c, taskLabel(next, index))
+              : c,
+          ),
+    worksheetSpec: {
+      ...spec,
+      tasks: spec.tasks.map((t, i) => (i === index ? next : t)),
+    },
+  };
+}
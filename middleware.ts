@@ -1,6 +1,8 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-const isProtectedRoute = createRouteMatcher(["/server"]);
+// The project library, project editor and usage view need an account. `/`
+// and the local-only `/try` editor stay public.
+const isProtectedRoute = createRouteMatcher(["/projects(.*)", "/usage(.*)"]);
 
 export default clerkMiddleware(async (auth, req) => {
   if (isProtectedRoute(req)) await auth.protect();
@@ -0,0 +1,62 @@
+import { create } from "zustand";
+
+/**
+ * Per-layer progress of a page generation (generateInto runs a page's text
+ * and image layers concurrently). PageNode shows a badge on each layer while
+ * the page generates, and keeps the failed ones, with their reason, until
+ * the page's leftover status is dismissed or it generates again. UI-only:
+ * never touches undo history or persistence.
+ */
+
+export type ChildProgress = {
+  state: "queued" | "running" | "done" | "failed";
+  error?: string;
+};
+
+type ProgressByChild = Record<string, ChildProgress>;
+
+type ChildProgressState = {
+  // pageId → childId → progress
+  pages: Record<string, ProgressByChild>;
+  set: (pageId: string, childId: string, progress: ChildProgress) => void;
+  // Keep only the failures of a finished run
+  settle: (pageId: string) => void;
+  // Forget a page (or every page)
+  clear: (pageId?: string) => void;
+};
+
+export const useChildProgressStore = create<ChildProgressState>()((set) => ({
+  pages: {},
+  set: (pageId, childId, progress) =>
+    set((s) => ({
+      pages: {
+        ...s.pages,
+        [pageId]: { ...s.pages[pageId], [childId]: progress },
+      },
+    })),
+  settle: (pageId) =>
+    set((s) => {
+      const failed = Object.fromEntries(
+        Object.entries(s.pages[pageId] ?? {}).filter(
+          ([, p]) => p.state === "failed",
+        ),
+      );
+      const { [pageId]: _, ...rest } = s.pages;
+      return {
+        pages: Object.keys(failed).length
+          ? { ...rest, [pageId]: failed }
+          : rest,
+      };
+    }),
+  clear: (pageId) =>
+    set((s) => {
+      if (pageId === undefined) return { pages: {} };
+      const { [pageId]: _, ...rest } = s.pages;
+      return { pages: rest };
+    }),
+}));
+
+const NONE: ProgressByChild = {};
+
+export const useChildProgress = (pageId: string | null | undefined) =>
+  useChildProgressStore((s) => (pageId ? (s.pages[pageId] ?? NONE) : NONE));
@@ -59,6 +59,8 @@ export type ChildBase = {
   visible?: boolean;
   locked?: boolean;
   z?: number;
+  // Task of Page.worksheetSpec this layer was laid out for
+  taskId?: string;
 };
 
 export type TextChild = ChildBase & {
@@ -76,6 +78,89 @@ export type ImageChild = ChildBase & {
   src?: string;
   placeholder?: boolean;
   crop?: { left: number; top: number; width: number; height: number } | null;
+  provenance?: Provenance;
+};
+
+/**
+ * How a page background or image layer was last generated, so it can be
+ * inspected and re-run. Replaced by each successful generation and dropped
+ * when the image is replaced by hand (upload, import).
+ */
+export type Provenance = {
+  operation: "generate" | "transform" | "mask";
+  provider: string;
+  model: string;
+  // Full instruction from buildInstruction
+  instruction: string;
+  // Page the generation branched from
+  parentPageId?: string;
+  // Image the operation started from (transform and mask)
+  sourceImageUrl?: string;
+  // White-on-black mask, aligned with the source image (mask)
+  maskUrl?: string;
+  createdAt: number;
+  durationMs: number;
+};
+
+/**
+ * One task of a structured worksheet: what it asks, the picture that goes
+ * with it (`quantity` of `manipulative`) and its answer.
+ */
+export type WorksheetTask = {
+  id: string;
+  prompt: string;
+  quantity: number;
+  // What the picture shows: apples, dots, a ten frame, a number line…
+  manipulative: string;
+  answer: string;
+};
+
+/**
+ * A worksheet the model planned as data (lib/worksheetSpec.ts) instead of
+ * one image; the editor lays it out as text and image layers tagged with
+ * their task (ChildBase.taskId).
+ */
+export type WorksheetSpec = {
+  instruction: string;
+  tasks: WorksheetTask[];
+};
+
+/**
+ * One rule of the page's system prompt checked after generation
+ * (lib/qa.ts): "pass", "warn" (likely broken, or could not be checked) or
+ * "fail".
+ */
+export type QaCheck = {
+  id: string;
+  label: string;
+  status: "pass" | "warn" | "fail";
+  detail?: string;
+};
+
+// The quality checklist of a page's last generation
+export type PageQa = {
+  checks: QaCheck[];
+  checkedAt: number;
+};
+
+// One row of a page's variable table: a value per `{{name}}` in its
+// prompt (lib/promptTemplate.ts)
+export type VariableRow = Record<string, string>;
+
+// What a generation writes to a page
+export type PageContent = Pick<
+  Page,
+  "children" | "imageUrl" | "originalImageUrl" | "provenance" | "worksheetSpec"
+>;
+
+/**
+ * A generated result moderation flagged (lib/moderation.ts): held on the
+ * page, instead of applied, until a teacher approves or rejects it. Its
+ * presence is the page's "needs teacher review" flag.
+ */
+export type PageReview = PageContent & {
+  reasons: string[];
+  createdAt: number;
 };
 
 export type PageStatus = "Transforming…" | "Generating…" | "" | string;
@@ -94,6 +179,15 @@ export type Page = {
   pageType?: "worksheet" | "coloring";
   coloringStyle?: "classic" | "anime" | "retro";
   standards?: string[];
+  variableRows?: VariableRow[];
+  // Set when the layers were laid out from a structured worksheet
+  worksheetSpec?: WorksheetSpec;
+  // Marks an answer key: the worksheet page it answers (lib/answerKey.ts)
+  answerKeyFor?: string;
+  qa?: PageQa;
+  // Last generation of the background (imageUrl)
+  provenance?: Provenance;
+  review?: PageReview;
   generating?: boolean;
   status?: PageStatus;
   children: (TextChild | ImageChild)[];
@@ -111,6 +205,13 @@ type EditorState = {
   edges: GraphEdge[];
 };
 
+// The content-only slice of the store: what history records and what gets
+// persisted. See selectDomain below.
+export type EditorDomain = Pick<
+  EditorState,
+  "pages" | "order" | "nodePositions" | "edges"
+>;
+
 type EditorActions = {
   setCurrentPage: (id: string | null) => void;
   addEmptyPage: (overrides?: Partial<Page>) => string;
@@ -122,16 +223,34 @@ type EditorActions = {
   deletePage: (id: string) => void;
   patchPage: (id: string, patch: Partial<Page>) => void;
   replaceChildren: (id: string, next: (TextChild | ImageChild)[]) => void;
+  // Apply (approve) or drop a result held for teacher review
+  resolveReview: (id: string, approve: boolean) => void;
   selectChild: (id: string, childId: string | null) => void;
   setNodePositions: (patch: Record<string, { x: number; y: number }>) => void;
   // Graph actions
   addEdge: (source: string, target: string) => string;
   removeEdgesByIds: (ids: string[]) => void;
   branch: (parentId: string, prompt: string) => string; // atomic: add page + edge
+  // Atomic: add one generating variant per batch row, with its prompts
+  branchBatch: (
+    parentId: string,
+    branches: Pick<Page, "title" | "prompt" | "systemPrompt">[],
+  ) => string[];
+  // Atomic: add already generated variants of a page (one undo step)
+  addBranches: (parentId: string, drafts: Page[]) => string[];
+  // atomic: add the answer key page of a worksheet + edge from it
+  addAnswerKey: (
+    worksheetId: string,
+    content: Pick<Page, "children" | "imageUrl">,
+  ) => string;
   deletePageWithReattach: (
     id: string,
     preferredParentId?: string | null,
   ) => void;
+  // Replace the whole domain (restore from storage or a project file)
+  loadDomain: (domain: EditorDomain) => void;
+  // Take in remote changes: like loadDomain but keeps the current page
+  syncDomain: (domain: EditorDomain) => void;
 };
 
 type Store = EditorState & { actions: EditorActions };
@@ -220,6 +339,22 @@ export const useEditorStore = create<Store>()(
             if (!prev) return s;
             return { pages: { ...s.pages, [id]: { ...prev, children: next } } };
           }),
+        resolveReview: (id, approve) =>
+          set((s) => {
+            const prev = s.pages[id];
+            if (!prev?.review) return s;
+            const { reasons: _, createdAt: __, ...content } = prev.review;
+            return {
+              pages: {
+                ...s.pages,
+                [id]: {
+                  ...prev,
+                  ...(approve ? content : {}),
+                  review: undefined,
+                },
+              },
+            };
+          }),
         /**
          * UI-only selection inside a page. We do not want a history entry for
          * simply changing which child is selected, so we pause history while
@@ -269,14 +404,12 @@ export const useEditorStore = create<Store>()(
           if (!parent) return "";
           const id = newId("p");
           const child: Page = {
-            ...parent,
+            ...variantOf(parent),
             id,
             title: `${parent.title} variant`,
             prompt,
             generating: true,
             status: "Generating…",
-            children: [...(parent.children || [])],
-            selectedChildId: null,
           };
           const edgeId = newId("e");
           set((s) => ({
@@ -288,6 +421,96 @@ export const useEditorStore = create<Store>()(
           return id;
         },
 
+        branchBatch: (parentId, branches) => {
+          const parent = get().pages[parentId];
+          if (!parent || !branches.length) return [];
+          const added: Page[] = branches.map((b) => ({
+            ...variantOf(parent),
+            ...b,
+            id: newId("p"),
+            generating: true,
+            status: "Queued",
+          }));
+          const ids = added.map((p) => p.id);
+          set((s) => ({
+            pages: {
+              ...s.pages,
+              ...Object.fromEntries(added.map((p) => [p.id, p])),
+            },
+            order: s.order.concat(ids),
+            edges: s.edges.concat(
+              ids.map((id) => ({
+                id: newId("e"),
+                source: parentId,
+                target: id,
+              })),
+            ),
+          }));
+          return ids;
+        },
+
+        addBranches: (parentId, drafts) => {
+          const parent = get().pages[parentId];
+          if (!parent || !drafts.length) return [];
+          const added = drafts.map((d) => ({
+            ...d,
+            id: newId("p"),
+            title: `${parent.title} variant`,
+            generating: false,
+            status: "",
+            selectedChildId: null,
+          }));
+          const ids = added.map((p) => p.id);
+          set((s) => ({
+            pages: {
+              ...s.pages,
+              ...Object.fromEntries(added.map((p) => [p.id, p])),
+            },
+            order: s.order.concat(ids),
+            currentPageId: ids[0],
+            edges: s.edges.concat(
+              ids.map((id) => ({
+                id: newId("e"),
+                source: parentId,
+                target: id,
+              })),
+            ),
+          }));
+          return ids;
+        },
+
+        addAnswerKey: (worksheetId, content) => {
+          const worksheet = get().pages[worksheetId];
+          if (!worksheet) return "";
+          const id = newId("p");
+          const key: Page = {
+            ...worksheet,
+            id,
+            title: `${worksheet.title} answer key`,
+            ...content,
+            originalImageUrl: content.imageUrl,
+            provenance: undefined,
+            worksheetSpec: undefined,
+            review: undefined,
+            qa: undefined,
+            answerKeyFor: worksheetId,
+            generating: false,
+            status: "",
+            selectedChildId: null,
+          };
+          set((s) => ({
+            pages: { ...s.pages, [id]: key },
+            order: s.order.concat(id),
+            currentPageId: id,
+            edges: s.edges.concat({
+              id: newId("e"),
+              source: worksheetId,
+              target: id,
+            }),
+          }));
+          return id;
+        },
+
         deletePageWithReattach: (id, preferredParentId) =>
           set((s) => {
             if (!s.pages[id]) return s;
@@ -322,30 +545,94 @@ export const useEditorStore = create<Store>()(
                 : s.currentPageId;
             return { pages: rest, order, currentPageId, edges };
           }),
+
+        /**
+         * Swap in a complete domain snapshot. Callers that restore saved work
+         * should clear history afterwards so Undo cannot step back into the
+         * empty pre-restore state.
+         */
+        loadDomain: (domain) =>
+          set({
+            pages: domain.pages,
+            order: domain.order,
+            nodePositions: domain.nodePositions,
+            edges: domain.edges,
+            currentPageId: domain.order[0] ?? null,
+          }),
+
+        /**
+         * Apply a domain merged with collaborators' edits. Callers wrap this
+         * in writeUI: remote changes are not the local user's to undo.
+         */
+        syncDomain: (domain) =>
+          set((s) => ({
+            pages: domain.pages,
+            order: domain.order,
+            nodePositions: domain.nodePositions,
+            edges: domain.edges,
+            currentPageId:
+              s.currentPageId && domain.pages[s.currentPageId]
+                ? s.currentPageId
+                : (domain.order[0] ?? null),
+          })),
       },
     }),
     {
       // Only record meaningful, content-affecting fields in history.
       // We strip transient UI bits so undo/redo operates on content only.
       // Note: currentPageId is considered UI and is NOT captured in history.
-      partialize: (s) => {
-        const pagesClean: Record<string, Page> = {} as any;
-        for (const id of Object.keys(s.pages)) {
-          const { generating, status, selectedChildId, ...keep } = s.pages[id];
-          pagesClean[id] = keep as Page;
-        }
-        return {
-          pages: pagesClean,
-          order: s.order,
-          nodePositions: s.nodePositions,
-          edges: s.edges,
-        } as Partial<typeof s>;
-      },
+      partialize: (s) => selectDomain(s) as Partial<typeof s>,
       limit: HISTORY_LIMIT,
     },
   ),
 );
 
+export const emptyDomain = (): EditorDomain => ({
+  pages: {},
+  order: [],
+  nodePositions: {},
+  edges: [],
+});
+
+/**
+ * The start of a variant branched from a page: its setup and content, but
+ * nothing that describes the parent alone — its worksheet spec, answer-key
+ * link, provenance, review, checklist and variable table. The variant is
+ * generated anew from there.
+ */
+export function variantOf(parent: Page): Page {
+  return {
+    ...parent,
+    children: [...(parent.children || [])],
+    variableRows: undefined,
+    worksheetSpec: undefined,
+    answerKeyFor: undefined,
+    provenance: undefined,
+    review: undefined,
+    qa: undefined,
+    selectedChildId: null,
+  };
+}
+
+/**
+ * Extract the content-only domain from the store state. This is the same
+ * snapshot zundo records in history, and it is what persistence saves:
+ * transient page fields (generating, status, selectedChildId) are dropped.
+ */
+export function selectDomain(s: EditorDomain): EditorDomain {
+  const pagesClean: Record<string, Page> = {} as any;
+  for (const id of Object.keys(s.pages)) {
+    const { generating, status, selectedChildId, ...keep } = s.pages[id];
+    pagesClean[id] = keep as Page;
+  }
+  return {
+    pages: pagesClean,
+    order: s.order,
+    nodePositions: s.nodePositions,
+    edges: s.edges,
+  };
+}
+
 // Small convenience helpers so components/hooks can call undo/redo directly.
 export const undo = () => useEditorStore.temporal.getState().undo();
 export const redo = () => useEditorStore.temporal.getState().redo();
@@ -0,0 +1,238 @@
+import { create } from "zustand";
+import { newId } from "@/lib/ids";
+
+/**
+ * Generation job queue. Every generation the editor starts (page
+ * generation, branching, inspector quick prompts) is enqueued here and run
+ * with at most `concurrency` jobs at once: higher priority first, FIFO
+ * within a priority, and never two jobs on the same page op at the same
+ * time (a newer op on a page would supersede the running one). The jobs panel
+ * lists them; failed and cancelled jobs can be retried. Not part of the
+ * domain store, so jobs never touch undo history or persistence.
+ */
+
+export type JobKind =
+  | "branch"
+  | "candidate"
+  | "text"
+  | "image"
+  | "mask"
+  | "rerun"
+  | "worksheet"
+  | "answerKey"
+  | "qa"
+  | "fix";
+export type JobPriority = "high" | "normal" | "low";
+export type JobStatus = "queued" | "running" | "failed" | "done" | "cancelled";
+
+export type Job = {
+  id: string;
+  kind: JobKind;
+  pageId: string;
+  // The page op the job runs, when it is not the page's own (a candidate
+  // draft of the page); jobs on the same op never run at once
+  opId?: string;
+  prompt: string;
+  // Shown instead of the page title, e.g. for candidates not yet on the board
+  title?: string;
+  priority: JobPriority;
+  status: JobStatus;
+  // FIFO order within a priority; renewed when a job is retried
+  seq: number;
+  // Counts the runs; only the latest run may finish the job
+  attempt: number;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+};
+
+// The work behind a job: `run` throws when it fails, `cancel` stops it
+// while it runs (aborts the page op and clears its spinner)
+export type JobRunner = {
+  run: () => Promise<void>;
+  cancel: () => void;
+};
+
+export const JOB_CONCURRENCY_KEY = "CHECKFU_JOB_CONCURRENCY";
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 8;
+// Finished jobs kept for the panel
+const HISTORY_LIMIT = 50;
+
+const RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+function readConcurrency(): number {
+  try {
+    const saved =
+      typeof window !== "undefined"
+        ? Number(localStorage.getItem(JOB_CONCURRENCY_KEY))
+        : NaN;
+    if (Number.isInteger(saved) && saved >= 1 && saved <= MAX_CONCURRENCY)
+      return saved;
+  } catch {}
+  return DEFAULT_CONCURRENCY;
+}
+
+// Runners hold closures over editor state, so they live outside the store
+const runners = new Map<string, JobRunner>();
+let nextSeq = 1;
+
+type JobState = {
+  jobs: Job[];
+  concurrency: number;
+  enqueue: (
+    job: Pick<Job, "kind" | "pageId" | "opId" | "prompt" | "title"> & {
+      priority?: JobPriority;
+    },
+    runner: JobRunner,
+  ) => string;
+  cancel: (id: string) => void;
+  // Cancel every queued and running job (on one page, or everywhere)
+  cancelAll: (pageId?: string) => void;
+  retry: (id: string) => void;
+  clearFinished: () => void;
+  setConcurrency: (n: number) => void;
+};
+
+const isFinished = (j: Job) =>
+  j.status === "done" || j.status === "failed" || j.status === "cancelled";
+
+export const useJobStore = create<JobState>()((set, get) => {
+  const patch = (id: string, p: Partial<Job>) =>
+    set((s) => ({
+      jobs: s.jobs.map((j) => (j.id === id ? { ...j, ...p } : j)),
+    }));
+
+  const finish = (id: string, attempt: number, p: Partial<Job>) => {
+    // Ignore the outcome of a job that was cancelled meanwhile, and of a
+    // cancelled run that is still settling after a retry started a new one
+    const job = get().jobs.find((j) => j.id === id);
+    if (job?.status !== "running" || job.attempt !== attempt) return;
+    patch(id, { ...p, finishedAt: Date.now() });
+    pump();
+  };
+
+  // Start queued jobs while there is capacity
+  const pump = () => {
+    for (;;) {
+      const { jobs, concurrency } = get();
+      const running = jobs.filter((j) => j.status === "running");
+      if (running.length >= concurrency) return;
+      const opOf = (j: Job) => j.opId ?? j.pageId;
+      const busy = new Set(running.map(opOf));
+      const next = jobs
+        .filter((j) => j.status === "queued" && !busy.has(opOf(j)))
+        .sort(
+          (a, b) => RANK[a.priority] - RANK[b.priority] || a.seq - b.seq,
+        )[0];
+      if (!next) return;
+      const runner = runners.get(next.id);
+      if (!runner) {
+        patch(next.id, { status: "failed", error: "Job can no longer run" });
+        continue;
+      }
+      const attempt = next.attempt + 1;
+      patch(next.id, {
+        status: "running",
+        attempt,
+        startedAt: Date.now(),
+        finishedAt: undefined,
+        error: undefined,
+      });
+      runner.run().then(
+        () => finish(next.id, attempt, { status: "done" }),
+        (err) =>
+          finish(next.id, attempt, {
+            status: "failed",
+            error: (err as Error)?.message || String(err),
+          }),
+      );
+    }
+  };
+
+  // Drop the oldest finished jobs (and their runners) beyond the limit
+  const trim = () => {
+    const finished = get().jobs.filter(isFinished);
+    if (finished.length <= HISTORY_LIMIT) return;
+    const drop = new Set(
+      finished
+        .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0))
+        .slice(0, finished.length - HISTORY_LIMIT)
+        .map((j) => j.id),
+    );
+    drop.forEach((id) => runners.delete(id));
+    set((s) => ({ jobs: s.jobs.filter((j) => !drop.has(j.id)) }));
+  };
+
+  const cancelJob = (job: Job) => {
+    if (job.status !== "queued" && job.status !== "running") return;
+    patch(job.id, { status: "cancelled", finishedAt: Date.now() });
+    if (job.status === "running") runners.get(job.id)?.cancel();
+  };
+
+  return {
+    jobs: [],
+    concurrency: readConcurrency(),
+    enqueue: (job, runner) => {
+      const id = newId("job");
+      runners.set(id, runner);
+      set((s) => ({
+        jobs: [
+          ...s.jobs,
+          {
+            ...job,
+            id,
+            priority: job.priority ?? "normal",
+            status: "queued",
+            seq: nextSeq++,
+            attempt: 0,
+            queuedAt: Date.now(),
+          },
+        ],
+      }));
+      trim();
+      pump();
+      return id;
+    },
+    cancel: (id) => {
+      const job = get().jobs.find((j) => j.id === id);
+      if (job) cancelJob(job);
+      pump();
+    },
+    cancelAll: (pageId) => {
+      get()
+        .jobs.filter((j) => pageId === undefined || j.pageId === pageId)
+        .forEach(cancelJob);
+      pump();
+    },
+    retry: (id) => {
+      const job = get().jobs.find((j) => j.id === id);
+      if (!job || (job.status !== "failed" && job.status !== "cancelled"))
+        return;
+      patch(id, {
+        status: "queued",
+        seq: nextSeq++,
+        queuedAt: Date.now(),
+        startedAt: undefined,
+        finishedAt: undefined,
+        error: undefined,
+      });
+      pump();
+    },
+    clearFinished: () => {
+      get()
+        .jobs.filter(isFinished)
+        .forEach((j) => runners.delete(j.id));
+      set((s) => ({ jobs: s.jobs.filter((j) => !isFinished(j)) }));
+    },
+    setConcurrency: (n) => {
+      const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(n)));
+      try {
+        localStorage.setItem(JOB_CONCURRENCY_KEY, String(concurrency));
+      } catch {}
+      set({ concurrency });
+      pump();
+    },
+  };
+});
@@ -0,0 +1,34 @@
+import { create } from "zustand";
+import { useShallow } from "zustand/react/shallow";
+
+/**
+ * Collaborators currently in the open project (excluding this tab).
+ * Filled by usePresence from the Convex presence query; read by PageNode to
+ * show who is on each page and which layer they have selected. Not part of
+ * the domain store, so it never touches undo history or persistence.
+ */
+
+export type Peer = {
+  sessionId: string;
+  name: string;
+  color: string;
+  pageId?: string;
+  childId?: string;
+};
+
+type PresenceState = {
+  peers: Peer[];
+  setPeers: (peers: Peer[]) => void;
+};
+
+export const usePresenceStore = create<PresenceState>()((set) => ({
+  peers: [],
+  setPeers: (peers) => set({ peers }),
+}));
+
+export const usePeersOnPage = (pageId: string | null | undefined) =>
+  usePresenceStore(
+    useShallow((s) =>
+      pageId ? s.peers.filter((p) => p.pageId === pageId) : [],
+    ),
+  );